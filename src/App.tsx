@@ -1,53 +1,19 @@
-import { lazy, Suspense } from 'react';
-import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useState } from 'react';
+import { createBrowserRouter, Link, type RouteObject } from 'react-router-dom';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from '@/context/AuthContext';
-import { Toaster, GlobalErrorBoundary } from '@/components/feedback';
+import { AuthRouterProvider } from '@/routes/AuthRouterProvider';
+import { lazyPage, redirectIfAuthenticated } from '@/routes/loaders';
+import { queryClient } from '@/lib/query-client';
+import { kitchenSinkLoader } from '@/pages/demo/kitchen-sink-queries';
+import { Toaster, GlobalErrorBoundary, PageLoader, RouteErrorElement } from '@/components/feedback';
+import { NetworkInspector } from '@/components/ui/NetworkInspector';
 import DesignSystemPage from '@/pages/DesignSystemPage';
 import ComponentShowcasePage from '@/pages/ComponentShowcasePage';
 import FormShowcasePage from '@/pages/FormShowcasePage';
 import LoginDemoPage from '@/pages/LoginDemoPage';
 import DashboardDemoPage from '@/pages/DashboardDemoPage';
 
-// Lazy-loaded pages for code splitting
-const ShowcasePage = lazy(() => import('@/pages/ShowcasePage'));
-const ClientTablePage = lazy(() => import('@/pages/tables/ClientTablePage'));
-const ServerTablePage = lazy(() => import('@/pages/tables/ServerTablePage'));
-const KitchenSinkPage = lazy(() => import('@/pages/demo/KitchenSinkPage'));
-
-// Create query client with sensible defaults
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes
-      retry: 1,
-      refetchOnWindowFocus: false,
-    },
-  },
-});
-
-// Loading fallback component
-function PageLoader() {
-  return (
-    <div
-      className="flex items-center justify-center min-h-screen"
-      style={{ backgroundColor: "var(--color-bg)", color: "var(--color-text)" }}
-    >
-      <div className="text-center">
-        <div
-          className="w-8 h-8 border-4 rounded-full animate-spin mx-auto mb-4"
-          style={{
-            borderColor: "var(--color-border)",
-            borderTopColor: "var(--color-primary)",
-          }}
-        />
-        <p style={{ color: "var(--color-text-muted)" }}>Loading...</p>
-      </div>
-    </div>
-  );
-}
-
 function HomePage() {
   return (
     <div 
@@ -165,59 +131,51 @@ function HomePage() {
   );
 }
 
+// Demo routes - pages are code-split and load in parallel with their loaders
+const routes: RouteObject[] = [
+  {
+    HydrateFallback: PageLoader,
+    errorElement: <RouteErrorElement />,
+    children: [
+      { path: '/', element: <HomePage /> },
+      { path: '/design-system', element: <DesignSystemPage /> },
+      { path: '/components', element: <ComponentShowcasePage /> },
+      { path: '/forms', element: <FormShowcasePage /> },
+      { path: '/login-demo', element: <LoginDemoPage /> },
+      {
+        path: '/login',
+        lazy: lazyPage(() => import('@/pages/LoginPage')),
+        loader: ({ request }) => redirectIfAuthenticated(request, '/'),
+      },
+      { path: '/dashboard-demo', element: <DashboardDemoPage /> },
+      { path: '/showcase', lazy: lazyPage(() => import('@/pages/ShowcasePage')) },
+      { path: '/tables/client', lazy: lazyPage(() => import('@/pages/tables/ClientTablePage')) },
+      { path: '/tables/server', lazy: lazyPage(() => import('@/pages/tables/ServerTablePage')) },
+      /*
+        Kitchen Sink Demo - accessible without auth for development.
+        See the route registry for the production-ready protected version
+        that requires DEMO:VIEW permission.
+      */
+      {
+        path: '/demo/kitchen-sink',
+        lazy: lazyPage(() => import('@/pages/demo/KitchenSinkPage')),
+        loader: (args) => kitchenSinkLoader({ ...args, queryClient }),
+      },
+    ],
+  },
+];
+
 function App() {
+  // Created once: creating a router starts the initial navigation
+  const [router] = useState(() => createBrowserRouter(routes));
+
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <GlobalErrorBoundary>
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/design-system" element={<DesignSystemPage />} />
-              <Route path="/components" element={<ComponentShowcasePage />} />
-              <Route path="/forms" element={<FormShowcasePage />} />
-              <Route path="/login-demo" element={<LoginDemoPage />} />
-              <Route path="/dashboard-demo" element={<DashboardDemoPage />} />
-              <Route 
-                path="/showcase" 
-                element={
-                  <Suspense fallback={<PageLoader />}>
-                    <ShowcasePage />
-                  </Suspense>
-                } 
-              />
-              <Route 
-                path="/tables/client" 
-                element={
-                  <Suspense fallback={<PageLoader />}>
-                    <ClientTablePage />
-                  </Suspense>
-                } 
-              />
-              <Route 
-                path="/tables/server" 
-                element={
-                  <Suspense fallback={<PageLoader />}>
-                    <ServerTablePage />
-                  </Suspense>
-                } 
-              />
-              {/* 
-                Kitchen Sink Demo - accessible without auth for development.
-                See AppRoutes.tsx for the production-ready protected version
-                that requires DEMO:VIEW permission.
-              */}
-              <Route 
-                path="/demo/kitchen-sink" 
-                element={
-                  <Suspense fallback={<PageLoader />}>
-                    <KitchenSinkPage />
-                  </Suspense>
-                } 
-              />
-            </Routes>
-          </BrowserRouter>
+          <AuthRouterProvider router={router} />
           <Toaster />
+          {import.meta.env.DEV && <NetworkInspector />}
         </GlobalErrorBoundary>
       </AuthProvider>
     </QueryClientProvider>
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import {
+  apiClient,
+  getAuthToken,
+  getRefreshToken,
+  setAuthToken,
+  setRefreshToken,
+} from './client'
+
+const server = setupServer()
+
+/**
+ * Protected endpoint that only accepts the "fresh-token" access token.
+ */
+const protectedHandler = http.get('/api/protected', ({ request }) => {
+  if (request.headers.get('Authorization') !== 'Bearer fresh-token') {
+    return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+  return HttpResponse.json({ ok: true })
+})
+
+describe('apiClient token refresh', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+
+  beforeEach(() => {
+    localStorage.clear()
+    setAuthToken('expired-token')
+    setRefreshToken('refresh-1')
+  })
+
+  afterEach(() => {
+    server.resetHandlers()
+    localStorage.clear()
+  })
+
+  it('refreshes the token on 401 and replays the request', async () => {
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () =>
+        HttpResponse.json({ token: 'fresh-token', refreshToken: 'refresh-2' })
+      )
+    )
+
+    const response = await apiClient.get('/protected')
+
+    expect(response.data).toEqual({ ok: true })
+    expect(getAuthToken()).toBe('fresh-token')
+    expect(getRefreshToken()).toBe('refresh-2')
+  })
+
+  it('sends a single refresh for concurrent 401 responses', async () => {
+    const refreshSpy = vi.fn()
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () => {
+        refreshSpy()
+        return HttpResponse.json({ token: 'fresh-token' })
+      })
+    )
+
+    const results = await Promise.all([
+      apiClient.get('/protected'),
+      apiClient.get('/protected'),
+      apiClient.get('/protected'),
+    ])
+
+    expect(results.map((r) => r.data)).toEqual([
+      { ok: true },
+      { ok: true },
+      { ok: true },
+    ])
+    expect(refreshSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('dispatches auth:token-refreshed with the new token', async () => {
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () =>
+        HttpResponse.json({ token: 'fresh-token' })
+      )
+    )
+    const listener = vi.fn()
+    window.addEventListener('auth:token-refreshed', listener)
+
+    await apiClient.get('/protected')
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      token: 'fresh-token',
+    })
+    window.removeEventListener('auth:token-refreshed', listener)
+  })
+
+  it('logs out when the refresh itself fails', async () => {
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () =>
+        HttpResponse.json({ message: 'Invalid' }, { status: 401 })
+      )
+    )
+    const listener = vi.fn()
+    window.addEventListener('auth:unauthorized', listener)
+
+    await expect(apiClient.get('/protected')).rejects.toMatchObject({
+      name: 'ApiError',
+      status: 401,
+    })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(getAuthToken()).toBeNull()
+    expect(getRefreshToken()).toBeNull()
+    window.removeEventListener('auth:unauthorized', listener)
+  })
+
+  it('logs out immediately when no refresh token is stored', async () => {
+    localStorage.removeItem('auth_refresh_token')
+    const refreshSpy = vi.fn()
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () => {
+        refreshSpy()
+        return HttpResponse.json({ token: 'fresh-token' })
+      })
+    )
+    const listener = vi.fn()
+    window.addEventListener('auth:unauthorized', listener)
+
+    await expect(apiClient.get('/protected')).rejects.toBeDefined()
+
+    expect(refreshSpy).not.toHaveBeenCalled()
+    expect(listener).toHaveBeenCalledTimes(1)
+    window.removeEventListener('auth:unauthorized', listener)
+  })
+
+  it('does not refresh when skipAuthRefresh is set', async () => {
+    const refreshSpy = vi.fn()
+    server.use(
+      protectedHandler,
+      http.post('/api/auth/refresh', () => {
+        refreshSpy()
+        return HttpResponse.json({ token: 'fresh-token' })
+      })
+    )
+
+    await expect(
+      apiClient.get('/protected', { meta: { skipAuthRefresh: true } })
+    ).rejects.toBeDefined()
+
+    expect(refreshSpy).not.toHaveBeenCalled()
+    expect(getRefreshToken()).toBe('refresh-1')
+  })
+})
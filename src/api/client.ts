@@ -1,50 +1,93 @@
 import axios, {
+  isCancel,
   type AxiosInstance,
   type AxiosError,
   type InternalAxiosRequestConfig,
   type AxiosResponse,
 } from "axios";
 import { toast } from "sonner";
+import type { RefreshTokenResponse } from "@/types/auth";
+import { createTokenStorage, type TokenStorage } from "./token-storage";
+import { toApiError, type ApiErrorBody } from "./errors";
+import { networkLog } from "./network-log";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  getRetryAfter,
+  getRetryDelay,
+  needsIdempotencyKey,
+  resolveRetryPolicy,
+  shouldRetry,
+  waitForRetry,
+  type RetryOption,
+} from "./retry";
 
 /**
  * Storage key for the authentication token.
  */
-const AUTH_TOKEN_KEY = "auth_token";
+export const AUTH_TOKEN_KEY = "auth_token";
 
 /**
- * Get the authentication token from localStorage.
+ * Storage key for the refresh token.
  */
-export const getAuthToken = (): string | null => {
-  if (typeof window === "undefined") return null;
-  return localStorage.getItem(AUTH_TOKEN_KEY);
-};
+const REFRESH_TOKEN_KEY = "auth_refresh_token";
+
+/**
+ * Endpoint used to exchange a refresh token for a new access token.
+ */
+const REFRESH_TOKEN_URL = "/auth/refresh";
+
+/**
+ * Active token storage strategy.
+ * Defaults to the `VITE_TOKEN_STORAGE` env var ("memory" | "session" | "local" | "cookie"),
+ * falling back to localStorage. Override with `configureTokenStorage`.
+ */
+let tokenStorage: TokenStorage = createTokenStorage(
+  import.meta.env.VITE_TOKEN_STORAGE
+);
+
+/**
+ * Get the active token storage strategy.
+ */
+export const getTokenStorage = (): TokenStorage => tokenStorage;
+
+/**
+ * Get the authentication token from the configured token storage.
+ */
+export const getAuthToken = (): string | null => tokenStorage.get(AUTH_TOKEN_KEY);
 
 /**
- * Set the authentication token in localStorage.
+ * Set the authentication token in the configured token storage.
  */
 export const setAuthToken = (token: string): void => {
-  if (typeof window !== "undefined") {
-    localStorage.setItem(AUTH_TOKEN_KEY, token);
-  }
+  tokenStorage.set(AUTH_TOKEN_KEY, token);
 };
 
 /**
- * Remove the authentication token from localStorage.
+ * Remove the authentication token from the configured token storage.
  */
 export const removeAuthToken = (): void => {
-  if (typeof window !== "undefined") {
-    localStorage.removeItem(AUTH_TOKEN_KEY);
-  }
+  tokenStorage.remove(AUTH_TOKEN_KEY);
 };
 
 /**
- * API error response structure.
+ * Get the refresh token from the configured token storage.
  */
-export interface ApiError {
-  message: string;
-  status: number;
-  code?: string;
-}
+export const getRefreshToken = (): string | null =>
+  tokenStorage.get(REFRESH_TOKEN_KEY);
+
+/**
+ * Set the refresh token in the configured token storage.
+ */
+export const setRefreshToken = (token: string): void => {
+  tokenStorage.set(REFRESH_TOKEN_KEY, token);
+};
+
+/**
+ * Remove the refresh token from the configured token storage.
+ */
+export const removeRefreshToken = (): void => {
+  tokenStorage.remove(REFRESH_TOKEN_KEY);
+};
 
 /**
  * Extended Axios request config with toast metadata.
@@ -56,18 +99,84 @@ export interface ApiRequestMeta {
   successMessage?: string;
   /** Disable all automatic toast notifications for this request */
   disableToast?: boolean;
+  /** Do not attempt a token refresh when this request returns 401 */
+  skipAuthRefresh?: boolean;
+  /**
+   * Retry transient failures (network errors, timeouts, 408/425/429/5xx gateway errors)
+   * with exponential backoff. POST and PATCH requests with retries enabled get an
+   * `Idempotency-Key` header that stays the same across attempts.
+   */
+  retry?: RetryOption;
 }
 
 // Extend Axios types to include meta
 declare module "axios" {
   interface InternalAxiosRequestConfig {
     meta?: ApiRequestMeta;
+    /** Set once a request has been replayed after a token refresh */
+    _retry?: boolean;
+    /** Number of retries already made under the request's retry policy */
+    _retryCount?: number;
   }
   interface AxiosRequestConfig {
     meta?: ApiRequestMeta;
   }
 }
 
+/**
+ * The in-flight refresh request, shared by every request that hits a 401
+ * while it is running so only one refresh is ever sent at a time.
+ */
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Clear all stored tokens and notify the auth context.
+ */
+const handleSessionExpired = (): void => {
+  removeAuthToken();
+  removeRefreshToken();
+  // Dispatch a custom event for auth context to handle
+  window.dispatchEvent(new CustomEvent("auth:unauthorized"));
+};
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers receive the same promise; it resolves with the new
+ * access token or rejects when the refresh itself fails.
+ */
+const refreshAccessToken = (client: AxiosInstance): Promise<string> => {
+  if (refreshPromise) return refreshPromise;
+
+  // With cookie-managed tokens the server reads the refresh cookie itself
+  const refreshToken = getRefreshToken();
+  if (!refreshToken && tokenStorage.isAccessible) {
+    return Promise.reject(new Error("No refresh token available"));
+  }
+
+  refreshPromise = client
+    .post<RefreshTokenResponse>(
+      REFRESH_TOKEN_URL,
+      refreshToken ? { refreshToken } : undefined,
+      { meta: { skipAuthRefresh: true, disableToast: true } }
+    )
+    .then((response) => {
+      const { token, refreshToken: nextRefreshToken } = response.data;
+      setAuthToken(token);
+      if (nextRefreshToken) {
+        setRefreshToken(nextRefreshToken);
+      }
+      window.dispatchEvent(
+        new CustomEvent("auth:token-refreshed", { detail: { token } })
+      );
+      return token;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
 /**
  * Create and configure the Axios instance.
  */
@@ -75,14 +184,26 @@ const createApiClient = (): AxiosInstance => {
   const client = axios.create({
     baseURL: import.meta.env.VITE_API_BASE_URL || "/api",
     timeout: 30000,
+    withCredentials: !tokenStorage.isAccessible,
     headers: {
       "Content-Type": "application/json",
     },
   });
 
+  // Record requests for the network inspector; attached first so it sees each raw attempt
+  if (import.meta.env.DEV) {
+    networkLog.attach(client);
+  }
+
   // Request interceptor - attach Authorization header
   client.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
+    async (config: InternalAxiosRequestConfig) => {
+      // Hold new requests until a running refresh settles so they are sent
+      // with the new token instead of failing with 401 themselves
+      if (refreshPromise && !config.meta?.skipAuthRefresh) {
+        await refreshPromise.catch(() => undefined);
+      }
+
       // Allow overriding the token via config headers
       if (!config.headers.Authorization) {
         const token = getAuthToken();
@@ -90,6 +211,15 @@ const createApiClient = (): AxiosInstance => {
           config.headers.Authorization = `Bearer ${token}`;
         }
       }
+
+      // Let the server deduplicate retried writes; set once so every attempt shares the key
+      if (
+        resolveRetryPolicy(config.meta?.retry) &&
+        needsIdempotencyKey(config.method) &&
+        !config.headers[IDEMPOTENCY_KEY_HEADER]
+      ) {
+        config.headers[IDEMPOTENCY_KEY_HEADER] = crypto.randomUUID();
+      }
       return config;
     },
     (error: AxiosError) => {
@@ -97,7 +227,8 @@ const createApiClient = (): AxiosInstance => {
     }
   );
 
-  // Response interceptor - handle global errors and toast notifications
+  // Response interceptor - handle global errors and toast notifications,
+  // then reject with a normalized ApiError
   client.interceptors.response.use(
     (response: AxiosResponse) => {
       const meta = response.config.meta;
@@ -110,16 +241,70 @@ const createApiClient = (): AxiosInstance => {
 
       return response;
     },
-    (error: AxiosError<ApiError>) => {
+    async (error: AxiosError<ApiErrorBody>) => {
       const status = error.response?.status;
-      const meta = error.config?.meta;
+      const config = error.config;
+      const meta = config?.meta;
       const shouldShowToast = !meta?.disableToast;
 
+      // Cancelled requests fail silently: no retry, refresh, logout or toast
+      if (isCancel(error) || config?.signal?.aborted) {
+        return Promise.reject(toApiError(error));
+      }
+
+      // Transient failure - back off and replay; only the final failure is reported
+      const retryPolicy = resolveRetryPolicy(meta?.retry);
+      const retriesDone = config?._retryCount ?? 0;
+      if (config && retryPolicy && shouldRetry(status, retriesDone, retryPolicy)) {
+        config._retryCount = retriesDone + 1;
+        await waitForRetry(
+          getRetryDelay(
+            config._retryCount,
+            retryPolicy,
+            getRetryAfter(status, error.response?.headers?.["retry-after"])
+          ),
+          config.signal
+        );
+        return client(config);
+      }
+
       if (status === 401) {
-        // Unauthorized - clear token and redirect to login
-        removeAuthToken();
-        // Dispatch a custom event for auth context to handle
-        window.dispatchEvent(new CustomEvent("auth:unauthorized"));
+        // Unauthorized - try a silent refresh once, then replay the request
+        const canRefresh =
+          config &&
+          !config._retry &&
+          !meta?.skipAuthRefresh &&
+          (getRefreshToken() || !tokenStorage.isAccessible);
+
+        if (canRefresh) {
+          config._retry = true;
+          try {
+            // Another request may already have refreshed the token while
+            // this one was in flight - replay with it instead of refreshing again
+            const currentToken = getAuthToken();
+            const token =
+              currentToken &&
+              config.headers.Authorization !== `Bearer ${currentToken}`
+                ? currentToken
+                : await refreshAccessToken(client);
+            if (token) {
+              config.headers.Authorization = `Bearer ${token}`;
+            }
+            return client(config);
+          } catch {
+            // Refresh failed - fall through to logout
+          }
+
+          // The request was aborted while waiting for the refresh - stay silent
+          if (config.signal?.aborted) {
+            return Promise.reject(toApiError(error));
+          }
+        }
+
+        // Refresh unavailable or failed - clear tokens and redirect to login
+        if (!meta?.skipAuthRefresh) {
+          handleSessionExpired();
+        }
       } else if (status === 403) {
         const message =
           error.response?.data?.message ||
@@ -144,7 +329,7 @@ const createApiClient = (): AxiosInstance => {
         toast.error(message);
       }
 
-      return Promise.reject(error);
+      return Promise.reject(toApiError(error));
     }
   );
 
@@ -156,4 +341,28 @@ const createApiClient = (): AxiosInstance => {
  */
 export const apiClient = createApiClient();
 
+/**
+ * Select the token storage strategy used by the API client and AuthContext.
+ * Call this once at app start, before rendering `AuthProvider`.
+ * Cookie-managed storage also makes requests send credentials.
+ *
+ * @example
+ * // In main.tsx
+ * configureTokenStorage(createMemoryTokenStorage());
+ */
+export const configureTokenStorage = (storage: TokenStorage): void => {
+  tokenStorage = storage;
+  apiClient.defaults.withCredentials = !storage.isAccessible;
+};
+
+/**
+ * Refresh the access token using the stored refresh token.
+ * Shares the in-flight refresh with the 401 interceptor, so calling this
+ * while a silent refresh is running does not send a second request.
+ *
+ * @returns Promise resolving with the new access token
+ */
+export const refreshAuthToken = (): Promise<string> =>
+  refreshAccessToken(apiClient);
+
 export default apiClient;
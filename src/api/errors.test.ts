@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { AxiosError, CanceledError } from 'axios'
+import { apiGet, apiPost } from './generic-api'
+import { ApiError, isApiError, toApiError } from './errors'
+
+const server = setupServer()
+
+describe('ApiError normalization', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => server.resetHandlers())
+
+  it('converts error responses with body details', async () => {
+    server.use(
+      http.get('/api/badges/9', () =>
+        HttpResponse.json(
+          { message: 'Badge not found', code: 'NOT_FOUND' },
+          { status: 404, headers: { 'X-Request-Id': 'req-123' } }
+        )
+      )
+    )
+
+    const error = await apiGet('/badges/9', undefined, { meta: { disableToast: true } }).catch(
+      (e: unknown) => e
+    )
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({
+      status: 404,
+      code: 'NOT_FOUND',
+      message: 'Badge not found',
+      requestId: 'req-123',
+      isClientError: true,
+      isServerError: false,
+      isNetworkError: false,
+    })
+    expect(isApiError(error, 404)).toBe(true)
+    expect(isApiError(error, 500)).toBe(false)
+  })
+
+  it('normalizes field errors from a record or a list', async () => {
+    server.use(
+      http.post('/api/badges', () =>
+        HttpResponse.json(
+          { message: 'Validation failed', errors: { name: 'Name is taken', 'meta.color': ['Invalid'] } },
+          { status: 422 }
+        )
+      )
+    )
+
+    const error = await apiPost('/badges', {}).catch((e: unknown) => e)
+    expect(error).toMatchObject({
+      status: 422,
+      hasFieldErrors: true,
+      fieldErrors: { name: ['Name is taken'], 'meta.color': ['Invalid'] },
+    })
+
+    const fromList = toApiError(
+      new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        headers: {},
+        config: {} as never,
+        data: { errors: [{ field: 'name', message: 'Required' }, { field: 'name', message: 'Too short' }] },
+      })
+    )
+    expect(fromList.fieldErrors).toEqual({ name: ['Required', 'Too short'] })
+    expect(fromList.message).toBe('Request failed')
+  })
+
+  it('flags network errors', async () => {
+    server.use(http.get('/api/badges', () => HttpResponse.error()))
+
+    const error = await apiGet('/badges').catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ status: 0, isNetworkError: true, isTimeout: false })
+  })
+
+  it('flags timeouts and cancellations', () => {
+    expect(toApiError(new AxiosError('timeout of 10ms exceeded', 'ECONNABORTED'))).toMatchObject({
+      isTimeout: true,
+      isNetworkError: false,
+    })
+    expect(toApiError(new CanceledError())).toMatchObject({ isCancelled: true, code: 'ERR_CANCELED' })
+  })
+
+  it('wraps unknown errors and returns ApiErrors unchanged', () => {
+    const apiError = new ApiError({ message: 'Boom', status: 500 })
+
+    expect(toApiError(apiError)).toBe(apiError)
+    expect(toApiError(new Error('Oops'))).toMatchObject({ message: 'Oops', status: 0, cause: expect.any(Error) })
+    expect(isApiError(new Error('Oops'))).toBe(false)
+  })
+})
@@ -0,0 +1,214 @@
+import { isAxiosError, isCancel } from "axios";
+
+/**
+ * Error body returned by the API.
+ */
+export interface ApiErrorBody {
+  message?: string;
+  code?: string;
+  /** Validation errors keyed by field name */
+  errors?: Record<string, string | string[]> | Array<{ field: string; message: string }>;
+  requestId?: string;
+}
+
+/**
+ * Validation messages keyed by field name (dot paths for nested fields).
+ */
+export type ApiFieldErrors = Record<string, string[]>;
+
+/**
+ * Error code of field validation failures (sent with a 422 status).
+ */
+export const VALIDATION_ERROR_CODE = "VALIDATION_ERROR";
+
+/**
+ * Standard body of a 422 response. Field names are dot paths into the request
+ * body; array items may use either `tags.0.name` or `tags[0].name`.
+ *
+ * @example
+ * {
+ *   "message": "Validation failed",
+ *   "code": "VALIDATION_ERROR",
+ *   "errors": { "name": ["A badge with this name already exists"] }
+ * }
+ */
+export interface ValidationErrorBody extends ApiErrorBody {
+  code: typeof VALIDATION_ERROR_CODE;
+  errors: Record<string, string[]>;
+}
+
+/**
+ * Constructor options for ApiError.
+ */
+export interface ApiErrorOptions {
+  message: string;
+  /** HTTP status, 0 when no response was received */
+  status?: number;
+  code?: string;
+  fieldErrors?: ApiFieldErrors;
+  requestId?: string;
+  isNetworkError?: boolean;
+  isTimeout?: boolean;
+  isCancelled?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Response header carrying the server-side request id.
+ */
+const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * Normalized error every API request rejects with.
+ * Wraps HTTP error responses, network failures, timeouts and cancellations
+ * so callers never have to dig into the raw AxiosError.
+ *
+ * @example
+ * try {
+ *   await apiPost('/badges', values);
+ * } catch (error) {
+ *   if (isApiError(error) && error.status === 409) {
+ *     setError('name', { message: error.message });
+ *   }
+ * }
+ */
+export class ApiError extends Error {
+  readonly name: string = "ApiError";
+  /** HTTP status, 0 when no response was received */
+  readonly status: number;
+  /** Machine-readable error code from the response body, or the axios error code */
+  readonly code?: string;
+  /** Validation messages keyed by field name */
+  readonly fieldErrors: ApiFieldErrors;
+  /** Server-side request id, for correlating with backend logs */
+  readonly requestId?: string;
+  /** The request never got a response (offline, DNS, CORS, ...) */
+  readonly isNetworkError: boolean;
+  /** The request exceeded its timeout */
+  readonly isTimeout: boolean;
+  /** The request was aborted by the caller */
+  readonly isCancelled: boolean;
+
+  constructor({
+    message,
+    status = 0,
+    code,
+    fieldErrors = {},
+    requestId,
+    isNetworkError = false,
+    isTimeout = false,
+    isCancelled = false,
+    cause,
+  }: ApiErrorOptions) {
+    super(message, { cause });
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.requestId = requestId;
+    this.isNetworkError = isNetworkError;
+    this.isTimeout = isTimeout;
+    this.isCancelled = isCancelled;
+  }
+
+  /** 4xx response */
+  get isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+
+  /** 5xx response */
+  get isServerError(): boolean {
+    return this.status >= 500;
+  }
+
+  /** The response carried field-level validation errors */
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+/**
+ * Check whether a value is an ApiError, optionally with the given status.
+ *
+ * @example
+ * if (isApiError(error, 404)) return <NotFound />;
+ */
+export function isApiError(error: unknown, status?: number): error is ApiError {
+  return error instanceof ApiError && (status === undefined || error.status === status);
+}
+
+/**
+ * Check whether a value is a field validation failure: a 422 response,
+ * or any ApiError carrying field errors.
+ */
+export function isValidationError(error: unknown): error is ApiError {
+  return isApiError(error) && (error.status === 422 || error.hasFieldErrors);
+}
+
+/**
+ * Normalize the `errors` field of an error body into ApiFieldErrors.
+ */
+function normalizeFieldErrors(errors: ApiErrorBody["errors"]): ApiFieldErrors {
+  if (!errors || typeof errors !== "object") return {};
+
+  const fieldErrors: ApiFieldErrors = {};
+  if (Array.isArray(errors)) {
+    for (const { field, message } of errors) {
+      (fieldErrors[field] ??= []).push(message);
+    }
+    return fieldErrors;
+  }
+
+  for (const [field, messages] of Object.entries(errors)) {
+    fieldErrors[field] = Array.isArray(messages) ? messages : [messages];
+  }
+  return fieldErrors;
+}
+
+/**
+ * Convert any rejection into an ApiError. ApiErrors are returned unchanged.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (isCancel(error) || (isAxiosError(error) && error.config?.signal?.aborted)) {
+    return new ApiError({
+      message: "Request was cancelled",
+      code: "ERR_CANCELED",
+      isCancelled: true,
+      cause: error,
+    });
+  }
+
+  if (isAxiosError<ApiErrorBody>(error)) {
+    const { response } = error;
+
+    if (!response) {
+      const isTimeout = error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+      return new ApiError({
+        message: isTimeout ? "The request timed out" : "Unable to reach the server",
+        code: error.code,
+        isTimeout,
+        isNetworkError: !isTimeout,
+        cause: error,
+      });
+    }
+
+    const body: ApiErrorBody =
+      response.data && typeof response.data === "object" ? response.data : {};
+    const requestIdHeader = response.headers?.[REQUEST_ID_HEADER];
+
+    return new ApiError({
+      message: body.message || error.message,
+      status: response.status,
+      code: body.code ?? error.code,
+      fieldErrors: normalizeFieldErrors(body.errors),
+      requestId: body.requestId ?? (typeof requestIdHeader === "string" ? requestIdHeader : undefined),
+      cause: error,
+    });
+  }
+
+  return new ApiError({
+    message: error instanceof Error ? error.message : "An unexpected error occurred",
+    cause: error,
+  });
+}
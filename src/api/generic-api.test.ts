@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { setupServer } from 'msw/node'
+import { toast } from 'sonner'
+import { apiGet } from './generic-api'
+import { setAuthToken, setRefreshToken } from './client'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const server = setupServer()
+
+describe('apiGet deduplication', () => {
+  const calls: string[] = []
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  beforeEach(() => {
+    calls.length = 0
+    server.use(
+      http.get('/api/badges', async ({ request }) => {
+        calls.push(new URL(request.url).search)
+        await delay(20)
+        return HttpResponse.json({ search: new URL(request.url).search })
+      })
+    )
+  })
+  afterEach(() => server.resetHandlers())
+
+  it('shares one request between identical concurrent calls', async () => {
+    const [first, second] = await Promise.all([
+      apiGet('/badges', { page: 1, status: 'active' }),
+      apiGet('/badges', { status: 'active', page: 1 }),
+    ])
+
+    expect(calls).toHaveLength(1)
+    expect(first).toEqual(second)
+  })
+
+  it('sends separate requests for different params and after settling', async () => {
+    await Promise.all([apiGet('/badges', { page: 1 }), apiGet('/badges', { page: 2 })])
+    await apiGet('/badges', { page: 1 })
+
+    expect(calls).toEqual(['?page=1', '?page=2', '?page=1'])
+  })
+
+  it('does not share requests with a signal or with dedupe disabled', async () => {
+    await Promise.all([
+      apiGet('/badges', undefined, { signal: new AbortController().signal }),
+      apiGet('/badges'),
+      apiGet('/badges', undefined, { dedupe: false }),
+    ])
+
+    expect(calls).toHaveLength(3)
+  })
+
+  it('does not share requests whose config differs', async () => {
+    await Promise.all([
+      apiGet('/badges'),
+      apiGet('/badges', undefined, { meta: { disableToast: true } }),
+      apiGet('/badges', undefined, { timeout: 5000 }),
+      apiGet('/badges', undefined, { responseType: 'text' }),
+      apiGet('/badges', undefined, { transformResponse: (data: unknown) => data }),
+    ])
+
+    expect(calls).toHaveLength(5)
+  })
+})
+
+describe('request cancellation', () => {
+  const unauthorized = vi.fn()
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' })
+    window.addEventListener('auth:unauthorized', unauthorized)
+  })
+  afterAll(() => {
+    server.close()
+    window.removeEventListener('auth:unauthorized', unauthorized)
+  })
+  afterEach(() => {
+    server.resetHandlers()
+    localStorage.clear()
+    unauthorized.mockClear()
+    vi.mocked(toast.error).mockClear()
+  })
+
+  it('rejects aborted requests with a silent cancelled ApiError', async () => {
+    server.use(
+      http.get('/api/reports', async () => {
+        await delay(200)
+        return HttpResponse.json({ message: 'Too late' }, { status: 500 })
+      })
+    )
+    const controller = new AbortController()
+
+    const request = apiGet('/reports', undefined, { signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toMatchObject({ name: 'ApiError', isCancelled: true, status: 0 })
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+
+  it('does not log out when a request is aborted during a token refresh', async () => {
+    setAuthToken('expired-token')
+    setRefreshToken('refresh-1')
+    server.use(
+      http.get('/api/protected', () => HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })),
+      http.post('/api/auth/refresh', async () => {
+        await delay(50)
+        return HttpResponse.json({ message: 'Invalid' }, { status: 401 })
+      })
+    )
+    const controller = new AbortController()
+
+    const request = apiGet('/protected', undefined, { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(request).rejects.toMatchObject({ isCancelled: true })
+    expect(unauthorized).not.toHaveBeenCalled()
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+})
@@ -1,12 +1,123 @@
 import type { AxiosRequestConfig, AxiosResponse } from "axios";
 import { apiClient } from "./client";
+import { toApiError } from "./errors";
+import { validateResponse, type ResponseValidationOptions } from "./validation";
+
+/**
+ * Axios config plus optional response validation.
+ * When `schema` is given, the response type is inferred from it.
+ */
+export type ApiRequestConfig<T = unknown> = AxiosRequestConfig &
+  ResponseValidationOptions<T> & {
+    /**
+     * Share one in-flight request between identical GETs (same URL, params and config).
+     * Requests with their own `signal` or with callbacks in their config are never shared,
+     * since aborting one would abort all and callbacks can't be compared.
+     * Default: true.
+     */
+    dedupe?: boolean;
+  };
+
+/**
+ * In-flight GET requests by dedupe key.
+ */
+const inflightGets = new Map<string, Promise<AxiosResponse<unknown>>>();
+
+/**
+ * Serialize a value with object keys sorted, so `{ a, b }` and `{ b, a }` match.
+ */
+function stableSerialize(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableSerialize).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableSerialize(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * Whether a value holds a function anywhere, which stableSerialize can't tell apart.
+ */
+function containsFunction(value: unknown): boolean {
+  if (typeof value === "function") return true;
+  if (value && typeof value === "object") return Object.values(value).some(containsFunction);
+  return false;
+}
+
+/**
+ * Dedupe key of a GET: its URL, params and everything in the Axios config that shapes
+ * the request or how the response is handled (headers, meta, timeout, responseType...).
+ * Validation options aren't part of it since each caller validates on its own.
+ *
+ * @returns undefined when the config can't be compared, so the request isn't shared
+ */
+function getDedupeKey(
+  url: string,
+  params: Record<string, unknown> | undefined,
+  axiosConfig: AxiosRequestConfig
+): string | undefined {
+  if (containsFunction([params, axiosConfig])) return undefined;
+  return stableSerialize([url, params, axiosConfig]);
+}
+
+/**
+ * Send a request through the in-flight map, joining an identical pending request if there is one.
+ */
+function sendShared<T>(
+  key: string,
+  send: () => Promise<AxiosResponse<T>>
+): Promise<AxiosResponse<T>> {
+  const inflight = inflightGets.get(key) as Promise<AxiosResponse<T>> | undefined;
+  if (inflight) return inflight;
+
+  const promise = send().finally(() => inflightGets.delete(key));
+  inflightGets.set(key, promise);
+  return promise;
+}
+
+/**
+ * Send a request and validate the response body when a schema is configured.
+ * Every failure rejects with an ApiError.
+ *
+ * @param getKey - Dedupe key for the request's Axios config; the request is shared with
+ *   identical in-flight requests under that key
+ */
+async function request<T>(
+  method: string,
+  url: string,
+  config: ApiRequestConfig<T> | undefined,
+  send: (axiosConfig: AxiosRequestConfig) => Promise<AxiosResponse<T>>,
+  getKey?: (axiosConfig: AxiosRequestConfig) => string | undefined
+): Promise<T> {
+  const { schema, stripUnknown, dedupe = true, ...axiosConfig } = config ?? {};
+  const dedupeKey = dedupe && !axiosConfig.signal ? getKey?.(axiosConfig) : undefined;
+
+  const response = await (dedupeKey !== undefined
+    ? sendShared(dedupeKey, () => send(axiosConfig))
+    : send(axiosConfig)
+  ).catch((error: unknown) => {
+    throw toApiError(error);
+  });
+  return validateResponse(response.data, { schema, stripUnknown }, {
+    method,
+    url,
+    status: response.status,
+    meta: axiosConfig.meta,
+  });
+}
 
 /**
  * Generic GET request.
+ * Identical concurrent calls share one network request unless `dedupe: false`
+ * or a `signal` is given; each caller still validates with its own schema.
  *
  * @param url - The endpoint URL
  * @param params - Optional query parameters
  * @param config - Optional Axios config (can override token via headers.Authorization)
+ *   and response validation options (`schema`, `stripUnknown`)
  * @returns Promise with the response data
  *
  * @example
@@ -14,10 +125,20 @@ import { apiClient } from "./client";
  * const users = await apiGet<User[]>('/users');
  *
  * @example
+ * // Validate the response - the type is inferred from the schema
+ * const users = await apiGet('/users', undefined, { schema: z.array(userSchema) });
+ *
+ * @example
  * // With query parameters
  * const user = await apiGet<User>('/users', { id: '123' });
  *
  * @example
+ * // Abortable request
+ * const controller = new AbortController();
+ * const users = apiGet<User[]>('/users', undefined, { signal: controller.signal });
+ * controller.abort(); // rejects with an ApiError where isCancelled is true
+ *
+ * @example
  * // Override token for specific request
  * const data = await apiGet<Data>('/endpoint', undefined, {
  *   headers: { Authorization: 'Bearer custom-token' }
@@ -26,13 +147,15 @@ import { apiClient } from "./client";
 export async function apiGet<T>(
   url: string,
   params?: Record<string, unknown>,
-  config?: AxiosRequestConfig
+  config?: ApiRequestConfig<T>
 ): Promise<T> {
-  const response: AxiosResponse<T> = await apiClient.get(url, {
-    params,
-    ...config,
-  });
-  return response.data;
+  return request(
+    "GET",
+    url,
+    config,
+    (axiosConfig) => apiClient.get<T>(url, { params, ...axiosConfig }),
+    (axiosConfig) => getDedupeKey(url, params, axiosConfig)
+  );
 }
 
 /**
@@ -41,6 +164,7 @@ export async function apiGet<T>(
  * @param url - The endpoint URL
  * @param data - The request body
  * @param config - Optional Axios config (can override token via headers.Authorization)
+ *   and response validation options (`schema`, `stripUnknown`)
  * @returns Promise with the response data
  *
  * @example
@@ -50,10 +174,11 @@ export async function apiGet<T>(
 export async function apiPost<T, D = unknown>(
   url: string,
   data?: D,
-  config?: AxiosRequestConfig
+  config?: ApiRequestConfig<T>
 ): Promise<T> {
-  const response: AxiosResponse<T> = await apiClient.post(url, data, config);
-  return response.data;
+  return request("POST", url, config, (axiosConfig) =>
+    apiClient.post<T>(url, data, axiosConfig)
+  );
 }
 
 /**
@@ -62,6 +187,7 @@ export async function apiPost<T, D = unknown>(
  * @param url - The endpoint URL
  * @param data - The request body
  * @param config - Optional Axios config (can override token via headers.Authorization)
+ *   and response validation options (`schema`, `stripUnknown`)
  * @returns Promise with the response data
  *
  * @example
@@ -71,10 +197,11 @@ export async function apiPost<T, D = unknown>(
 export async function apiPut<T, D = unknown>(
   url: string,
   data?: D,
-  config?: AxiosRequestConfig
+  config?: ApiRequestConfig<T>
 ): Promise<T> {
-  const response: AxiosResponse<T> = await apiClient.put(url, data, config);
-  return response.data;
+  return request("PUT", url, config, (axiosConfig) =>
+    apiClient.put<T>(url, data, axiosConfig)
+  );
 }
 
 /**
@@ -83,6 +210,7 @@ export async function apiPut<T, D = unknown>(
  * @param url - The endpoint URL
  * @param data - The request body
  * @param config - Optional Axios config (can override token via headers.Authorization)
+ *   and response validation options (`schema`, `stripUnknown`)
  * @returns Promise with the response data
  *
  * @example
@@ -92,10 +220,11 @@ export async function apiPut<T, D = unknown>(
 export async function apiPatch<T, D = unknown>(
   url: string,
   data?: D,
-  config?: AxiosRequestConfig
+  config?: ApiRequestConfig<T>
 ): Promise<T> {
-  const response: AxiosResponse<T> = await apiClient.patch(url, data, config);
-  return response.data;
+  return request("PATCH", url, config, (axiosConfig) =>
+    apiClient.patch<T>(url, data, axiosConfig)
+  );
 }
 
 /**
@@ -103,6 +232,7 @@ export async function apiPatch<T, D = unknown>(
  *
  * @param url - The endpoint URL
  * @param config - Optional Axios config (can override token via headers.Authorization)
+ *   and response validation options (`schema`, `stripUnknown`)
  * @returns Promise with the response data
  *
  * @example
@@ -111,8 +241,9 @@ export async function apiPatch<T, D = unknown>(
  */
 export async function apiDelete<T>(
   url: string,
-  config?: AxiosRequestConfig
+  config?: ApiRequestConfig<T>
 ): Promise<T> {
-  const response: AxiosResponse<T> = await apiClient.delete(url, config);
-  return response.data;
+  return request("DELETE", url, config, (axiosConfig) =>
+    apiClient.delete<T>(url, axiosConfig)
+  );
 }
@@ -3,7 +3,76 @@ export {
   getAuthToken,
   setAuthToken,
   removeAuthToken,
+  getRefreshToken,
+  setRefreshToken,
+  removeRefreshToken,
+  refreshAuthToken,
+  getTokenStorage,
+  configureTokenStorage,
 } from "./client";
-export type { ApiError } from "./client";
+export type { ApiRequestMeta } from "./client";
+
+export {
+  ApiError,
+  VALIDATION_ERROR_CODE,
+  isApiError,
+  isValidationError,
+  toApiError,
+} from "./errors";
+export type {
+  ApiErrorBody,
+  ApiErrorOptions,
+  ApiFieldErrors,
+  ValidationErrorBody,
+} from "./errors";
+
+export {
+  createTokenStorage,
+  createMemoryTokenStorage,
+  createSessionTokenStorage,
+  createLocalTokenStorage,
+  createCookieTokenStorage,
+} from "./token-storage";
+export type { TokenStorage, TokenStorageType } from "./token-storage";
+
+export { DEFAULT_RETRY_POLICY, IDEMPOTENCY_KEY_HEADER } from "./retry";
+export type { RetryOption, RetryPolicy } from "./retry";
 
 export { apiGet, apiPost, apiPut, apiPatch, apiDelete } from "./generic-api";
+export type { ApiRequestConfig } from "./generic-api";
+
+export { ResponseValidationError, validateResponse } from "./validation";
+export type { ResponseValidationOptions } from "./validation";
+
+export { createOfflineQueue, offlineQueue, OFFLINE_QUEUE_CONFLICT_EVENT } from "./offline-queue";
+export type {
+  OfflineQueue,
+  OfflineQueueOptions,
+  OfflineQueueSnapshot,
+  QueuedMutation,
+  QueuedMutationInput,
+  QueuedMutationStatus,
+} from "./offline-queue";
+export { createMemoryQueueStorage, createIndexedDbQueueStorage } from "./offline-queue-storage";
+export type { OfflineQueueStorage } from "./offline-queue-storage";
+
+export { createNetworkLog, networkLog, toCurl } from "./network-log";
+export type {
+  NetworkLog,
+  NetworkLogEntry,
+  NetworkLogSnapshot,
+  NetworkLogState,
+} from "./network-log";
+
+export { insertIntoList, replaceById, removeById } from "./optimistic";
+export type { OptimisticUpdate, OptimisticUpdater } from "./optimistic";
+
+export { createResource } from "./resource";
+export type {
+  Resource,
+  ResourceId,
+  CreateResourceOptions,
+  ResourceQueryOptions,
+  ResourceMutationOptions,
+  ResourceUpdateVariables,
+} from "./resource";
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import axios from 'axios'
+import { createNetworkLog, toCurl, type NetworkLogEntry } from './network-log'
+
+const server = setupServer()
+
+function createLoggedClient() {
+  const client = axios.create({ baseURL: '/api' })
+  const log = createNetworkLog()
+  log.attach(client)
+  return { client, log }
+}
+
+describe('network log', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => server.resetHandlers())
+
+  it('records successful requests with their meta and timing', async () => {
+    server.use(http.get('/api/badges', () => HttpResponse.json({ data: [] })))
+    const { client, log } = createLoggedClient()
+
+    await client.get('/badges', { params: { page: 2 }, meta: { disableToast: true } })
+
+    const [entry] = log.getSnapshot().entries
+    expect(entry).toMatchObject({
+      method: 'GET',
+      url: '/api/badges?page=2',
+      params: { page: 2 },
+      meta: { disableToast: true },
+      state: 'success',
+      status: 200,
+      responseBody: { data: [] },
+      mocked: false,
+    })
+    expect(entry.duration).toBeGreaterThanOrEqual(0)
+  })
+
+  it('records failed requests, newest first', async () => {
+    server.use(
+      http.post('/api/badges', () => HttpResponse.json({ message: 'Invalid' }, { status: 422 })),
+      http.get('/api/offline', () => HttpResponse.error())
+    )
+    const { client, log } = createLoggedClient()
+
+    await expect(client.post('/badges', { name: 'x' })).rejects.toThrow()
+    await expect(client.get('/offline')).rejects.toThrow()
+
+    expect(log.getSnapshot().entries).toMatchObject([
+      { method: 'GET', state: 'error', status: 0 },
+      {
+        method: 'POST',
+        state: 'error',
+        status: 422,
+        requestBody: { name: 'x' },
+        responseBody: { message: 'Invalid' },
+      },
+    ])
+  })
+
+  it('flags entries answered by MSW and replays them', async () => {
+    let calls = 0
+    server.use(
+      http.get('/api/badges', () => {
+        calls += 1
+        return HttpResponse.json({ calls })
+      })
+    )
+    const { client, log } = createLoggedClient()
+    await client.get('/badges', { headers: { Authorization: 'Bearer stale' } })
+
+    log.markMocked('get', `${window.location.origin}/api/badges`)
+    const [logged] = log.getSnapshot().entries
+    expect(logged.mocked).toBe(true)
+
+    const response = await log.replay(logged)
+
+    expect(response.data).toEqual({ calls: 2 })
+    const [replayed] = log.getSnapshot().entries
+    expect(replayed.url).toBe('/api/badges')
+    expect(replayed.requestHeaders.Authorization).toBeUndefined()
+  })
+
+  it('redacts credentials in request and response headers', async () => {
+    server.use(
+      http.get('/api/badges', () =>
+        HttpResponse.json([], { headers: { 'Set-Cookie': 'session=secret', 'X-Request-Id': 'abc' } })
+      )
+    )
+    const { client, log } = createLoggedClient()
+    await client.get('/badges', {
+      headers: { Authorization: 'Bearer secret-token', Cookie: 'session=secret', Accept: 'application/json' },
+    })
+
+    const [entry] = log.getSnapshot().entries
+    expect(entry.requestHeaders).toMatchObject({
+      Authorization: 'Bearer [redacted]',
+      Cookie: '[redacted]',
+      Accept: 'application/json',
+    })
+    expect(JSON.stringify(entry)).not.toContain('secret')
+    expect(toCurl(entry)).not.toContain('secret')
+  })
+
+  it('builds a cURL command with quoted headers and body', () => {
+    const entry: NetworkLogEntry = {
+      id: '1',
+      method: 'POST',
+      url: '/api/badges',
+      requestHeaders: { 'Content-Type': 'application/json', authorization: 'Bearer secret-token' },
+      requestBody: { name: "O'Brien" },
+      retryCount: 0,
+      state: 'pending',
+      startedAt: 0,
+      mocked: false,
+    }
+
+    expect(toCurl(entry)).toBe(
+      [
+        `curl -X POST '${window.location.origin}/api/badges'`,
+        `-H 'Content-Type: application/json'`,
+        `-H 'authorization: Bearer [redacted]'`,
+        `--data-raw '{"name":"O'\\''Brien"}'`,
+      ].join(' \\\n  ')
+    )
+  })
+})
@@ -0,0 +1,292 @@
+import {
+  isCancel,
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import type { ApiRequestMeta } from "./client";
+import { IDEMPOTENCY_KEY_HEADER } from "./retry";
+
+/**
+ * Outcome of a logged request.
+ */
+export type NetworkLogState = "pending" | "success" | "error" | "cancelled";
+
+/**
+ * One request attempt sent through the API client. Retries and requests
+ * replayed after a token refresh are logged as separate entries.
+ */
+export interface NetworkLogEntry {
+  id: string;
+  method: string;
+  /** URL as sent, with the base URL and serialized params */
+  url: string;
+  params?: unknown;
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  /** Toast, retry and auth flags the request was sent with */
+  meta?: ApiRequestMeta;
+  /** Retries made before this attempt under the request's retry policy */
+  retryCount: number;
+  state: NetworkLogState;
+  /** Response status; 0 when no response was received */
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: unknown;
+  error?: string;
+  /** Epoch ms when the request was sent */
+  startedAt: number;
+  /** Time to response in ms */
+  duration?: number;
+  /** The response came from an MSW handler instead of the network */
+  mocked: boolean;
+}
+
+/**
+ * Log state for subscribers. Replaced, never mutated, on every change.
+ */
+export interface NetworkLogSnapshot {
+  /** Entries, newest first */
+  entries: readonly NetworkLogEntry[];
+}
+
+declare module "axios" {
+  interface InternalAxiosRequestConfig {
+    /** Id of the network log entry for the current attempt */
+    _logId?: string;
+  }
+}
+
+/**
+ * Credential headers, never stored in the log or copied into a cURL command.
+ */
+const REDACTED_HEADERS = ["authorization", "proxy-authorization", "cookie", "set-cookie"];
+
+/**
+ * Placeholder logged instead of a credential.
+ */
+const REDACTED = "[redacted]";
+
+/**
+ * Headers a replayed request gets afresh from the client (or the browser) instead of the log.
+ */
+const REPLAY_SKIPPED_HEADERS = [...REDACTED_HEADERS, IDEMPOTENCY_KEY_HEADER.toLowerCase()];
+
+/**
+ * Hide the value of a credential header. Authorization keeps its scheme
+ * (`Bearer [redacted]`) so it's clear what to fill in.
+ */
+function redactHeader(name: string, value: string): string {
+  if (!REDACTED_HEADERS.includes(name.toLowerCase())) return value;
+  const scheme = /^(\S+)\s+\S/.exec(value)?.[1];
+  return scheme && name.toLowerCase().endsWith("authorization") ? `${scheme} ${REDACTED}` : REDACTED;
+}
+
+/**
+ * Flatten axios headers into a plain object of strings, with credentials redacted.
+ */
+function toHeaderRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") return record;
+
+  const plain =
+    "toJSON" in headers && typeof headers.toJSON === "function"
+      ? (headers.toJSON() as Record<string, unknown>)
+      : (headers as Record<string, unknown>);
+  for (const [name, value] of Object.entries(plain)) {
+    if (value !== undefined && value !== null && typeof value !== "object") {
+      record[name] = redactHeader(name, String(value));
+    } else if (Array.isArray(value) && REDACTED_HEADERS.includes(name.toLowerCase())) {
+      // Set-Cookie comes as an array of cookies
+      record[name] = REDACTED;
+    }
+  }
+  return record;
+}
+
+/**
+ * Resolve a possibly relative URL against the page origin.
+ */
+function toAbsoluteUrl(url: string): string {
+  return new URL(url, window.location.origin).href;
+}
+
+/**
+ * Create an in-memory log of API requests.
+ *
+ * @param limit - Number of entries kept; older ones are dropped (default: 200)
+ */
+export function createNetworkLog(limit = 200) {
+  let snapshot: NetworkLogSnapshot = { entries: [] };
+  let attachedClient: AxiosInstance | null = null;
+  const listeners = new Set<() => void>();
+
+  const setEntries = (entries: readonly NetworkLogEntry[]) => {
+    snapshot = { entries: entries.slice(0, limit) };
+    listeners.forEach((listener) => listener());
+  };
+
+  const update = (id: string | undefined, changes: Partial<NetworkLogEntry>) => {
+    if (!id) return;
+    setEntries(
+      snapshot.entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+    );
+  };
+
+  const finish = (id: string | undefined, changes: Partial<NetworkLogEntry>) => {
+    const entry = snapshot.entries.find((current) => current.id === id);
+    if (!entry) return;
+    update(id, { ...changes, duration: Date.now() - entry.startedAt });
+  };
+
+  /**
+   * Log every request sent through the client. Attach before the client's own
+   * interceptors so entries show the final request headers and the raw outcome
+   * of each attempt, before retries and token refreshes.
+   *
+   * @returns Function that detaches the interceptors
+   */
+  const attach = (client: AxiosInstance) => {
+    attachedClient = client;
+    // Request interceptors run in reverse order: this one runs last
+    const requestInterceptor = client.interceptors.request.use(
+      (config: InternalAxiosRequestConfig) => {
+        const entry: NetworkLogEntry = {
+          id: crypto.randomUUID(),
+          method: (config.method ?? "get").toUpperCase(),
+          url: client.getUri(config),
+          params: config.params,
+          requestHeaders: toHeaderRecord(config.headers),
+          requestBody: config.data,
+          meta: config.meta,
+          retryCount: config._retryCount ?? 0,
+          state: "pending",
+          startedAt: Date.now(),
+          mocked: false,
+        };
+        config._logId = entry.id;
+        setEntries([entry, ...snapshot.entries]);
+        return config;
+      }
+    );
+
+    // Response interceptors run in order: this one runs first
+    const responseInterceptor = client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        finish(response.config._logId, {
+          state: "success",
+          status: response.status,
+          responseHeaders: toHeaderRecord(response.headers),
+          responseBody: response.data,
+        });
+        return response;
+      },
+      (error: AxiosError) => {
+        finish(error.config?._logId, {
+          state: isCancel(error) ? "cancelled" : "error",
+          status: error.response?.status ?? 0,
+          responseHeaders: toHeaderRecord(error.response?.headers),
+          responseBody: error.response?.data,
+          error: error.message,
+        });
+        return Promise.reject(error);
+      }
+    );
+
+    return () => {
+      attachedClient = null;
+      client.interceptors.request.eject(requestInterceptor);
+      client.interceptors.response.eject(responseInterceptor);
+    };
+  };
+
+  /**
+   * Flag the newest matching entry that isn't flagged yet as answered by MSW.
+   * Called from the worker's `response:mocked` event.
+   */
+  const markMocked = (method: string, url: string) => {
+    const target = toAbsoluteUrl(url);
+    const entry = snapshot.entries.find(
+      (current) =>
+        !current.mocked &&
+        current.method === method.toUpperCase() &&
+        toAbsoluteUrl(current.url) === target
+    );
+    update(entry?.id, { mocked: true });
+  };
+
+  /**
+   * Send a logged request again through the attached client. It gets a fresh
+   * Authorization header and idempotency key and is logged as a new entry.
+   */
+  const replay = (entry: NetworkLogEntry) => {
+    if (!attachedClient) {
+      return Promise.reject(new Error("The network log is not attached to a client"));
+    }
+    const headers = Object.fromEntries(
+      Object.entries(entry.requestHeaders).filter(
+        ([name]) => !REPLAY_SKIPPED_HEADERS.includes(name.toLowerCase())
+      )
+    );
+    // `url` already includes the base URL and params
+    return attachedClient.request({
+      method: entry.method,
+      baseURL: "",
+      url: entry.url,
+      headers,
+      data: entry.requestBody,
+      meta: entry.meta,
+    });
+  };
+
+  return {
+    attach,
+    markMocked,
+    replay,
+    /** Remove every entry */
+    clear: () => setEntries([]),
+    /** Subscribe to snapshot changes; returns the unsubscribe function */
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+}
+
+/**
+ * Log returned by createNetworkLog.
+ */
+export type NetworkLog = ReturnType<typeof createNetworkLog>;
+
+/**
+ * Application network log. The API client attaches it in development only.
+ */
+export const networkLog = createNetworkLog();
+
+/**
+ * Quote a value for a POSIX shell.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build a cURL command that repeats the logged request.
+ * Credential headers are redacted; fill them in before running it.
+ */
+export function toCurl(entry: NetworkLogEntry): string {
+  const parts = [`curl -X ${entry.method} ${shellQuote(toAbsoluteUrl(entry.url))}`];
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push(`-H ${shellQuote(`${name}: ${redactHeader(name, value)}`)}`);
+  }
+  if (entry.requestBody !== undefined && entry.requestBody !== null) {
+    const body =
+      typeof entry.requestBody === "string" ? entry.requestBody : JSON.stringify(entry.requestBody);
+    parts.push(`--data-raw ${shellQuote(body)}`);
+  }
+  return parts.join(" \\\n  ");
+}
@@ -0,0 +1,82 @@
+import type { QueuedMutation } from "./offline-queue";
+
+/**
+ * Abstraction over where queued offline mutations are persisted.
+ * The offline queue only reads and writes items through this, so tests and
+ * environments without IndexedDB can swap in another store.
+ */
+export interface OfflineQueueStorage {
+  /** Read every stored item */
+  getAll: () => Promise<QueuedMutation[]>;
+  /** Insert or replace an item by id */
+  put: (item: QueuedMutation) => Promise<void>;
+  /** Remove an item by id */
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * In-memory queue storage. Items are lost on reload.
+ */
+export function createMemoryQueueStorage(): OfflineQueueStorage {
+  const items = new Map<string, QueuedMutation>();
+
+  return {
+    getAll: async () => [...items.values()],
+    put: async (item) => {
+      items.set(item.id, item);
+    },
+    remove: async (id) => {
+      items.delete(id);
+    },
+  };
+}
+
+/**
+ * Object store holding queued mutations, keyed by id.
+ */
+const STORE_NAME = "mutations";
+
+/**
+ * Wrap an IDBRequest in a promise.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Queue storage backed by IndexedDB, so queued mutations survive reloads
+ * and browser restarts. The database is opened on first use.
+ *
+ * @param databaseName - IndexedDB database name
+ */
+export function createIndexedDbQueueStorage(databaseName = "offline-queue"): OfflineQueueStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    getAll: async () => promisifyRequest((await store("readonly")).getAll()),
+    put: async (item) => {
+      await promisifyRequest((await store("readwrite")).put(item));
+    },
+    remove: async (id) => {
+      await promisifyRequest((await store("readwrite")).delete(id));
+    },
+  };
+}
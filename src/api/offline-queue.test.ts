@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { createOfflineQueue, OFFLINE_QUEUE_CONFLICT_EVENT, type QueuedMutation } from './offline-queue'
+import { createMemoryQueueStorage, type OfflineQueueStorage } from './offline-queue-storage'
+import { IDEMPOTENCY_KEY_HEADER } from './retry'
+
+const server = setupServer()
+
+/** Record every badge write the server receives */
+function recordWrites(respond: (name: string) => Response | undefined = () => undefined) {
+  const received: Array<{ method: string; name: string; key: string | null }> = []
+  server.use(
+    http.all('/api/badges*', async ({ request }) => {
+      const { name } = (await request.json()) as { name: string }
+      received.push({ method: request.method, name, key: request.headers.get(IDEMPOTENCY_KEY_HEADER) })
+      return respond(name) ?? HttpResponse.json({ name })
+    })
+  )
+  return received
+}
+
+describe('offline queue', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => server.resetHandlers())
+
+  it('persists queued mutations across queue instances', async () => {
+    const storage = createMemoryQueueStorage()
+    await createOfflineQueue({ storage }).enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+
+    const reloaded = createOfflineQueue({ storage })
+    await reloaded.load()
+
+    expect(reloaded.getSnapshot().items).toMatchObject([
+      { method: 'POST', url: '/badges', data: { name: 'Gold' }, status: 'pending' },
+    ])
+  })
+
+  it('replays in order with idempotency keys and empties the queue', async () => {
+    const received = recordWrites()
+    const onReplayed = vi.fn()
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage(), onReplayed })
+
+    const first = await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'PUT', url: '/badges/1', data: { name: 'Silver' } })
+    await queue.replay()
+
+    expect(received.map(({ method, name }) => `${method} ${name}`)).toEqual(['POST Gold', 'PUT Silver'])
+    expect(received[0].key).toBe(first.idempotencyKey)
+    expect(queue.getSnapshot()).toEqual({ items: [], isSyncing: false })
+    expect(onReplayed).toHaveBeenCalledTimes(2)
+  })
+
+  it('marks 409 responses as conflicts and holds back later items', async () => {
+    const received = recordWrites((name) =>
+      name === 'Gold'
+        ? HttpResponse.json({ message: 'Badge was changed by someone else' }, { status: 409 })
+        : undefined
+    )
+    const onConflict = vi.fn()
+    const onRejected = vi.fn()
+    window.addEventListener(OFFLINE_QUEUE_CONFLICT_EVENT, onConflict)
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage(), onRejected })
+
+    await queue.enqueue({ method: 'PATCH', url: '/badges/1', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'PATCH', url: '/badges/2', data: { name: 'Silver' } })
+    await queue.replay()
+    window.removeEventListener(OFFLINE_QUEUE_CONFLICT_EVENT, onConflict)
+
+    expect(received).toHaveLength(1)
+    expect(queue.getSnapshot().items).toMatchObject([
+      { url: '/badges/1', status: 'conflict', error: { status: 409, message: 'Badge was changed by someone else' } },
+      { url: '/badges/2', status: 'pending' },
+    ])
+    const { item } = (onConflict.mock.calls[0][0] as CustomEvent<{ item: QueuedMutation }>).detail
+    expect(item.url).toBe('/badges/1')
+    expect(onRejected).toHaveBeenCalledWith(item)
+  })
+
+  it('stops at a network error and keeps the remaining items pending', async () => {
+    const received = recordWrites((name) => (name === 'Gold' ? HttpResponse.error() : undefined))
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage() })
+
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Silver' } })
+    await queue.replay()
+
+    expect(received).toHaveLength(1)
+    expect(queue.getSnapshot().items.map(({ status }) => status)).toEqual(['pending', 'pending'])
+  })
+
+  it('keeps items pending on a server error and retries them with backoff', async () => {
+    let outage = true
+    const received = recordWrites(() =>
+      outage ? HttpResponse.json({ message: 'Unavailable' }, { status: 503 }) : undefined
+    )
+    const retryDelay = vi.fn(() => 10)
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage(), retryDelay })
+    const stop = queue.start()
+
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Silver' } })
+    await queue.replay()
+    expect(queue.getSnapshot().items.map(({ status }) => status)).toEqual(['pending', 'pending'])
+
+    outage = false
+    await vi.waitFor(() => expect(queue.getSnapshot().items).toEqual([]))
+    stop()
+
+    expect(received.map(({ name }) => name)).toEqual(['Gold', 'Gold', 'Silver'])
+    expect(retryDelay).toHaveBeenLastCalledWith(2)
+  })
+
+  it('replays an item queued while online without waiting for an online event', async () => {
+    const received = recordWrites()
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage(), retryDelay: () => 10 })
+    const stop = queue.start()
+
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+
+    await vi.waitFor(() => expect(queue.getSnapshot().items).toEqual([]))
+    stop()
+    expect(received.map(({ name }) => name)).toEqual(['Gold'])
+  })
+
+  it('retries rejected items before the ones queued after them', async () => {
+    let fail = true
+    const received = recordWrites((name) =>
+      fail && name === 'Gold' ? HttpResponse.json({ message: 'Nope' }, { status: 400 }) : undefined
+    )
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage() })
+
+    const failing = await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Silver' } })
+    await queue.replay()
+    expect(queue.getSnapshot().items.map(({ status }) => status)).toEqual(['failed', 'pending'])
+
+    fail = false
+    await queue.retry(failing.id)
+
+    expect(received.map(({ name }) => name)).toEqual(['Gold', 'Gold', 'Silver'])
+    expect(queue.getSnapshot().items).toEqual([])
+  })
+
+  it('replays later items once the blocking one is discarded', async () => {
+    const received = recordWrites((name) =>
+      name === 'Gold' ? HttpResponse.json({ message: 'Nope' }, { status: 400 }) : undefined
+    )
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage() })
+
+    const discarded = await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Bronze' } })
+    await queue.replay()
+    await queue.discard(discarded.id)
+    await queue.replay()
+
+    expect(received.map(({ name }) => name)).toEqual(['Gold', 'Bronze'])
+    expect(queue.getSnapshot().items).toEqual([])
+  })
+
+  it('falls back to memory when the storage cannot be opened', async () => {
+    const blocked: OfflineQueueStorage = {
+      getAll: () => Promise.reject(new DOMException('Blocked', 'UnknownError')),
+      put: () => Promise.reject(new DOMException('Blocked', 'UnknownError')),
+      remove: () => Promise.reject(new DOMException('Blocked', 'UnknownError')),
+    }
+    const received = recordWrites()
+    const queue = createOfflineQueue({ storage: blocked })
+
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    expect(queue.getSnapshot().items).toHaveLength(1)
+
+    await queue.replay()
+    expect(received).toHaveLength(1)
+    expect(queue.getSnapshot().items).toEqual([])
+  })
+
+  it('keeps items to the user who queued them', async () => {
+    const received = recordWrites()
+    const storage = createMemoryQueueStorage()
+    const queue = createOfflineQueue({ storage })
+
+    await queue.setUser('user-1')
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+    expect(queue.getSnapshot().items[0].userId).toBe('user-1')
+
+    // Another tab (or an earlier visit) left user-2's items behind
+    const reloaded = createOfflineQueue({ storage })
+    await reloaded.replay()
+    expect(received).toHaveLength(0)
+
+    await reloaded.setUser('user-2')
+    expect(reloaded.getSnapshot().items).toEqual([])
+    expect(await storage.getAll()).toEqual([])
+    expect(received).toHaveLength(0)
+  })
+
+  it('keeps the queue through a logout and replays it when the user is back online', async () => {
+    const received = recordWrites()
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage() })
+    const stop = queue.start()
+    await queue.setUser('user-1')
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+
+    // The token expires while offline
+    await queue.setUser(null)
+    expect(queue.getSnapshot().items).toHaveLength(1)
+
+    onLine.mockReturnValue(true)
+    window.dispatchEvent(new Event('online'))
+    await queue.replay()
+    expect(received).toHaveLength(0)
+
+    await queue.setUser('user-1')
+    stop()
+    onLine.mockRestore()
+
+    expect(received.map(({ name }) => name)).toEqual(['Gold'])
+    expect(queue.getSnapshot().items).toEqual([])
+  })
+
+  it('drops the queue when another user signs in after a logout', async () => {
+    const received = recordWrites()
+    const queue = createOfflineQueue({ storage: createMemoryQueueStorage() })
+    await queue.setUser('user-1')
+    await queue.enqueue({ method: 'POST', url: '/badges', data: { name: 'Gold' } })
+
+    await queue.setUser(null)
+    await queue.setUser('user-2')
+
+    expect(queue.getSnapshot().items).toEqual([])
+    expect(received).toHaveLength(0)
+  })
+})
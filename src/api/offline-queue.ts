@@ -0,0 +1,368 @@
+import type { QueryKey } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { apiClient } from "./client";
+import { toApiError } from "./errors";
+import {
+  createIndexedDbQueueStorage,
+  createMemoryQueueStorage,
+  type OfflineQueueStorage,
+} from "./offline-queue-storage";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, IDEMPOTENCY_KEY_HEADER } from "./retry";
+
+/**
+ * Replay state of a queued mutation.
+ * - `pending` - waiting to be sent
+ * - `conflict` - the server answered 409; needs the user to retry or discard it
+ * - `failed` - the server rejected it for another reason
+ */
+export type QueuedMutationStatus = "pending" | "conflict" | "failed";
+
+/**
+ * A mutation saved while offline, replayed once the connection is back.
+ */
+export interface QueuedMutation {
+  id: string;
+  method: "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  data?: unknown;
+  /** Sent on every replay so the server can drop duplicates */
+  idempotencyKey: string;
+  /** Query keys to invalidate once the mutation has been replayed */
+  invalidateKeys?: QueryKey[];
+  /** Queries patched optimistically when the mutation was queued; refetched once it is replayed or rejected */
+  optimisticKeys?: QueryKey[];
+  /** User who queued the mutation; absent when nobody was signed in */
+  userId?: string;
+  createdAt: number;
+  status: QueuedMutationStatus;
+  /** Last server rejection, for conflict and failed items */
+  error?: { message: string; status: number; code?: string };
+}
+
+/**
+ * Mutation to add to the queue.
+ */
+export type QueuedMutationInput = Pick<
+  QueuedMutation,
+  "method" | "url" | "data" | "invalidateKeys" | "optimisticKeys"
+>;
+
+/**
+ * Queue state for subscribers. Replaced, never mutated, on every change.
+ */
+export interface OfflineQueueSnapshot {
+  /** Queued items in replay order */
+  items: readonly QueuedMutation[];
+  /** A replay is running */
+  isSyncing: boolean;
+}
+
+/**
+ * Window event dispatched when a replayed mutation gets a 409.
+ * `event.detail.item` is the conflicting QueuedMutation.
+ */
+export const OFFLINE_QUEUE_CONFLICT_EVENT = "offline-queue:conflict";
+
+/**
+ * Options for createOfflineQueue.
+ */
+export interface OfflineQueueOptions {
+  /** Where items are persisted */
+  storage: OfflineQueueStorage;
+  /** Send a queued mutation (default: through apiClient, with the idempotency key and without toasts) */
+  send?: (item: QueuedMutation) => Promise<unknown>;
+  /** Called after an item has been replayed successfully */
+  onReplayed?: (item: QueuedMutation) => void;
+  /** Called when the server rejects an item, marking it as a conflict or failed */
+  onRejected?: (item: QueuedMutation) => void;
+  /** Delay in ms before the next replay after the given number of transient failures in a row */
+  retryDelay?: (failures: number) => number;
+}
+
+// Replays keep retrying transient failures, so let the backoff grow further
+// than a single request's
+const REPLAY_RETRY_POLICY = { ...DEFAULT_RETRY_POLICY, maxDelay: 60_000 };
+
+/**
+ * Backoff between replays: exponential with jitter, up to a minute.
+ */
+function getReplayRetryDelay(failures: number) {
+  return getRetryDelay(failures, REPLAY_RETRY_POLICY);
+}
+
+/**
+ * Send a queued mutation through the API client.
+ */
+function sendQueuedMutation(item: QueuedMutation) {
+  return apiClient.request({
+    method: item.method,
+    url: item.url,
+    data: item.data,
+    headers: { [IDEMPOTENCY_KEY_HEADER]: item.idempotencyKey },
+    meta: { disableToast: true },
+  });
+}
+
+/**
+ * Create a persistent queue of mutations made while offline.
+ *
+ * Items are replayed one at a time in the order they were queued. A transient
+ * failure (network error, timeout, 408/425/429/5xx) stops the replay and keeps
+ * the remaining items pending for the next one; a 409 marks the item as a
+ * conflict and dispatches OFFLINE_QUEUE_CONFLICT_EVENT; any other rejection
+ * marks it as failed. A conflict or failed item blocks the items queued after
+ * it until it is retried or discarded, so the server always receives them in
+ * order. Once `start()` has been called, replay runs on the browser's `online`
+ * event, shortly after an item is queued while online (the request got no
+ * response), and again with backoff after a transient failure.
+ *
+ * Items belong to the user who queued them: signing in as someone else drops
+ * them, signing out keeps them for the user's next login, and only the current
+ * user's (or those queued while signed out) are replayed. If the storage can't
+ * be read (e.g. IndexedDB is blocked), the queue falls back to memory.
+ */
+export function createOfflineQueue({
+  storage,
+  send = sendQueuedMutation,
+  onReplayed,
+  onRejected,
+  retryDelay = getReplayRetryDelay,
+}: OfflineQueueOptions) {
+  let snapshot: OfflineQueueSnapshot = { items: [], isSyncing: false };
+  let loading: Promise<void> | null = null;
+  let replaying: Promise<void> | null = null;
+  let isStarted = false;
+  // Replaced by memory storage when the given one can't be read
+  let activeStorage = storage;
+  // Signed-in user; null until setUser is called or while signed out
+  let userId: string | null = null;
+  // Transient replay failures in a row, and the timer of the next attempt
+  let failures = 0;
+  let retryTimer: number | undefined;
+  const listeners = new Set<() => void>();
+
+  const setSnapshot = (next: Partial<OfflineQueueSnapshot>) => {
+    snapshot = { ...snapshot, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  const saveItem = async (item: QueuedMutation) => {
+    await activeStorage.put(item);
+    const exists = snapshot.items.some(({ id }) => id === item.id);
+    setSnapshot({
+      items: exists
+        ? snapshot.items.map((current) => (current.id === item.id ? item : current))
+        : [...snapshot.items, item],
+    });
+  };
+
+  const removeItem = async (id: string) => {
+    await activeStorage.remove(id);
+    setSnapshot({ items: snapshot.items.filter((item) => item.id !== id) });
+  };
+
+  /** Read persisted items into memory. Safe to call repeatedly. */
+  const load = () => {
+    loading ??= activeStorage
+      .getAll()
+      .catch(() => {
+        // Storage unavailable - keep queueing for this page load only
+        activeStorage = createMemoryQueueStorage();
+        return [];
+      })
+      .then((items) => {
+        setSnapshot({ items: [...items].sort((a, b) => a.createdAt - b.createdAt) });
+      });
+    return loading;
+  };
+
+  /** Replay again after a backoff delay; only once started, and one timer at a time */
+  const scheduleReplay = () => {
+    if (!isStarted || retryTimer !== undefined) return;
+    retryTimer = window.setTimeout(() => {
+      retryTimer = undefined;
+      // Offline, the `online` event takes over
+      if (navigator.onLine) void replay();
+    }, retryDelay(failures + 1));
+  };
+
+  // Items queued while signed out are sent in any session
+  const isOwnItem = (item: QueuedMutation) =>
+    item.userId === undefined || item.userId === userId;
+
+  /** Add a mutation to the queue */
+  const enqueue = async (input: QueuedMutationInput): Promise<QueuedMutation> => {
+    await load();
+    const item: QueuedMutation = {
+      ...input,
+      id: crypto.randomUUID(),
+      idempotencyKey: crypto.randomUUID(),
+      ...(userId !== null && { userId }),
+      createdAt: Date.now(),
+      status: "pending",
+    };
+    await saveItem(item);
+    // Queued although online: the request got no response, so try again soon
+    if (navigator.onLine) scheduleReplay();
+    return item;
+  };
+
+  const replayPending = async () => {
+    for (const item of snapshot.items.filter(isOwnItem)) {
+      // A rejected item holds back everything queued after it
+      if (item.status !== "pending") return;
+
+      try {
+        await send(item);
+        failures = 0;
+        await removeItem(item.id);
+        onReplayed?.(item);
+      } catch (rejection) {
+        const error = toApiError(rejection);
+        // Aborted (e.g. the page is unloading) - leave everything for the next replay
+        if (error.isCancelled) return;
+        // Still offline or the server is struggling - keep this and every later
+        // item pending and try again after a backoff
+        if (
+          error.isNetworkError ||
+          error.isTimeout ||
+          DEFAULT_RETRY_POLICY.retryOn.includes(error.status)
+        ) {
+          failures += 1;
+          scheduleReplay();
+          return;
+        }
+
+        const failed: QueuedMutation = {
+          ...item,
+          status: error.status === 409 ? "conflict" : "failed",
+          error: { message: error.message, status: error.status, code: error.code },
+        };
+        await saveItem(failed);
+        onRejected?.(failed);
+
+        if (failed.status === "conflict") {
+          window.dispatchEvent(
+            new CustomEvent(OFFLINE_QUEUE_CONFLICT_EVENT, { detail: { item: failed } })
+          );
+        }
+        return;
+      }
+    }
+  };
+
+  /** Replay the current user's pending items in order. Concurrent calls share the running replay. */
+  const replay = () => {
+    window.clearTimeout(retryTimer);
+    retryTimer = undefined;
+    replaying ??= (async () => {
+      await load();
+      setSnapshot({ isSyncing: true });
+      try {
+        await replayPending();
+      } finally {
+        replaying = null;
+        setSnapshot({ isSyncing: false });
+      }
+    })();
+    return replaying;
+  };
+
+  /** Mark a conflict or failed item as pending again and replay from it */
+  const retry = async (id: string) => {
+    const item = snapshot.items.find((current) => current.id === id);
+    if (!item) return;
+    await saveItem({ ...item, status: "pending", error: undefined });
+    await replay();
+  };
+
+  /**
+   * Set the signed-in user (null once signed out). A login drops the items
+   * queued by anyone else, so they are never sent in the wrong session; a
+   * logout keeps them (e.g. when the session expired offline) until the same
+   * user signs in again. Once started, the user's items are replayed when online.
+   */
+  const setUser = async (id: string | null) => {
+    userId = id;
+    await load();
+    if (id !== null) {
+      await Promise.all(
+        snapshot.items
+          .filter((item) => item.userId !== undefined && item.userId !== id)
+          .map((item) => removeItem(item.id))
+      );
+    }
+    if (isStarted && navigator.onLine) await replay();
+  };
+
+  /**
+   * Load persisted items and replay whenever the browser comes back online.
+   *
+   * @returns Function that stops listening for the `online` event
+   */
+  const start = () => {
+    const handleOnline = () => {
+      void replay();
+    };
+    isStarted = true;
+    window.addEventListener("online", handleOnline);
+    void load().then(() => {
+      if (navigator.onLine) return replay();
+    });
+    return () => {
+      isStarted = false;
+      window.removeEventListener("online", handleOnline);
+      window.clearTimeout(retryTimer);
+      retryTimer = undefined;
+    };
+  };
+
+  return {
+    load,
+    enqueue,
+    replay,
+    retry,
+    /** Drop an item without sending it */
+    discard: removeItem,
+    setUser,
+    start,
+    /** Subscribe to snapshot changes; returns the unsubscribe function */
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+}
+
+/**
+ * Queue returned by createOfflineQueue.
+ */
+export type OfflineQueue = ReturnType<typeof createOfflineQueue>;
+
+/**
+ * Refetch queries in the shared QueryClient.
+ */
+function invalidateQueries(queryKeys: QueryKey[] = []) {
+  queryKeys.forEach((queryKey) => {
+    queryClient.invalidateQueries({ queryKey });
+  });
+}
+
+/**
+ * Application offline queue, persisted to IndexedDB.
+ * Replayed mutations invalidate their queries in the shared QueryClient, and
+ * optimistically patched queries are refetched once the server has replied,
+ * which drops the optimistic value of a rejected mutation.
+ */
+export const offlineQueue = createOfflineQueue({
+  storage:
+    typeof indexedDB === "undefined" ? createMemoryQueueStorage() : createIndexedDbQueueStorage(),
+  onReplayed: (item) => {
+    invalidateQueries(item.invalidateKeys);
+    invalidateQueries(item.optimisticKeys);
+  },
+  onRejected: (item) => invalidateQueries(item.optimisticKeys),
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import {
+  applyOptimisticUpdates,
+  insertIntoList,
+  removeById,
+  replaceById,
+  rollbackOptimisticUpdates,
+} from './optimistic'
+
+interface Badge {
+  id: string
+  name: string
+}
+
+type Variables = { urlParams?: string; data?: Partial<Badge> }
+
+const page = {
+  data: [
+    { id: '1', name: 'Gold' },
+    { id: '2', name: 'Silver' },
+  ],
+  meta: { total: 12, page: 1, limit: 10, totalPages: 2 },
+}
+
+describe('optimistic updaters', () => {
+  it('inserts into paginated responses and plain arrays', () => {
+    const insert = insertIntoList<Variables>(({ data }) => ({ id: 'temp', ...data }))
+
+    expect(insert(page, { data: { name: 'Bronze' } })).toEqual({
+      data: [{ id: 'temp', name: 'Bronze' }, ...page.data],
+      meta: { ...page.meta, total: 13 },
+    })
+    expect(
+      insertIntoList<Variables>(({ data }) => data, { position: 'end' })(page.data, {
+        data: { id: '3', name: 'Bronze' },
+      })
+    ).toEqual([...page.data, { id: '3', name: 'Bronze' }])
+  })
+
+  it('merges changes by id into lists and detail objects', () => {
+    const replace = replaceById<Variables>(({ urlParams = '', data }) => ({
+      id: urlParams.slice(1),
+      ...data,
+    }))
+    const variables = { urlParams: '/2', data: { name: 'Platinum' } }
+
+    expect(replace(page, variables)).toEqual({
+      data: [page.data[0], { id: '2', name: 'Platinum' }],
+      meta: page.meta,
+    })
+    expect(replace(page.data[1], variables)).toEqual({ id: '2', name: 'Platinum' })
+    expect(replace(page.data[0], variables)).toBe(page.data[0])
+  })
+
+  it('removes by id and decrements the total', () => {
+    const remove = removeById<Variables>(({ urlParams = '' }) => urlParams.slice(1))
+
+    expect(remove(page, { urlParams: '/1' })).toEqual({
+      data: [page.data[1]],
+      meta: { ...page.meta, total: 11 },
+    })
+    expect(remove(page, { urlParams: '/9' })).toEqual(page)
+  })
+
+  it('updates the pages of infinite queries', () => {
+    const infinite = { pages: [page, { data: [{ id: '3', name: 'Bronze' }] }], pageParams: [1, 2] }
+
+    expect(removeById<Variables>(() => '3')(infinite, {})).toEqual({
+      pages: [page, { data: [] }],
+      pageParams: [1, 2],
+    })
+    expect(
+      insertIntoList<Variables>(({ data }) => data, { position: 'end' })(infinite, {
+        data: { id: '4', name: 'Iron' },
+      })
+    ).toEqual({
+      pages: [page, { data: [{ id: '3', name: 'Bronze' }, { id: '4', name: 'Iron' }] }],
+      pageParams: [1, 2],
+    })
+  })
+
+  it('patches every matching cached query and restores them on rollback', async () => {
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(['badges', { page: 1 }], page)
+    queryClient.setQueryData(['badges', { page: 2 }], { data: [], meta: { total: 12 } })
+    queryClient.setQueryData(['users'], [{ id: '1', name: 'Ada' }])
+
+    const snapshot = await applyOptimisticUpdates(
+      queryClient,
+      [{ queryKey: ['badges'], update: removeById<Variables>(() => '1') }],
+      {}
+    )
+
+    expect(queryClient.getQueryData(['badges', { page: 1 }])).toMatchObject({
+      data: [page.data[1]],
+      meta: { total: 11 },
+    })
+    expect(queryClient.getQueryData(['badges', { page: 2 }])).toMatchObject({ meta: { total: 12 } })
+    expect(queryClient.getQueryData(['users'])).toEqual([{ id: '1', name: 'Ada' }])
+
+    rollbackOptimisticUpdates(queryClient, snapshot)
+    expect(queryClient.getQueryData(['badges', { page: 1 }])).toEqual(page)
+  })
+})
@@ -0,0 +1,200 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+
+/**
+ * Patch applied to the cached data of matching queries before a mutation is sent.
+ * Receives the current cached value (never `undefined`) and the mutation variables,
+ * and returns the new value. Must not mutate `current`.
+ */
+export type OptimisticUpdater<V> = (current: unknown, variables: V) => unknown;
+
+/**
+ * Describes how a mutation patches one set of cached queries.
+ */
+export interface OptimisticUpdate<V, TData = unknown> {
+  /** Queries to patch, matched by prefix like `invalidateQueries` */
+  queryKey: QueryKey;
+  /** Return the patched cache value */
+  update(current: TData, variables: V): TData;
+}
+
+/**
+ * Cached values replaced by an optimistic update, restored on rollback.
+ */
+export type OptimisticSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Paginated list response, e.g. `/api/badges`.
+ */
+interface PaginatedList<T> {
+  data: T[];
+  meta?: { total?: number };
+}
+
+/**
+ * Cached value of an infinite query (useInfiniteFetch).
+ */
+interface InfinitePages {
+  pages: unknown[];
+  pageParams: unknown[];
+}
+
+type Identifiable = { id: string | number };
+
+function isPaginatedList(value: unknown): value is PaginatedList<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as { data?: unknown }).data)
+  );
+}
+
+function isInfinitePages(value: unknown): value is InfinitePages {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as { pages?: unknown }).pages) &&
+    Array.isArray((value as { pageParams?: unknown }).pageParams)
+  );
+}
+
+function hasId(value: unknown, id: Identifiable["id"]): boolean {
+  return typeof value === "object" && value !== null && (value as Identifiable).id === id;
+}
+
+/**
+ * Apply a change to a plain array or to the `data` of a paginated response,
+ * adjusting `meta.total` by the change in length. Infinite queries get the change
+ * on every page, or only on the page at `pageIndex` when given (negative counts
+ * from the end). Other values are returned as is.
+ */
+function updateList(
+  current: unknown,
+  change: (items: unknown[]) => unknown[],
+  pageIndex?: number
+): unknown {
+  if (isInfinitePages(current)) {
+    const target =
+      pageIndex !== undefined && pageIndex < 0 ? current.pages.length + pageIndex : pageIndex;
+    return {
+      ...current,
+      pages: current.pages.map((page, index) =>
+        target === undefined || index === target ? updateList(page, change) : page
+      ),
+    };
+  }
+  if (Array.isArray(current)) return change(current);
+  if (!isPaginatedList(current)) return current;
+
+  const data = change(current.data);
+  const total = current.meta?.total;
+  return {
+    ...current,
+    data,
+    meta:
+      typeof total === "number"
+        ? { ...current.meta, total: Math.max(0, total + data.length - current.data.length) }
+        : current.meta,
+  };
+}
+
+/**
+ * Add the item built from the variables to cached lists.
+ * In infinite queries the item goes to the first or last loaded page.
+ *
+ * @param getItem - Build the new item from the mutation variables
+ * @param options.position - Insert at the `start` (default) or `end` of the list
+ *
+ * @example
+ * optimistic: {
+ *   queryKey: ['badges'],
+ *   update: insertIntoList(({ data }) => ({ id: 'temp', status: 'pending', ...data })),
+ * }
+ */
+export function insertIntoList<V>(
+  getItem: (variables: V) => unknown,
+  { position = "start" }: { position?: "start" | "end" } = {}
+): OptimisticUpdater<V> {
+  return (current, variables) => {
+    const item = getItem(variables);
+    return updateList(
+      current,
+      (items) => (position === "start" ? [item, ...items] : [...items, item]),
+      position === "start" ? 0 : -1
+    );
+  };
+}
+
+/**
+ * Merge the item built from the variables into the cached entry with the same id,
+ * in lists as well as in a cached detail object.
+ *
+ * @param getItem - Build the changed fields, including `id`, from the mutation variables
+ *
+ * @example
+ * optimistic: {
+ *   queryKey: ['badges'],
+ *   update: replaceById(({ urlParams = '', data }) => ({ id: urlParams.slice(1), ...data })),
+ * }
+ */
+export function replaceById<V>(getItem: (variables: V) => Identifiable): OptimisticUpdater<V> {
+  return (current, variables) => {
+    const item = getItem(variables);
+    const merge = (entry: unknown) =>
+      hasId(entry, item.id) ? { ...(entry as object), ...item } : entry;
+
+    if (hasId(current, item.id)) return merge(current);
+    return updateList(current, (items) => items.map(merge));
+  };
+}
+
+/**
+ * Remove the entry with the id taken from the variables from cached lists.
+ *
+ * @param getId - Read the id of the removed item from the mutation variables
+ *
+ * @example
+ * optimistic: {
+ *   queryKey: ['badges'],
+ *   update: removeById(({ urlParams = '' }) => urlParams.slice(1)),
+ * }
+ */
+export function removeById<V>(getId: (variables: V) => Identifiable["id"]): OptimisticUpdater<V> {
+  return (current, variables) => {
+    const id = getId(variables);
+    return updateList(current, (items) => items.filter((entry) => !hasId(entry, id)));
+  };
+}
+
+/**
+ * Cancel in-flight fetches of the patched queries, so they can't overwrite the
+ * optimistic value, then patch every cached query and return the previous values.
+ */
+export async function applyOptimisticUpdates<V>(
+  queryClient: QueryClient,
+  updates: OptimisticUpdate<V>[],
+  variables: V
+): Promise<OptimisticSnapshot> {
+  await Promise.all(updates.map(({ queryKey }) => queryClient.cancelQueries({ queryKey })));
+
+  const snapshot: OptimisticSnapshot = [];
+  for (const { queryKey, update } of updates) {
+    snapshot.push(...queryClient.getQueriesData({ queryKey }));
+    queryClient.setQueriesData({ queryKey }, (current: unknown) =>
+      current === undefined ? current : update(current, variables)
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Restore the cached values saved by applyOptimisticUpdates.
+ */
+export function rollbackOptimisticUpdates(
+  queryClient: QueryClient,
+  snapshot: OptimisticSnapshot
+): void {
+  // Restore in reverse so a query patched by several updates ends up with its oldest value
+  for (const [queryKey, data] of [...snapshot].reverse()) {
+    queryClient.setQueryData(queryKey, data);
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { createResource } from './resource'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+interface Badge {
+  id: string
+  name: string
+}
+
+const badges = createResource<Badge, Omit<Badge, 'id'>, Omit<Badge, 'id'>, { page?: number }>(
+  '/badges'
+)
+
+const server = setupServer()
+
+function createWrapper(queryClient: QueryClient) {
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+describe('createResource', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.clearAllMocks()
+  })
+
+  it('builds list and detail query keys', () => {
+    expect(badges.keys.all).toEqual(['badges'])
+    expect(badges.keys.list({ page: 2 })).toEqual(['badges', 'list', { page: 2 }])
+    expect(badges.keys.detail('42')).toEqual(['badges', 'detail', '42'])
+  })
+
+  it('sends requests to the collection and entity URLs', async () => {
+    server.use(
+      http.get('/api/badges', ({ request }) =>
+        HttpResponse.json([{ id: new URL(request.url).searchParams.get('page'), name: 'Gold' }])
+      ),
+      http.get('/api/badges/:id', ({ params }) => HttpResponse.json({ id: params.id, name: 'Gold' })),
+      http.patch('/api/badges/:id', async ({ params, request }) =>
+        HttpResponse.json({ id: params.id, ...((await request.json()) as object) })
+      ),
+      http.delete('/api/badges/:id', () => new HttpResponse(null, { status: 204 }))
+    )
+
+    expect(await badges.list({ page: 3 })).toEqual([{ id: '3', name: 'Gold' }])
+    expect(await badges.get('a b')).toEqual({ id: 'a b', name: 'Gold' })
+    expect(await badges.patch('7', { name: 'Silver' })).toEqual({ id: '7', name: 'Silver' })
+    await expect(badges.remove('7')).resolves.toBeFalsy()
+  })
+
+  it('fetches lists with useList', async () => {
+    server.use(http.get('/api/badges', () => HttpResponse.json([{ id: '1', name: 'Gold' }])))
+    const queryClient = new QueryClient()
+
+    const { result } = renderHook(() => badges.useList({ page: 1 }), {
+      wrapper: createWrapper(queryClient),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(queryClient.getQueryData(['badges', 'list', { page: 1 }])).toEqual([
+      { id: '1', name: 'Gold' },
+    ])
+  })
+
+  it('does not fetch details without an id', () => {
+    const { result } = renderHook(() => badges.useDetail(undefined), {
+      wrapper: createWrapper(new QueryClient()),
+    })
+
+    expect(result.current.fetchStatus).toBe('idle')
+  })
+
+  it('caches the updated entity and invalidates lists after useUpdate', async () => {
+    server.use(
+      http.put('/api/badges/:id', async ({ params, request }) =>
+        HttpResponse.json({ id: params.id, ...((await request.json()) as object) })
+      )
+    )
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(badges.keys.list(), [{ id: '1', name: 'Gold' }])
+
+    const { result } = renderHook(() => badges.useUpdate({ disableToast: true }), {
+      wrapper: createWrapper(queryClient),
+    })
+    result.current.mutate({ id: '1', data: { name: 'Platinum' } })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(queryClient.getQueryData(badges.keys.detail('1'))).toEqual({ id: '1', name: 'Platinum' })
+    expect(queryClient.getQueryState(badges.keys.list())?.isInvalidated).toBe(true)
+  })
+
+  it('drops the detail query after useRemove', async () => {
+    server.use(http.delete('/api/badges/:id', () => new HttpResponse(null, { status: 204 })))
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(badges.keys.detail('1'), { id: '1', name: 'Gold' })
+
+    const { result } = renderHook(() => badges.useRemove({ disableToast: true }), {
+      wrapper: createWrapper(queryClient),
+    })
+    result.current.mutate('1')
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(queryClient.getQueryData(badges.keys.detail('1'))).toBeUndefined()
+  })
+
+  it('keeps toast settings from axiosConfig.meta unless overridden', async () => {
+    server.use(
+      http.post('/api/badges', async ({ request }) =>
+        HttpResponse.json({ id: '1', ...((await request.json()) as object) })
+      )
+    )
+    const { result } = renderHook(
+      () =>
+        badges.useCreate({
+          axiosConfig: { meta: { successToast: true, successMessage: 'Badge saved' } },
+        }),
+      { wrapper: createWrapper(new QueryClient()) }
+    )
+    result.current.mutate({ name: 'Gold' })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(toast.success).toHaveBeenCalledWith('Badge saved')
+  })
+})
@@ -0,0 +1,285 @@
+import {
+  queryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type UseMutationOptions,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import type { AxiosRequestConfig } from "axios";
+import type { ZodType } from "zod";
+import type { ApiRequestMeta } from "./client";
+import type { ApiError } from "./errors";
+import {
+  apiGet,
+  apiPost,
+  apiPut,
+  apiPatch,
+  apiDelete,
+  type ApiRequestConfig,
+} from "./generic-api";
+
+/**
+ * Identifier of a single resource entity.
+ */
+export type ResourceId = string | number;
+
+/**
+ * Options for createResource.
+ */
+export interface CreateResourceOptions<TEntity = unknown, TListResponse = unknown> {
+  /** Root of the query keys (default: the path without its leading slash, e.g. "badges") */
+  key?: string;
+  /** Schema for single-entity responses (get/create/update/patch) */
+  schema?: ZodType<TEntity>;
+  /** Schema for list responses */
+  listSchema?: ZodType<TListResponse>;
+  /** Return the parsed schema output instead of the raw body (see ResponseValidationOptions) */
+  stripUnknown?: boolean;
+}
+
+/**
+ * Options for the resource query hooks.
+ */
+export type ResourceQueryOptions<T> = Omit<UseQueryOptions<T, ApiError>, "queryKey" | "queryFn">;
+
+/**
+ * Options for the resource mutation hooks.
+ */
+export interface ResourceMutationOptions<T, V>
+  extends Omit<UseMutationOptions<T, ApiError, V>, "mutationFn"> {
+  /** Axios config for custom headers or token override */
+  axiosConfig?: AxiosRequestConfig;
+  /** Disable automatic toast notifications for this mutation */
+  disableToast?: boolean;
+  /** Show success toast on successful mutation */
+  successToast?: boolean;
+  /** Custom success message for toast */
+  successMessage?: string;
+}
+
+/**
+ * Variables for update and patch mutations.
+ */
+export interface ResourceUpdateVariables<D> {
+  id: ResourceId;
+  data: D;
+}
+
+/**
+ * Split mutation hook options into useMutation options and an axios config carrying the toast meta.
+ */
+function splitMutationOptions<T, V>(options: ResourceMutationOptions<T, V> = {}) {
+  const { axiosConfig, disableToast, successToast, successMessage, ...mutationOptions } = options;
+  // Only options that were given override the toast settings in axiosConfig.meta
+  const meta: ApiRequestMeta = {
+    ...axiosConfig?.meta,
+    ...(disableToast !== undefined && { disableToast }),
+    ...(successToast !== undefined && { successToast }),
+    ...(successMessage !== undefined && { successMessage }),
+  };
+  return { config: { ...axiosConfig, meta }, mutationOptions };
+}
+
+/**
+ * Create a typed REST client for a collection endpoint, with matching React Query hooks.
+ *
+ * Query keys follow one scheme so invalidation is predictable:
+ * - `[key]` - everything for the resource
+ * - `[key, "list", params]` - a list query
+ * - `[key, "detail", id]` - a single entity
+ *
+ * Mutation hooks keep the cache in sync: create/update/patch/remove invalidate
+ * every list, update/patch write the returned entity to its detail query,
+ * and remove drops the detail query.
+ *
+ * @param path - Collection endpoint, e.g. "/badges"
+ * @param options - Resource options
+ * @returns Request functions, query keys, query options and hooks
+ *
+ * @example
+ * const badges = createResource<Badge, CreateBadgeDto, UpdateBadgeDto, BadgeListParams, Paginated<Badge>>(
+ *   "/badges"
+ * );
+ *
+ * // Plain requests
+ * const badge = await badges.get("42");          // GET /badges/42
+ * await badges.patch("42", { status: "active" }); // PATCH /badges/42
+ *
+ * // In components
+ * const { data } = badges.useList({ page: 1 });  // key: ["badges", "list", { page: 1 }]
+ * const { data: badge } = badges.useDetail(id);  // key: ["badges", "detail", id]
+ * const updateBadge = badges.useUpdate({ successToast: true });
+ * updateBadge.mutate({ id, data: { name: "Gold" } });
+ *
+ * // In route loaders
+ * await queryClient.ensureQueryData(badges.detailQueryOptions(params.id!));
+ */
+export function createResource<
+  TEntity,
+  TCreate = Partial<TEntity>,
+  TUpdate = TCreate,
+  TListParams extends Record<string, unknown> = Record<string, unknown>,
+  TListResponse = TEntity[],
+>(path: string, options: CreateResourceOptions<TEntity, TListResponse> = {}) {
+  const { schema, listSchema, stripUnknown } = options;
+  const root = options.key ?? path.replace(/^\/+/, "");
+
+  const keys = {
+    all: [root] as const,
+    lists: () => [root, "list"] as const,
+    list: (params?: TListParams) => [root, "list", params] as const,
+    details: () => [root, "detail"] as const,
+    detail: (id: ResourceId) => [root, "detail", id] as const,
+  };
+
+  /** URL of the collection, or of a single entity when an id is given */
+  const url = (id?: ResourceId) =>
+    id === undefined ? path : `${path}/${encodeURIComponent(String(id))}`;
+
+  /** Request config with the entity schema applied */
+  const withSchema = (config?: AxiosRequestConfig): ApiRequestConfig<TEntity> => ({
+    schema,
+    stripUnknown,
+    ...config,
+  });
+
+  const list = (params?: TListParams, config?: AxiosRequestConfig) =>
+    apiGet<TListResponse>(path, params, { schema: listSchema, stripUnknown, ...config });
+  const get = (id: ResourceId, config?: AxiosRequestConfig) =>
+    apiGet<TEntity>(url(id), undefined, withSchema(config));
+  const create = (data: TCreate, config?: AxiosRequestConfig) =>
+    apiPost<TEntity, TCreate>(path, data, withSchema(config));
+  const update = (id: ResourceId, data: TUpdate, config?: AxiosRequestConfig) =>
+    apiPut<TEntity, TUpdate>(url(id), data, withSchema(config));
+  const patch = (id: ResourceId, data: Partial<TUpdate>, config?: AxiosRequestConfig) =>
+    apiPatch<TEntity, Partial<TUpdate>>(url(id), data, withSchema(config));
+  const remove = (id: ResourceId, config?: AxiosRequestConfig) =>
+    apiDelete<void>(url(id), config);
+
+  const listQueryOptions = (params?: TListParams) =>
+    queryOptions<TListResponse, ApiError>({
+      queryKey: keys.list(params),
+      queryFn: ({ signal }) => list(params, { signal }),
+    });
+  const detailQueryOptions = (id: ResourceId) =>
+    queryOptions<TEntity, ApiError>({
+      queryKey: keys.detail(id),
+      queryFn: ({ signal }) => get(id, { signal }),
+    });
+
+  /** Fetch a list */
+  function useList(params?: TListParams, queryOpts?: ResourceQueryOptions<TListResponse>) {
+    return useQuery({ ...queryOpts, ...listQueryOptions(params) });
+  }
+
+  /** Fetch one entity; disabled while `id` is null or undefined */
+  function useDetail(id: ResourceId | null | undefined, queryOpts?: ResourceQueryOptions<TEntity>) {
+    return useQuery({
+      ...queryOpts,
+      queryKey: keys.detail(id ?? ""),
+      queryFn: ({ signal }) => get(id!, { signal }),
+      enabled: id != null && (queryOpts?.enabled ?? true),
+    });
+  }
+
+  /** Create an entity and invalidate every list */
+  function useCreate(mutationOpts?: ResourceMutationOptions<TEntity, TCreate>) {
+    const queryClient = useQueryClient();
+    const { config, mutationOptions } = splitMutationOptions(mutationOpts);
+    const { onSuccess: userOnSuccess, ...rest } = mutationOptions;
+
+    return useMutation<TEntity, ApiError, TCreate>({
+      mutationFn: (data) => create(data, config),
+      ...rest,
+      onSuccess: (entity, ...args) => {
+        queryClient.invalidateQueries({ queryKey: keys.lists() });
+        return userOnSuccess?.(entity, ...args);
+      },
+    });
+  }
+
+  /** Replace an entity (PUT), cache the result and invalidate every list */
+  function useUpdate(mutationOpts?: ResourceMutationOptions<TEntity, ResourceUpdateVariables<TUpdate>>) {
+    const queryClient = useQueryClient();
+    const { config, mutationOptions } = splitMutationOptions(mutationOpts);
+    const { onSuccess: userOnSuccess, ...rest } = mutationOptions;
+
+    return useMutation<TEntity, ApiError, ResourceUpdateVariables<TUpdate>>({
+      mutationFn: ({ id, data }) => update(id, data, config),
+      ...rest,
+      onSuccess: (entity, variables, ...args) => {
+        queryClient.setQueryData(keys.detail(variables.id), entity);
+        queryClient.invalidateQueries({ queryKey: keys.lists() });
+        return userOnSuccess?.(entity, variables, ...args);
+      },
+    });
+  }
+
+  /** Partially update an entity (PATCH), cache the result and invalidate every list */
+  function usePatch(
+    mutationOpts?: ResourceMutationOptions<TEntity, ResourceUpdateVariables<Partial<TUpdate>>>
+  ) {
+    const queryClient = useQueryClient();
+    const { config, mutationOptions } = splitMutationOptions(mutationOpts);
+    const { onSuccess: userOnSuccess, ...rest } = mutationOptions;
+
+    return useMutation<TEntity, ApiError, ResourceUpdateVariables<Partial<TUpdate>>>({
+      mutationFn: ({ id, data }) => patch(id, data, config),
+      ...rest,
+      onSuccess: (entity, variables, ...args) => {
+        queryClient.setQueryData(keys.detail(variables.id), entity);
+        queryClient.invalidateQueries({ queryKey: keys.lists() });
+        return userOnSuccess?.(entity, variables, ...args);
+      },
+    });
+  }
+
+  /** Delete an entity, drop its detail query and invalidate every list */
+  function useRemove(mutationOpts?: ResourceMutationOptions<void, ResourceId>) {
+    const queryClient = useQueryClient();
+    const { config, mutationOptions } = splitMutationOptions(mutationOpts);
+    const { onSuccess: userOnSuccess, ...rest } = mutationOptions;
+
+    return useMutation<void, ApiError, ResourceId>({
+      mutationFn: (id) => remove(id, config),
+      ...rest,
+      onSuccess: (result, id, ...args) => {
+        queryClient.removeQueries({ queryKey: keys.detail(id) });
+        queryClient.invalidateQueries({ queryKey: keys.lists() });
+        return userOnSuccess?.(result, id, ...args);
+      },
+    });
+  }
+
+  return {
+    path,
+    keys,
+    url,
+    list,
+    get,
+    create,
+    update,
+    patch,
+    remove,
+    listQueryOptions,
+    detailQueryOptions,
+    useList,
+    useDetail,
+    useCreate,
+    useUpdate,
+    usePatch,
+    useRemove,
+  };
+}
+
+/**
+ * Client returned by createResource.
+ */
+export type Resource<
+  TEntity,
+  TCreate = Partial<TEntity>,
+  TUpdate = TCreate,
+  TListParams extends Record<string, unknown> = Record<string, unknown>,
+  TListResponse = TEntity[],
+> = ReturnType<typeof createResource<TEntity, TCreate, TUpdate, TListParams, TListResponse>>;
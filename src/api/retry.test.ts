@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { toast } from 'sonner'
+import { apiGet, apiPost } from './generic-api'
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  getRetryAfter,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from './retry'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const server = setupServer()
+
+/** Fast policy so the suite doesn't wait on real backoff */
+const fastRetry = { attempts: 3, baseDelay: 1, jitter: false }
+
+/**
+ * Handler that fails with the given statuses in order, then succeeds.
+ * Records the headers of every attempt.
+ */
+function flaky(method: 'get' | 'post', path: string, failures: Array<number | 'network'>) {
+  const attempts: Headers[] = []
+  const handler = http[method](path, ({ request }) => {
+    attempts.push(request.headers)
+    const failure = failures[attempts.length - 1]
+    if (failure === 'network') return HttpResponse.error()
+    if (failure) return HttpResponse.json({ message: 'Bad gateway' }, { status: failure })
+    return HttpResponse.json({ ok: true, attempt: attempts.length })
+  })
+  return { handler, attempts }
+}
+
+describe('request retry', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.mocked(toast.error).mockClear()
+  })
+
+  it('retries transient failures until the request succeeds', async () => {
+    const { handler, attempts } = flaky('get', '/api/reports', [502, 'network', 503])
+    server.use(handler)
+
+    const data = await apiGet('/reports', undefined, { meta: { retry: fastRetry } })
+
+    expect(data).toEqual({ ok: true, attempt: 4 })
+    expect(attempts).toHaveLength(4)
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+
+  it('does not retry without a policy or for non-retryable statuses', async () => {
+    const { handler, attempts } = flaky('get', '/api/reports', [502, 400])
+    server.use(handler)
+
+    await expect(apiGet('/reports', undefined, { meta: { disableToast: true } })).rejects.toMatchObject({
+      status: 502,
+    })
+    await expect(apiGet('/reports', undefined, { meta: { retry: fastRetry } })).rejects.toMatchObject({
+      status: 400,
+    })
+    expect(attempts).toHaveLength(2)
+  })
+
+  it('gives up after the configured attempts and reports the final failure once', async () => {
+    const { handler, attempts } = flaky('get', '/api/reports', [500, 500, 500])
+    server.use(handler)
+
+    await expect(
+      apiGet('/reports', undefined, { meta: { retry: { ...fastRetry, attempts: 2 } } })
+    ).rejects.toMatchObject({ status: 500 })
+    expect(attempts).toHaveLength(3)
+    expect(toast.error).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends the same Idempotency-Key on every attempt of a retried POST', async () => {
+    const { handler, attempts } = flaky('post', '/api/orders', [502, 504])
+    server.use(handler)
+
+    await apiPost('/orders', { sku: 'A-1' }, { meta: { retry: fastRetry } })
+
+    const keys = attempts.map((headers) => headers.get(IDEMPOTENCY_KEY_HEADER))
+    expect(keys).toHaveLength(3)
+    expect(keys[0]).toBeTruthy()
+    expect(new Set(keys).size).toBe(1)
+  })
+
+  it('keeps a caller-provided key and adds none without a retry policy', async () => {
+    const { handler, attempts } = flaky('post', '/api/orders', [502])
+    server.use(handler)
+
+    await apiPost('/orders', {}, {
+      headers: { [IDEMPOTENCY_KEY_HEADER]: 'order-42' },
+      meta: { retry: fastRetry },
+    })
+    await apiPost('/orders', {})
+
+    expect(attempts.map((headers) => headers.get(IDEMPOTENCY_KEY_HEADER))).toEqual([
+      'order-42',
+      'order-42',
+      null,
+    ])
+  })
+
+  it('waits for Retry-After on 429', async () => {
+    const attempts: number[] = []
+    server.use(
+      http.get('/api/reports', () => {
+        attempts.push(Date.now())
+        return attempts.length === 1
+          ? HttpResponse.json({ message: 'Slow down' }, { status: 429, headers: { 'Retry-After': '0.05' } })
+          : HttpResponse.json({ ok: true })
+      })
+    )
+
+    await apiGet('/reports', undefined, { meta: { retry: fastRetry } })
+
+    expect(attempts).toHaveLength(2)
+    expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(45)
+  })
+
+  it('stops retrying when the request is aborted', async () => {
+    const { handler, attempts } = flaky('get', '/api/reports', [503, 503])
+    server.use(handler)
+    const controller = new AbortController()
+
+    const request = apiGet('/reports', undefined, {
+      signal: controller.signal,
+      meta: { retry: { attempts: 3, baseDelay: 5_000 } },
+    })
+    setTimeout(() => controller.abort(), 20)
+
+    await expect(request).rejects.toMatchObject({ isCancelled: true })
+    expect(attempts).toHaveLength(1)
+  })
+})
+
+describe('retry policy helpers', () => {
+  it('resolves retry options', () => {
+    expect(resolveRetryPolicy(undefined)).toBeNull()
+    expect(resolveRetryPolicy(false)).toBeNull()
+    expect(resolveRetryPolicy(true)).toEqual(DEFAULT_RETRY_POLICY)
+    expect(resolveRetryPolicy(5)).toMatchObject({ attempts: 5, baseDelay: 300 })
+    expect(resolveRetryPolicy({ retryOn: [503] })).toMatchObject({ attempts: 3, retryOn: [503] })
+  })
+
+  it('backs off exponentially within bounds', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 500, jitter: false }
+
+    expect([1, 2, 3, 4].map((retry) => getRetryDelay(retry, policy))).toEqual([100, 200, 400, 500])
+
+    const jittered = getRetryDelay(3, { ...policy, jitter: true })
+    expect(jittered).toBeGreaterThanOrEqual(200)
+    expect(jittered).toBeLessThanOrEqual(400)
+  })
+
+  it('parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+
+    expect(parseRetryAfter('2', now)).toBe(2000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:03 GMT', now)).toBe(3000)
+    expect(parseRetryAfter('soon', now)).toBeNull()
+    expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, '60')).toBe(DEFAULT_RETRY_POLICY.maxDelay)
+  })
+
+  it('only honours Retry-After on 429 and 503', () => {
+    expect(getRetryAfter(429, '2')).toBe('2')
+    expect(getRetryAfter(503, '2')).toBe('2')
+    expect(getRetryAfter(500, '2')).toBeUndefined()
+    expect(getRetryAfter(undefined, '2')).toBeUndefined()
+  })
+})
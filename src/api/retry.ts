@@ -0,0 +1,142 @@
+import type { GenericAbortSignal } from "axios";
+
+/**
+ * Retry policy for a single request.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  attempts?: number;
+  /** Delay before the first retry in ms (default: 300) */
+  baseDelay?: number;
+  /** Upper bound for any single delay in ms, Retry-After included (default: 10000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Randomize delays so concurrent clients don't retry in lockstep (default: true) */
+  jitter?: boolean;
+  /** Response statuses worth retrying; network errors and timeouts always are */
+  retryOn?: number[];
+  /** Wait as long as a 429/503 `Retry-After` header asks, up to maxDelay (default: true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Retry setting accepted in request meta:
+ * `true` for the default policy, a number of attempts, a policy, or `false` to disable.
+ */
+export type RetryOption = boolean | number | RetryPolicy;
+
+/**
+ * Policy used when a request enables retries without overriding a field.
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: true,
+  retryOn: [408, 425, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Header sent with retried POST/PATCH requests so the server can deduplicate them.
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Methods that are not idempotent by definition and need an idempotency key to be retried safely.
+ */
+const NON_IDEMPOTENT_METHODS = ["post", "patch"];
+
+/**
+ * Resolve a retry option into a full policy, or null when retries are disabled.
+ */
+export function resolveRetryPolicy(option: RetryOption | undefined): Required<RetryPolicy> | null {
+  if (option === undefined || option === false || option === 0) return null;
+  if (option === true) return DEFAULT_RETRY_POLICY;
+  if (typeof option === "number") return { ...DEFAULT_RETRY_POLICY, attempts: option };
+  return { ...DEFAULT_RETRY_POLICY, ...option };
+}
+
+/**
+ * Whether a request method needs an Idempotency-Key to be retried safely.
+ */
+export function needsIdempotencyKey(method: string | undefined): boolean {
+  return NON_IDEMPOTENT_METHODS.includes(method?.toLowerCase() ?? "");
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Statuses a Retry-After header is honoured for: rate limiting and a
+ * temporarily unavailable service.
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * The Retry-After header of a 429 or 503 response; ignored on other statuses.
+ */
+export function getRetryAfter(status: number | undefined, retryAfter: unknown): unknown {
+  return status !== undefined && RETRY_AFTER_STATUSES.includes(status) ? retryAfter : undefined;
+}
+
+/**
+ * Delay before the given retry (1-based), with exponential backoff and optional jitter.
+ * A Retry-After delay (see getRetryAfter) takes precedence when the policy respects it.
+ */
+export function getRetryDelay(
+  retry: number,
+  policy: Required<RetryPolicy>,
+  retryAfter?: unknown
+): number {
+  const requested = policy.respectRetryAfter ? parseRetryAfter(retryAfter) : null;
+  if (requested !== null) return Math.min(requested, policy.maxDelay);
+
+  const backoff = Math.min(policy.baseDelay * policy.factor ** (retry - 1), policy.maxDelay);
+  // "Equal jitter": keep half the backoff, randomize the other half
+  return policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+/**
+ * Whether a failed attempt should be retried.
+ *
+ * @param status - Response status, undefined when no response was received
+ * @param retriesDone - Retries already made for this request
+ */
+export function shouldRetry(
+  status: number | undefined,
+  retriesDone: number,
+  policy: Required<RetryPolicy>
+): boolean {
+  if (retriesDone >= policy.attempts) return false;
+  return status === undefined || policy.retryOn.includes(status);
+}
+
+/**
+ * Wait for the given time, resolving early when the signal aborts.
+ */
+export function waitForRetry(ms: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener?.("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener?.("abort", done);
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  createTokenStorage,
+  createMemoryTokenStorage,
+  createSessionTokenStorage,
+  createLocalTokenStorage,
+  createCookieTokenStorage,
+} from './token-storage'
+import {
+  apiClient,
+  configureTokenStorage,
+  getAuthToken,
+  setAuthToken,
+  removeAuthToken,
+} from './client'
+
+describe('token storage strategies', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  it('memory storage keeps tokens out of Web Storage', () => {
+    const storage = createMemoryTokenStorage()
+    storage.set('auth_token', 'abc')
+
+    expect(storage.get('auth_token')).toBe('abc')
+    expect(localStorage.getItem('auth_token')).toBeNull()
+    expect(sessionStorage.getItem('auth_token')).toBeNull()
+
+    storage.remove('auth_token')
+    expect(storage.get('auth_token')).toBeNull()
+  })
+
+  it('memory storages do not share tokens', () => {
+    const first = createMemoryTokenStorage()
+    const second = createMemoryTokenStorage()
+    first.set('auth_token', 'abc')
+
+    expect(second.get('auth_token')).toBeNull()
+  })
+
+  it('session storage writes to sessionStorage', () => {
+    const storage = createSessionTokenStorage()
+    storage.set('auth_token', 'abc')
+
+    expect(sessionStorage.getItem('auth_token')).toBe('abc')
+    expect(localStorage.getItem('auth_token')).toBeNull()
+  })
+
+  it('local storage writes to localStorage', () => {
+    const storage = createLocalTokenStorage()
+    storage.set('auth_token', 'abc')
+
+    expect(localStorage.getItem('auth_token')).toBe('abc')
+  })
+
+  it('cookie storage never exposes tokens to JavaScript', () => {
+    const storage = createCookieTokenStorage()
+    storage.set('auth_token', 'abc')
+
+    expect(storage.isAccessible).toBe(false)
+    expect(storage.get('auth_token')).toBeNull()
+    expect(localStorage.getItem('auth_token')).toBeNull()
+  })
+
+  it('marks localStorage and cookie tokens as shared between tabs', () => {
+    expect(createLocalTokenStorage().isShared).toBe(true)
+    expect(createCookieTokenStorage().isShared).toBe(true)
+    expect(createSessionTokenStorage().isShared).toBe(false)
+    expect(createMemoryTokenStorage().isShared).toBe(false)
+  })
+
+  it('createTokenStorage falls back to localStorage', () => {
+    createTokenStorage('unknown').set('auth_token', 'abc')
+
+    expect(localStorage.getItem('auth_token')).toBe('abc')
+  })
+})
+
+describe('configureTokenStorage', () => {
+  afterEach(() => {
+    configureTokenStorage(createLocalTokenStorage())
+    localStorage.clear()
+  })
+
+  it('routes token helpers through the configured storage', () => {
+    const storage = createMemoryTokenStorage()
+    configureTokenStorage(storage)
+
+    setAuthToken('abc')
+    expect(storage.get('auth_token')).toBe('abc')
+    expect(getAuthToken()).toBe('abc')
+    expect(localStorage.getItem('auth_token')).toBeNull()
+
+    removeAuthToken()
+    expect(storage.get('auth_token')).toBeNull()
+  })
+
+  it('sends credentials only for cookie-managed storage', () => {
+    configureTokenStorage(createCookieTokenStorage())
+    expect(apiClient.defaults.withCredentials).toBe(true)
+
+    configureTokenStorage(createSessionTokenStorage())
+    expect(apiClient.defaults.withCredentials).toBe(false)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Abstraction over where authentication tokens are kept.
+ * The API client and AuthContext only ever read and write tokens through this,
+ * so the storage strategy can be chosen at app configuration time.
+ */
+export interface TokenStorage {
+  /**
+   * Whether tokens are readable from JavaScript.
+   * False when the server manages them as httpOnly cookies.
+   */
+  readonly isAccessible: boolean;
+  /**
+   * Whether every tab of the origin sees the same tokens (localStorage, cookies).
+   * Memory and sessionStorage tokens belong to a single tab.
+   */
+  readonly isShared: boolean;
+  /** Read a token, or null if it is not stored */
+  get: (key: string) => string | null;
+  /** Store a token */
+  set: (key: string, value: string) => void;
+  /** Remove a token */
+  remove: (key: string) => void;
+}
+
+/**
+ * Available token storage strategies.
+ */
+export type TokenStorageType = "memory" | "session" | "local" | "cookie";
+
+/**
+ * In-memory token storage.
+ * Tokens never touch Web Storage, so they are not readable by other scripts
+ * after a page load, but they are lost on reload and not shared between tabs.
+ */
+export function createMemoryTokenStorage(): TokenStorage {
+  const tokens = new Map<string, string>();
+
+  return {
+    isAccessible: true,
+    isShared: false,
+    get: (key) => tokens.get(key) ?? null,
+    set: (key, value) => {
+      tokens.set(key, value);
+    },
+    remove: (key) => {
+      tokens.delete(key);
+    },
+  };
+}
+
+/**
+ * Token storage backed by a Web Storage area.
+ */
+function createWebTokenStorage(getStorage: () => Storage, isShared: boolean): TokenStorage {
+  return {
+    isAccessible: true,
+    isShared,
+    get: (key) => {
+      if (typeof window === "undefined") return null;
+      return getStorage().getItem(key);
+    },
+    set: (key, value) => {
+      if (typeof window !== "undefined") {
+        getStorage().setItem(key, value);
+      }
+    },
+    remove: (key) => {
+      if (typeof window !== "undefined") {
+        getStorage().removeItem(key);
+      }
+    },
+  };
+}
+
+/**
+ * sessionStorage token storage.
+ * Tokens survive reloads but are scoped to a single tab and cleared when it closes.
+ */
+export function createSessionTokenStorage(): TokenStorage {
+  return createWebTokenStorage(() => window.sessionStorage, false);
+}
+
+/**
+ * localStorage token storage.
+ * Tokens survive reloads and are shared between tabs (the default).
+ */
+export function createLocalTokenStorage(): TokenStorage {
+  return createWebTokenStorage(() => window.localStorage, true);
+}
+
+/**
+ * Cookie-managed token storage.
+ * The server sets and clears httpOnly cookies, so JavaScript never sees the
+ * tokens: reads return null and writes are ignored. Requests are sent with
+ * credentials and the session is verified against the server on app start.
+ */
+export function createCookieTokenStorage(): TokenStorage {
+  return {
+    isAccessible: false,
+    isShared: true,
+    get: () => null,
+    set: () => {},
+    remove: () => {},
+  };
+}
+
+/**
+ * Create a token storage for the given strategy.
+ * Unknown or missing values fall back to localStorage.
+ *
+ * @example
+ * // Driven by an environment variable
+ * const storage = createTokenStorage(import.meta.env.VITE_TOKEN_STORAGE);
+ */
+export function createTokenStorage(type?: TokenStorageType | string): TokenStorage {
+  switch (type) {
+    case "memory":
+      return createMemoryTokenStorage();
+    case "session":
+      return createSessionTokenStorage();
+    case "cookie":
+      return createCookieTokenStorage();
+    default:
+      return createLocalTokenStorage();
+  }
+}
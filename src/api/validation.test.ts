@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import { apiGet, apiPost } from './generic-api'
+import { ResponseValidationError } from './validation'
+import { isApiError } from './errors'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const badgeSchema = z.object({
+  id: z.string(),
+  status: z.enum(['active', 'inactive', 'pending']),
+})
+
+const badgeListSchema = z.object({ data: z.array(badgeSchema) })
+
+const server = setupServer()
+
+describe('response validation', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.mocked(toast.error).mockClear()
+  })
+
+  it('returns the raw body when it matches the schema', async () => {
+    server.use(
+      http.get('/api/badges/1', () =>
+        HttpResponse.json({ id: '1', status: 'active', extra: true })
+      )
+    )
+
+    const badge = await apiGet('/badges/1', undefined, { schema: badgeSchema })
+
+    expect(badge).toEqual({ id: '1', status: 'active', extra: true })
+  })
+
+  it('strips unknown fields when requested', async () => {
+    server.use(
+      http.get('/api/badges/1', () =>
+        HttpResponse.json({ id: '1', status: 'active', extra: true })
+      )
+    )
+
+    const badge = await apiGet('/badges/1', undefined, {
+      schema: badgeSchema,
+      stripUnknown: true,
+    })
+
+    expect(badge).toEqual({ id: '1', status: 'active' })
+  })
+
+  it('throws ResponseValidationError with the failing path', async () => {
+    server.use(
+      http.get('/api/badges', () =>
+        HttpResponse.json({
+          data: [
+            { id: '1', status: 'active' },
+            { id: '2', status: 'archived' },
+          ],
+        })
+      )
+    )
+
+    const error = await apiGet('/badges', undefined, { schema: badgeListSchema }).catch(
+      (e: unknown) => e
+    )
+
+    expect(error).toBeInstanceOf(ResponseValidationError)
+    expect(error).toMatchObject({
+      method: 'GET',
+      url: '/badges',
+      path: 'data[1].status',
+      status: 200,
+      code: 'INVALID_RESPONSE',
+    })
+    expect(isApiError(error)).toBe(true)
+    expect(toast.error).toHaveBeenCalledWith(expect.stringContaining('data[1].status'))
+  })
+
+  it('does not toast when toasts are disabled', async () => {
+    server.use(http.post('/api/badges', () => HttpResponse.json({ id: 1 })))
+
+    await expect(
+      apiPost('/badges', { name: 'Gold' }, { schema: badgeSchema, meta: { disableToast: true } })
+    ).rejects.toMatchObject({ method: 'POST', path: 'id' })
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+})
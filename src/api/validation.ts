@@ -0,0 +1,101 @@
+import type { ZodError, ZodType } from "zod";
+import { toast } from "sonner";
+import type { ApiRequestMeta } from "./client";
+import { ApiError } from "./errors";
+
+/**
+ * Options for validating a response body against a zod schema.
+ */
+export interface ResponseValidationOptions<T> {
+  /** Schema the response body must match */
+  schema?: ZodType<T>;
+  /**
+   * Return the schema's parsed output instead of the raw body.
+   * Object schemas drop keys they don't declare, and transforms are applied.
+   * By default the raw body is returned once it validates, keeping extra fields.
+   */
+  stripUnknown?: boolean;
+}
+
+/**
+ * Format an issue path as an accessor string, e.g. `data[3].status`.
+ */
+function formatIssuePath(path: PropertyKey[]): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((key, index) =>
+      typeof key === "number" ? `[${key}]` : `${index === 0 ? "" : "."}${String(key)}`
+    )
+    .join("");
+}
+
+/**
+ * Thrown when a response body does not match the schema it was requested with.
+ * Signals backend contract drift at the API boundary. Its `status` is the
+ * (successful) response status and its `code` is "INVALID_RESPONSE".
+ *
+ * @example
+ * try {
+ *   await apiGet('/badges', undefined, { schema: badgeListSchema });
+ * } catch (error) {
+ *   if (error instanceof ResponseValidationError) {
+ *     console.error(error.path, error.issues);
+ *   }
+ * }
+ */
+export class ResponseValidationError extends ApiError {
+  readonly name = "ResponseValidationError";
+  /** HTTP method of the request */
+  readonly method: string;
+  /** Request URL */
+  readonly url: string;
+  /** Accessor path of the first failing value, e.g. `data[3].status` */
+  readonly path: string;
+  /** Every issue zod reported */
+  readonly issues: ZodError["issues"];
+
+  constructor(method: string, url: string, zodError: ZodError, status = 0) {
+    const [firstIssue] = zodError.issues;
+    const path = formatIssuePath(firstIssue?.path ?? []);
+    super({
+      message: `Invalid response from ${method} ${url} at ${path}: ${firstIssue?.message ?? "unknown issue"}`,
+      status,
+      code: "INVALID_RESPONSE",
+      cause: zodError,
+    });
+    this.method = method;
+    this.url = url;
+    this.path = path;
+    this.issues = zodError.issues;
+  }
+}
+
+/**
+ * Validate a response body against a schema.
+ * On failure, reports the error via toast in development (unless toasts are disabled)
+ * and throws a ResponseValidationError.
+ */
+export function validateResponse<T>(
+  data: unknown,
+  { schema, stripUnknown = false }: ResponseValidationOptions<T>,
+  request: { method: string; url: string; status?: number; meta?: ApiRequestMeta }
+): T {
+  if (!schema) return data as T;
+
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const error = new ResponseValidationError(
+      request.method,
+      request.url,
+      result.error,
+      request.status
+    );
+    if (import.meta.env.DEV && !request.meta?.disableToast) {
+      toast.error(error.message);
+    }
+    throw error;
+  }
+
+  return stripUnknown ? result.data : (data as T);
+}
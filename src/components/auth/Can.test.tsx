@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { Can } from './Can'
+import { AuthContext } from '@/context/AuthContext'
+import { createPermissionSet } from '@/lib/permissions'
+import type { PermissionGrant } from '@/types/auth'
+
+type AuthContextValue = NonNullable<React.ContextType<typeof AuthContext>>
+
+/**
+ * Render with an auth context granting the given permissions.
+ */
+function renderWithPermissions(
+  ui: ReactNode,
+  grants: PermissionGrant[],
+  isLoading = false
+) {
+  const value = {
+    isLoading,
+    permissionSet: createPermissionSet(grants),
+  } as AuthContextValue
+  return render(<AuthContext.Provider value={value}>{ui}</AuthContext.Provider>)
+}
+
+describe('Can', () => {
+  describe('Hide behavior', () => {
+    it('renders children when permission is granted', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="CREATE">
+          <button>Create</button>
+        </Can>,
+        ['BADGE:CREATE']
+      )
+      expect(screen.getByRole('button', { name: 'Create' })).toBeInTheDocument()
+    })
+
+    it('hides children when permission is missing', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="DELETE">
+          <button>Delete</button>
+        </Can>,
+        ['BADGE:VIEW']
+      )
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+
+    it('renders fallback when permission is missing', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="DELETE" fallback={<span>Read only</span>}>
+          <button>Delete</button>
+        </Can>,
+        []
+      )
+      expect(screen.getByText('Read only')).toBeInTheDocument()
+    })
+
+    it('hides children while auth is loading', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="VIEW">
+          <button>View</button>
+        </Can>,
+        ['*:*'],
+        true
+      )
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Composition', () => {
+    it('requires any privilege by default', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privileges={['EDIT', 'DELETE']}>
+          <button>Manage</button>
+        </Can>,
+        ['BADGE:EDIT']
+      )
+      expect(screen.getByRole('button')).toBeInTheDocument()
+    })
+
+    it('requires every privilege with mode="all"', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privileges={['EDIT', 'DELETE']} mode="all">
+          <button>Manage</button>
+        </Can>,
+        ['BADGE:EDIT']
+      )
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+
+    it('checks any access to the screen when no privilege is given', () => {
+      renderWithPermissions(
+        <Can screen="REPORTS">
+          <a href="/reports">Reports</a>
+        </Can>,
+        ['REPORTS:VIEW']
+      )
+      expect(screen.getByRole('link')).toBeInTheDocument()
+    })
+  })
+
+  describe('Disable behavior', () => {
+    it('renders the child disabled when permission is missing', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="DELETE" behavior="disable">
+          <button>Delete</button>
+        </Can>,
+        ['BADGE:VIEW']
+      )
+      const button = screen.getByRole('button', { name: 'Delete' })
+      expect(button).toBeDisabled()
+      expect(button).toHaveAttribute('aria-disabled', 'true')
+    })
+
+    it('leaves the child enabled when permission is granted', () => {
+      renderWithPermissions(
+        <Can screen="BADGE" privilege="DELETE" behavior="disable">
+          <button>Delete</button>
+        </Can>,
+        ['BADGE:*']
+      )
+      expect(screen.getByRole('button', { name: 'Delete' })).toBeEnabled()
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import * as React from "react";
+import { useTranslation } from "react-i18next";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+  TooltipProvider,
+} from "@/components/overlay/Tooltip";
+import type { PermissionRequirement } from "@/lib/permissions";
+
+export interface CanProps extends PermissionRequirement {
+  /** Content to render when the user has permission */
+  children: React.ReactNode;
+  /** Content to render instead when permission is missing (hide behavior only) */
+  fallback?: React.ReactNode;
+  /**
+   * What to do when permission is missing:
+   * - "hide": render `fallback` (default)
+   * - "disable": render the child disabled, with a tooltip explaining why
+   */
+  behavior?: "hide" | "disable";
+  /** Custom tooltip text for the disable behavior */
+  disabledMessage?: string;
+}
+
+/**
+ * Declarative element-level permission check.
+ * Shares its AND/OR rules with ProtectedRoute via `checkPermission`.
+ *
+ * @example
+ * // Hide a button the user cannot use
+ * <Can screen="BADGE" privilege="CREATE">
+ *   <Button>Create Badge</Button>
+ * </Can>
+ *
+ * @example
+ * // Require several privileges, with a fallback
+ * <Can
+ *   screen="BADGE"
+ *   privileges={["EDIT", "DELETE"]}
+ *   mode="all"
+ *   fallback={<Text>Read only</Text>}
+ * >
+ *   <BadgeActions />
+ * </Can>
+ *
+ * @example
+ * // Keep the button visible but disabled, with an explanatory tooltip
+ * <Can screen="BADGE" privilege="DELETE" behavior="disable">
+ *   <Button variant="destructive">Delete</Button>
+ * </Can>
+ */
+export function Can({
+  children,
+  fallback = null,
+  behavior = "hide",
+  disabledMessage,
+  ...requirement
+}: CanProps) {
+  const { t } = useTranslation("common");
+  const { check, getMissing } = usePermissions();
+
+  if (check(requirement)) {
+    return <>{children}</>;
+  }
+
+  if (behavior === "hide" || !React.isValidElement(children)) {
+    return <>{fallback}</>;
+  }
+
+  const missing = getMissing(requirement);
+  const message =
+    disabledMessage ??
+    (missing.length === 0
+      ? t("permissions.noAccess", { screen: requirement.screen })
+      : requirement.mode === "all" || missing.length === 1
+        ? t("permissions.missing", { permissions: missing.join(", ") })
+        : t("permissions.missingAny", { permissions: missing.join(", ") }));
+
+  const disabledChild = React.cloneElement(
+    children as React.ReactElement<{ disabled?: boolean; "aria-disabled"?: boolean }>,
+    { disabled: true, "aria-disabled": true }
+  );
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          {/* Disabled elements do not fire pointer events, so the wrapper hosts the tooltip */}
+          <span tabIndex={0} className="inline-flex cursor-not-allowed">
+            {disabledChild}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>{message}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+Can.displayName = "Can";
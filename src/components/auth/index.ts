@@ -0,0 +1 @@
+export { Can, type CanProps } from "./Can";
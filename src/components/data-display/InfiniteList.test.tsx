@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { InfiniteList } from './InfiniteList'
+
+let observerCallback: IntersectionObserverCallback | null = null
+
+class MockIntersectionObserver {
+  constructor(callback: IntersectionObserverCallback) {
+    observerCallback = callback
+  }
+  observe() {}
+  disconnect() {
+    observerCallback = null
+  }
+}
+
+function intersect() {
+  observerCallback?.(
+    [{ isIntersecting: true } as IntersectionObserverEntry],
+    {} as IntersectionObserver
+  )
+}
+
+describe('InfiniteList', () => {
+  beforeEach(() => {
+    vi.stubGlobal('IntersectionObserver', MockIntersectionObserver)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    observerCallback = null
+  })
+
+  const renderList = (props: Partial<React.ComponentProps<typeof InfiniteList<string>>> = {}) => {
+    const fetchNextPage = vi.fn()
+    render(
+      <InfiniteList
+        items={['Gold', 'Silver']}
+        renderItem={(item) => <span>{item}</span>}
+        hasNextPage
+        fetchNextPage={fetchNextPage}
+        {...props}
+      />
+    )
+    return { fetchNextPage }
+  }
+
+  it('renders the items', () => {
+    renderList()
+    expect(screen.getAllByRole('listitem')).toHaveLength(2)
+    expect(screen.getByText('Silver')).toBeInTheDocument()
+  })
+
+  it('loads the next page when the end of the list comes into view', () => {
+    const { fetchNextPage } = renderList()
+    intersect()
+    expect(fetchNextPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not observe while the next page is loading', () => {
+    renderList({ isFetchingNextPage: true })
+    expect(observerCallback).toBeNull()
+  })
+
+  it('loads the next page from the load more button', async () => {
+    vi.unstubAllGlobals()
+    const { fetchNextPage } = renderList()
+
+    await userEvent.click(screen.getByRole('button'))
+
+    expect(fetchNextPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('renders the empty state without items', () => {
+    renderList({ items: [], hasNextPage: false, emptyState: <p>No badges</p> })
+    expect(screen.getByText('No badges')).toBeInTheDocument()
+    expect(screen.queryByRole('list')).not.toBeInTheDocument()
+  })
+
+  it('stops loading on scroll after a failure and retries from the button', async () => {
+    const { fetchNextPage } = renderList({ isError: true })
+
+    expect(observerCallback).toBeNull()
+    expect(screen.getByRole('alert')).toHaveTextContent('infiniteList.error')
+
+    await userEvent.click(screen.getByRole('button', { name: 'infiniteList.retry' }))
+    expect(fetchNextPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('shows the error instead of the empty state when the first page fails', () => {
+    renderList({ items: [], isError: true, errorMessage: 'Feed unavailable' })
+    expect(screen.getByRole('alert')).toHaveTextContent('Feed unavailable')
+    expect(screen.getByRole('button', { name: 'infiniteList.retry' })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,196 @@
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/overlay/Button";
+import { cn } from "@/lib/utils";
+
+export interface InfiniteListProps<T> {
+  /** Items of all loaded pages */
+  items: T[];
+  /** Render one item */
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Stable key for an item (default: its index) */
+  getItemKey?: (item: T, index: number) => React.Key;
+  /** More pages can be loaded */
+  hasNextPage: boolean;
+  /** Load the next page */
+  fetchNextPage: () => unknown;
+  /** The next page is loading */
+  isFetchingNextPage?: boolean;
+  /** The first page is loading */
+  isLoading?: boolean;
+  /** Loading a page failed; stops loading on scroll until the retry button is used */
+  isError?: boolean;
+  /** Shown while the first page loads */
+  loadingState?: React.ReactNode;
+  /** Shown when there are no items */
+  emptyState?: React.ReactNode;
+  /** Shown above the retry button when loading failed */
+  errorMessage?: React.ReactNode;
+  /** Shown after the last item once every page is loaded */
+  endMessage?: React.ReactNode;
+  /** How far below the viewport loading starts, as a CSS margin (default: "200px") */
+  rootMargin?: string;
+  /** Additional class names for the list */
+  className?: string;
+}
+
+/**
+ * Infinite List
+ *
+ * Renders items and loads the next page when the end of the list scrolls into
+ * view, using an IntersectionObserver. A "Load more" button is shown as well,
+ * for keyboard users and browsers without IntersectionObserver.
+ * While `isError` is set, nothing loads on scroll; an error message and a
+ * retry button that calls `fetchNextPage` are shown instead.
+ * Pairs with useInfiniteFetch, but works with any paged source.
+ *
+ * @example
+ * const { items, hasNextPage, fetchNextPage, isFetchingNextPage, isLoading, isError } =
+ *   useInfiniteFetch(['activity'], '/activity', { adapter: cursorPagination<Entry>() });
+ *
+ * <InfiniteList
+ *   items={items}
+ *   getItemKey={(entry) => entry.id}
+ *   renderItem={(entry) => <ActivityRow entry={entry} />}
+ *   hasNextPage={hasNextPage}
+ *   fetchNextPage={fetchNextPage}
+ *   isFetchingNextPage={isFetchingNextPage}
+ *   isLoading={isLoading}
+ *   isError={isError}
+ * />
+ */
+export function InfiniteList<T>({
+  items,
+  renderItem,
+  getItemKey = (_item, index) => index,
+  hasNextPage,
+  fetchNextPage,
+  isFetchingNextPage = false,
+  isLoading = false,
+  isError = false,
+  loadingState,
+  emptyState,
+  errorMessage,
+  endMessage,
+  rootMargin = "200px",
+  className,
+}: InfiniteListProps<T>) {
+  const { t } = useTranslation("common");
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+  const canLoadMore = hasNextPage && !isFetchingNextPage && !isLoading && !isError;
+
+  // Keep the latest callback without re-creating the observer on every render
+  const fetchNextPageRef = React.useRef(fetchNextPage);
+  React.useEffect(() => {
+    fetchNextPageRef.current = fetchNextPage;
+  });
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canLoadMore || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          fetchNextPageRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, rootMargin]);
+
+  if (isLoading) {
+    return (
+      <>
+        {loadingState ?? (
+          <div
+            className="flex items-center justify-center gap-2 py-[length:var(--spacing-8)] text-[length:var(--text-sm)]"
+            style={{ color: "var(--color-text-muted)" }}
+            role="status"
+          >
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            {t("loading")}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  const errorState = (
+    <div
+      className="flex flex-col items-center gap-[length:var(--spacing-2)] text-[length:var(--text-sm)]"
+      role="alert"
+    >
+      <span style={{ color: "var(--color-error)" }}>{errorMessage ?? t("infiniteList.error")}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isFetchingNextPage}
+        onClick={() => fetchNextPage()}
+      >
+        {t("infiniteList.retry")}
+      </Button>
+    </div>
+  );
+
+  if (items.length === 0) {
+    if (isError) {
+      return <div className="py-[length:var(--spacing-8)]">{errorState}</div>;
+    }
+
+    return (
+      <>
+        {emptyState ?? (
+          <p
+            className="py-[length:var(--spacing-8)] text-center text-[length:var(--text-sm)]"
+            style={{ color: "var(--color-text-muted)" }}
+          >
+            {t("infiniteList.empty")}
+          </p>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div>
+      <ul className={cn("flex flex-col", className)}>
+        {items.map((item, index) => (
+          <li key={getItemKey(item, index)}>{renderItem(item, index)}</li>
+        ))}
+      </ul>
+      <div
+        ref={sentinelRef}
+        className="flex justify-center py-[length:var(--spacing-4)]"
+        aria-live="polite"
+      >
+        {isFetchingNextPage ? (
+          <span
+            className="flex items-center gap-2 text-[length:var(--text-sm)]"
+            style={{ color: "var(--color-text-muted)" }}
+          >
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            {t("infiniteList.loadingMore")}
+          </span>
+        ) : isError ? (
+          errorState
+        ) : hasNextPage ? (
+          <Button variant="ghost" size="sm" onClick={() => fetchNextPage()}>
+            {t("infiniteList.loadMore")}
+          </Button>
+        ) : (
+          endMessage ?? (
+            <span className="text-[length:var(--text-sm)]" style={{ color: "var(--color-text-muted)" }}>
+              {t("infiniteList.end")}
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+InfiniteList.displayName = "InfiniteList";
@@ -40,6 +40,8 @@ export {
   type AvatarFallbackProps,
 } from "./Avatar";
 
+export { InfiniteList, type InfiniteListProps } from "./InfiniteList";
+
 // Table Components
 export {
   ClientTable,
@@ -48,9 +50,26 @@ export {
   TablePagination,
   ActiveFiltersList,
   FilterSheet,
+  FilterBuilder,
+  columnFilterFn,
+  matchesColumnFilter,
+  formatColumnFilter,
+  getFilterOperators,
+  isColumnFilterValue,
+  DEFAULT_FILTER_OPERATORS,
   TableSkeleton,
   TableEmptyState,
   DataTableBase,
+  ColumnManager,
+  useColumnLayout,
+  getColumnLayoutStorageKey,
+  TableViewSwitcher,
+  useTableViews,
+  getTableViewsQueryKey,
+  createLocalTableViewStorage,
+  createApiTableViewStorage,
+  parseTableSearchParams,
+  writeTableSearchParams,
   TableFilterProvider,
   useTableFilter,
   type TableToolbarProps,
@@ -58,13 +77,27 @@ export {
   type ActiveFilter,
   type ActiveFiltersListProps,
   type FilterSheetProps,
+  type FilterBuilderProps,
+  type FormatColumnFilterOptions,
   type TableSkeletonProps,
   type TableEmptyStateProps,
   type DataTableBaseProps,
+  type ColumnManagerProps,
+  type TableViewSwitcherProps,
+  type TableUrlOptions,
   type TableFilterProviderProps,
   type BaseTableProps,
   type ClientTableProps,
   type ServerTableProps,
   type ServerTableState,
   type ColumnFilterDef,
+  type ColumnFilterOperator,
+  type ColumnFilterValue,
+  type TableSelection,
+  type TableBulkAction,
+  type TableColumnLayout,
+  type TableView,
+  type TableViewState,
+  type TableViewStorage,
+  SELECTION_COLUMN_ID,
 } from "./table";
@@ -1,4 +1,5 @@
 import { X } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { Badge } from "@/components/data-display/Badge";
 import { cn } from "@/lib/utils";
 
@@ -7,7 +8,7 @@ export interface ActiveFilter {
   id: string;
   /** Display label for the filter */
   label: string;
-  /** Display value for the filter */
+  /** Readable value of the filter, e.g. `contains “gold”` */
   value: string;
 }
 
@@ -31,6 +32,8 @@ export function ActiveFiltersList({
   onClearAll,
   className,
 }: ActiveFiltersListProps) {
+  const { t } = useTranslation("common");
+
   if (filters.length === 0) {
     return null;
   }
@@ -46,7 +49,7 @@ export function ActiveFiltersList({
         className="text-[length:var(--text-sm)] font-[number:var(--font-medium)]"
         style={{ color: "var(--color-text-secondary)" }}
       >
-        Active filters:
+        {t("table.filters.active")}
       </span>
       {filters.map((filter) => (
         <Badge
@@ -66,7 +69,7 @@ export function ActiveFiltersList({
               "hover:bg-[color:var(--color-primary)] hover:text-[color:var(--color-text-on-primary)]",
               "transition-colors"
             )}
-            aria-label={`Remove ${filter.label} filter`}
+            aria-label={t("table.filters.remove", { label: filter.label })}
           >
             <X className="h-3 w-3" />
           </button>
@@ -79,7 +82,7 @@ export function ActiveFiltersList({
           className="text-[length:var(--text-sm)] underline underline-offset-2 transition-colors"
           style={{ color: "var(--color-primary)" }}
         >
-          Clear all
+          {t("table.filters.clearAll")}
         </button>
       )}
     </div>
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react'
+import type { ColumnDef } from '@tanstack/react-table'
+import { ClientTable } from './ClientTable'
+import { getColumnLayoutStorageKey } from './columns'
+
+interface User {
+  id: number
+  name: string
+  email: string
+}
+
+const columns: ColumnDef<User, unknown>[] = [
+  { accessorKey: 'name', header: 'Name' },
+  { accessorKey: 'email', header: 'Email' },
+]
+
+const users: User[] = [
+  { id: 1, name: 'Ada', email: 'ada@example.com' },
+  { id: 2, name: 'Linus', email: 'linus@example.com' },
+]
+
+function renderTable(tableId?: string) {
+  return render(
+    <ClientTable<User> data={users} columns={columns} tableId={tableId} hideFilter />
+  )
+}
+
+function headers() {
+  return screen.getAllByRole('columnheader').map((header) => header.textContent)
+}
+
+function openColumnManager() {
+  fireEvent.click(screen.getByRole('button', { name: 'table.columns.title' }))
+  return screen.getByRole('list', { name: 'table.columns.title' })
+}
+
+describe('ClientTable column layout', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('hides and reorders columns from the column manager', () => {
+    renderTable()
+    const manager = openColumnManager()
+
+    fireEvent.click(within(manager).getAllByRole('button', { name: 'table.columns.moveDown' })[0])
+    expect(headers()).toEqual(['Email', 'Name'])
+
+    fireEvent.click(within(manager).getByRole('checkbox', { name: 'Email' }))
+    expect(headers()).toEqual(['Name'])
+
+    fireEvent.click(screen.getByRole('button', { name: 'table.columns.reset' }))
+    expect(headers()).toEqual(['Name', 'Email'])
+  })
+
+  it('pins columns with sticky positioning', () => {
+    renderTable()
+    const manager = openColumnManager()
+
+    fireEvent.click(within(manager).getAllByRole('button', { name: 'table.columns.pinRight' })[0])
+
+    const name = screen.getByRole('columnheader', { name: /^Name/ })
+    expect(headers()).toEqual(['Email', 'Name'])
+    expect(name).toHaveStyle({ position: 'sticky', right: '0px' })
+  })
+
+  it('resizes columns with the keyboard', () => {
+    renderTable()
+    const [resizer] = screen.getAllByRole('separator', { name: 'table.columns.resize' })
+
+    fireEvent.keyDown(resizer, { key: 'ArrowRight' })
+    fireEvent.keyDown(resizer, { key: 'ArrowRight', shiftKey: true })
+
+    expect(resizer).toHaveAttribute('aria-valuenow', '210')
+    expect(screen.getByRole('columnheader', { name: /^Name/ })).toHaveStyle({ width: '210px' })
+  })
+
+  it('restores the layout saved under the table id', () => {
+    const { unmount } = renderTable('users')
+    fireEvent.click(within(openColumnManager()).getByRole('checkbox', { name: 'Name' }))
+    fireEvent.keyDown(screen.getByRole('separator', { name: 'table.columns.resize' }), {
+      key: 'ArrowLeft',
+    })
+    unmount()
+
+    expect(JSON.parse(localStorage.getItem(getColumnLayoutStorageKey('users'))!)).toMatchObject({
+      visibility: { name: false },
+      sizing: { email: 140 },
+    })
+
+    renderTable('users')
+    expect(headers()).toEqual(['Email'])
+    expect(screen.getByRole('columnheader', { name: /^Email/ })).toHaveStyle({ width: '140px' })
+  })
+
+  it('keeps the layout in memory without a table id', () => {
+    localStorage.setItem(getColumnLayoutStorageKey(''), JSON.stringify({ visibility: { email: false } }))
+    renderTable()
+    expect(headers()).toEqual(['Name', 'Email'])
+    fireEvent.click(within(openColumnManager()).getByRole('checkbox', { name: 'Name' }))
+
+    expect(headers()).toEqual(['Email'])
+    expect(localStorage.length).toBe(1)
+  })
+})
+
+describe('ClientTable filter builder', () => {
+  it('filters rows from the filter definitions and shows them as chips', async () => {
+    render(
+      <ClientTable<User>
+        data={users}
+        columns={columns}
+        hideColumnManager
+        filterDefs={[{ id: 'email', label: 'E-mail', type: 'text' }]}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'table.filter' }))
+    fireEvent.change(screen.getByRole('combobox', { name: 'table.filters.operator' }), {
+      target: { value: 'equals' },
+    })
+    fireEvent.change(screen.getByRole('textbox', { name: 'E-mail' }), {
+      target: { value: 'linus@example.com' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'table.filters.apply' }))
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument())
+    expect(screen.getAllByRole('row')).toHaveLength(2)
+    expect(screen.getByRole('cell', { name: 'Linus' })).toBeInTheDocument()
+    expect(screen.getByText('E-mail: linus@example.com')).toBeInTheDocument()
+
+    // The builder opens again with the applied filter
+    fireEvent.click(screen.getByRole('button', { name: 'table.filter' }))
+    expect(screen.getByRole('textbox', { name: 'E-mail' })).toHaveValue('linus@example.com')
+
+    fireEvent.click(screen.getByRole('button', { name: 'table.filters.reset' }))
+    expect(screen.getByRole('textbox', { name: 'E-mail' })).toHaveValue('')
+    // The open sheet hides the table from the accessibility tree
+    expect(screen.getAllByRole('row', { hidden: true })).toHaveLength(3)
+  })
+})
@@ -8,25 +8,42 @@ import {
   type SortingState,
   type ColumnFiltersState,
 } from "@tanstack/react-table";
+import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 import { TableFilterProvider } from "./TableFilterContext";
 import { TableToolbar } from "./TableToolbar";
 import { TablePagination } from "./TablePagination";
 import { ActiveFiltersList, type ActiveFilter } from "./ActiveFiltersList";
 import { FilterSheet } from "./FilterSheet";
+import { FilterBuilder } from "./FilterBuilder";
+import { columnFilterFn, formatColumnFilter } from "./filter-values";
 import { DataTableBase } from "./DataTableBase";
+import { ColumnManager, useColumnLayout } from "./columns";
 import { TableEmptyState } from "./TableEmptyState";
+import {
+  TableBulkActions,
+  defaultGetRowId,
+  getSelectionColumn,
+  useRowSelection,
+} from "./selection";
 import type { ClientTableProps } from "./types";
 
 /**
  * Client-side data table with built-in sorting, filtering, and pagination.
  * Handles all data operations in memory (client-side).
  *
+ * Users can hide, reorder, resize and pin columns from the toolbar; pass a
+ * `tableId` to keep their layout across visits.
+ *
+ * Pass `filterDefs` for a filter panel built from filter definitions, or
+ * `filterContent` for a custom one.
+ *
  * @example
  * ```tsx
  * <ClientTable
  *   data={users}
  *   columns={columns}
+ *   tableId="users"
  *   filterContent={<FilterForm />}
  * />
  * ```
@@ -43,19 +60,44 @@ export function ClientTable<TData>({
   filterContent,
   onApplyFilters,
   onResetFilters,
+  filterDefs,
+  enableRowSelection = false,
+  getRowId = defaultGetRowId,
+  onSelectionChange,
+  bulkActions,
+  tableId,
+  hideColumnManager = false,
 }: ClientTableProps<TData>) {
+  const { t, i18n } = useTranslation("common");
   const [sorting, setSorting] = React.useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([]);
   const [globalFilter, setGlobalFilter] = React.useState("");
 
+  const { rowSelection, selection, update: updateSelection, clear: clearSelection } =
+    useRowSelection<TData>(onSelectionChange);
+
+  const columnLayout = useColumnLayout(tableId);
+
+  const tableColumns = React.useMemo(
+    () => (enableRowSelection ? [getSelectionColumn<TData>(), ...columns] : columns),
+    [enableRowSelection, columns]
+  );
+
   const table = useReactTable({
     data,
-    columns,
+    columns: tableColumns,
+    getRowId,
+    defaultColumn: filterDefs ? { filterFn: columnFilterFn } : undefined,
     state: {
       sorting,
       columnFilters,
       globalFilter,
+      rowSelection,
+      ...columnLayout.state,
     },
+    ...columnLayout.options,
+    enableRowSelection,
+    onRowSelectionChange: (updater) => updateSelection(updater, table.getCoreRowModel().rows),
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
     onGlobalFilterChange: setGlobalFilter,
@@ -72,13 +114,13 @@ export function ClientTable<TData>({
 
   // Convert column filters to ActiveFilter format
   const activeFilters: ActiveFilter[] = columnFilters.map((filter) => {
-    const column = table.getColumn(filter.id);
-    const header = column?.columnDef.header;
-    const label = typeof header === "string" ? header : filter.id;
+    const def = filterDefs?.find((current) => current.id === filter.id);
+    const header = table.getColumn(filter.id)?.columnDef.header;
+    const label = def?.label ?? (typeof header === "string" ? header : filter.id);
     return {
       id: filter.id,
       label,
-      value: String(filter.value),
+      value: formatColumnFilter(filter.value, { def, t, locale: i18n.language }),
     };
   });
 
@@ -109,6 +151,24 @@ export function ClientTable<TData>({
           hideSearch={hideSearch}
           hideFilter={hideFilter}
           hasActiveFilters={columnFilters.length > 0}
+          rightContent={
+            !hideColumnManager && (
+              <ColumnManager table={table} onReset={columnLayout.reset} />
+            )
+          }
+          selectedCount={selection.ids.length}
+          onClearSelection={clearSelection}
+          selectAllCount={totalRows}
+          onSelectAll={() => table.toggleAllRowsSelected(true)}
+          bulkActions={
+            bulkActions && (
+              <TableBulkActions
+                actions={bulkActions}
+                selection={selection}
+                onClearSelection={clearSelection}
+              />
+            )
+          }
         />
 
         {/* Active Filters */}
@@ -144,10 +204,24 @@ export function ClientTable<TData>({
         )}
 
         {/* Filter Sheet */}
-        {filterContent && (
+        {filterContent ? (
           <FilterSheet onApply={onApplyFilters} onReset={handleResetFilters}>
             {filterContent}
           </FilterSheet>
+        ) : (
+          filterDefs && (
+            <FilterSheet>
+              <FilterBuilder
+                filters={filterDefs}
+                value={columnFilters}
+                onApply={(filters) => {
+                  setColumnFilters(filters);
+                  onApplyFilters?.();
+                }}
+                onReset={handleResetFilters}
+              />
+            </FilterSheet>
+          )
         )}
       </div>
     </TableFilterProvider>
@@ -6,6 +6,7 @@ import {
 } from "@tanstack/react-table";
 import { ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ColumnResizer, getPinnedColumnStyles } from "./columns";
 
 export interface DataTableBaseProps<TData> {
   /** TanStack Table instance */
@@ -15,7 +16,8 @@ export interface DataTableBaseProps<TData> {
 }
 
 /**
- * Base table component that renders the actual table markup
+ * Base table component that renders the actual table markup.
+ * Columns get their TanStack width, and pinned columns stick to the edges while scrolling.
  */
 export function DataTableBase<TData>({
   table,
@@ -32,7 +34,10 @@ export function DataTableBase<TData>({
         backgroundColor: "var(--color-surface)",
       }}
     >
-      <table className="w-full caption-bottom text-[length:var(--text-sm)]">
+      <table
+        className="table-fixed caption-bottom text-[length:var(--text-sm)]"
+        style={{ width: table.getTotalSize(), minWidth: "100%" }}
+      >
         <thead>
           {table.getHeaderGroups().map((headerGroup) => (
             <tr
@@ -69,13 +74,16 @@ function TableHeader<TData>({ header }: TableHeaderProps<TData>) {
   return (
     <th
       className={cn(
-        "h-12 px-[length:var(--spacing-4)] text-left align-middle font-[number:var(--font-medium)]",
+        "relative h-12 px-[length:var(--spacing-4)] text-left align-middle font-[number:var(--font-medium)]",
         canSort && "cursor-pointer select-none"
       )}
       style={{
+        width: header.getSize(),
         color: "var(--color-text-secondary)",
         backgroundColor: "var(--color-bg-secondary)",
+        ...getPinnedColumnStyles(header.column, "var(--color-bg-secondary)"),
       }}
+      colSpan={header.colSpan}
       onClick={header.column.getToggleSortingHandler()}
     >
       {header.isPlaceholder ? null : (
@@ -94,6 +102,7 @@ function TableHeader<TData>({ header }: TableHeaderProps<TData>) {
           )}
         </div>
       )}
+      {header.column.getCanResize() && <ColumnResizer header={header} />}
     </th>
   );
 }
@@ -103,6 +112,8 @@ interface TableRowProps<TData> {
 }
 
 function TableRow<TData>({ row }: TableRowProps<TData>) {
+  const background = row.getIsSelected() ? "var(--color-surface-hover)" : "var(--color-surface)";
+
   return (
     <tr
       className={cn(
@@ -115,7 +126,11 @@ function TableRow<TData>({ row }: TableRowProps<TData>) {
         <td
           key={cell.id}
           className="p-[length:var(--spacing-4)] align-middle"
-          style={{ color: "var(--color-text)" }}
+          style={{
+            width: cell.column.getSize(),
+            color: "var(--color-text)",
+            ...getPinnedColumnStyles(cell.column, background),
+          }}
         >
           {flexRender(cell.column.columnDef.cell, cell.getContext())}
         </td>
@@ -0,0 +1,220 @@
+import * as React from "react";
+import { useForm, useFormContext, useWatch } from "react-hook-form";
+import type { ColumnFiltersState } from "@tanstack/react-table";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/overlay/Button";
+import { Form, Input, Select, DatePicker, MultiSelect } from "@/components/form";
+import { cn } from "@/lib/utils";
+import { TableFilterContext } from "./TableFilterContext";
+import { getFilterOperators, isColumnFilterValue } from "./filter-values";
+import type { ColumnFilterDef, ColumnFilterOperator, ColumnFilterValue } from "./types";
+
+export interface FilterBuilderProps {
+  /** Filters to show, in order */
+  filters: ColumnFilterDef[];
+  /** Column filters currently applied; the fields start from them */
+  value: ColumnFiltersState;
+  /** Callback with the column filters to apply; filters without a definition are kept */
+  onApply: (filters: ColumnFiltersState) => void;
+  /** Callback when the fields are reset */
+  onReset?: () => void;
+  /** Additional class names */
+  className?: string;
+}
+
+// Form state of one filter; `to` is the end of a range, `values` the choices of "in"
+interface FilterFormRow {
+  operator: ColumnFilterOperator;
+  value: string;
+  to: string;
+  values: string[];
+}
+
+interface FilterFormValues {
+  filters: FilterFormRow[];
+}
+
+function toFormRow(def: ColumnFilterDef, filter?: unknown): FilterFormRow {
+  const operators = getFilterOperators(def);
+  const row: FilterFormRow = { operator: operators[0], value: "", to: "", values: [] };
+  if (!isColumnFilterValue(filter) || !operators.includes(filter.operator)) return row;
+
+  switch (filter.operator) {
+    case "in":
+      return { ...row, operator: "in", values: filter.value };
+    case "between":
+      return {
+        ...row,
+        operator: "between",
+        value: String(filter.value[0] ?? ""),
+        to: String(filter.value[1] ?? ""),
+      };
+    default:
+      return { ...row, operator: filter.operator, value: String(filter.value) };
+  }
+}
+
+// Typed filter value of a row, or undefined while the row is empty
+function fromFormRow(def: ColumnFilterDef, row: FilterFormRow): ColumnFilterValue | undefined {
+  const parse = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    if (def.type !== "number") return trimmed;
+    const number = Number(trimmed);
+    return Number.isFinite(number) ? number : null;
+  };
+
+  switch (row.operator) {
+    case "in":
+      return row.values.length > 0 ? { operator: "in", value: row.values } : undefined;
+    case "between": {
+      const from = parse(row.value);
+      const to = parse(row.to);
+      return from === null && to === null ? undefined : { operator: "between", value: [from, to] };
+    }
+    case "equals": {
+      const value = parse(row.value);
+      return value === null ? undefined : { operator: "equals", value };
+    }
+    default: {
+      const value = parse(row.value);
+      return value === null ? undefined : { operator: row.operator, value: String(value) };
+    }
+  }
+}
+
+/**
+ * Operator picker and value inputs of one filter.
+ */
+function FilterField({ def, index }: { def: ColumnFilterDef; index: number }) {
+  const { t } = useTranslation("common");
+  const { control } = useFormContext<FilterFormValues>();
+  const operator = useWatch({ control, name: `filters.${index}.operator` });
+  const operators = getFilterOperators(def);
+  const name = `filters.${index}` as const;
+
+  const renderInput = (field: "value" | "to", label: string, placeholder?: string) => {
+    if (def.type === "date") {
+      return <DatePicker name={`${name}.${field}`} aria-label={label} />;
+    }
+    return (
+      <Input
+        name={`${name}.${field}`}
+        type={def.type === "number" ? "number" : "text"}
+        placeholder={placeholder}
+        aria-label={label}
+      />
+    );
+  };
+
+  const renderValue = () => {
+    if (def.type === "select") {
+      return operator === "in" ? (
+        <MultiSelect
+          name={`${name}.values`}
+          options={def.options ?? []}
+          placeholder={def.placeholder}
+        />
+      ) : (
+        <Select
+          name={`${name}.value`}
+          options={[{ value: "", label: t("table.filters.any") }, ...(def.options ?? [])]}
+          aria-label={def.label}
+        />
+      );
+    }
+    if (operator === "between") {
+      return (
+        <div className="grid grid-cols-2 gap-[length:var(--spacing-2)]">
+          {renderInput("value", t("table.filters.rangeFrom", { column: def.label }))}
+          {renderInput("to", t("table.filters.rangeTo", { column: def.label }))}
+        </div>
+      );
+    }
+    return renderInput("value", def.label, def.placeholder);
+  };
+
+  return (
+    <fieldset className="flex flex-col gap-[length:var(--spacing-2)]">
+      <legend
+        className="mb-[length:var(--spacing-2)] text-[length:var(--text-sm)] font-[number:var(--font-medium)]"
+        style={{ color: "var(--color-text)" }}
+      >
+        {def.label}
+      </legend>
+      {operators.length > 1 && (
+        <Select
+          name={`${name}.operator`}
+          options={operators.map((value) => ({
+            value,
+            label: t(`table.filters.operators.${value}`),
+          }))}
+          aria-label={t("table.filters.operator", { column: def.label })}
+        />
+      )}
+      {renderValue()}
+    </fieldset>
+  );
+}
+
+/**
+ * Filter form built from column filter definitions. Each filter gets an
+ * operator picker (equals, contains, in, between, before, after) and inputs
+ * for its type, and applies typed `ColumnFilterValue`s to the column filters.
+ * Inside a FilterSheet, applying also closes the sheet.
+ *
+ * @example
+ * ```tsx
+ * <FilterBuilder
+ *   filters={[
+ *     { id: "status", label: "Status", type: "select", options: statusOptions },
+ *     { id: "price", label: "Price", type: "number" },
+ *   ]}
+ *   value={columnFilters}
+ *   onApply={setColumnFilters}
+ * />
+ * ```
+ */
+export function FilterBuilder({ filters, value, onApply, onReset, className }: FilterBuilderProps) {
+  const { t } = useTranslation("common");
+  const filterPanel = React.useContext(TableFilterContext);
+
+  const getValues = (columnFilters: ColumnFiltersState): FilterFormValues => ({
+    filters: filters.map((def) =>
+      toFormRow(def, columnFilters.find((filter) => filter.id === def.id)?.value)
+    ),
+  });
+
+  const form = useForm<FilterFormValues>({ defaultValues: getValues(value) });
+
+  const handleApply = ({ filters: rows }: FilterFormValues) => {
+    const built = filters.flatMap((def, index) => {
+      const filterValue = fromFormRow(def, rows[index]);
+      return filterValue ? [{ id: def.id, value: filterValue }] : [];
+    });
+    const others = value.filter((filter) => !filters.some((def) => def.id === filter.id));
+    onApply([...others, ...built]);
+    filterPanel?.closeFilter();
+  };
+
+  const handleReset = () => {
+    form.reset(getValues([]));
+    onReset?.();
+  };
+
+  return (
+    <Form form={form} onSubmit={handleApply} className={cn("gap-[length:var(--spacing-6)]", className)}>
+      {filters.map((def, index) => (
+        <FilterField key={def.id} def={def} index={index} />
+      ))}
+      <div className="flex items-center justify-end gap-[length:var(--spacing-2)]">
+        <Button type="button" variant="outline" onClick={handleReset}>
+          {t("table.filters.reset")}
+        </Button>
+        <Button type="submit">{t("table.filters.apply")}</Button>
+      </div>
+    </Form>
+  );
+}
+
+FilterBuilder.displayName = "FilterBuilder";
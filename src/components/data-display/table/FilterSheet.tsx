@@ -90,27 +90,29 @@ export function FilterSheet({
             {children}
           </div>
 
-          {/* Footer */}
-          <div
-            className="flex items-center justify-end gap-[length:var(--spacing-2)] p-[length:var(--spacing-6)] border-t"
-            style={{ borderColor: "var(--color-border)" }}
-          >
-            {onReset && (
-              <Button variant="outline" onClick={onReset}>
-                {t("table.filters.reset")}
-              </Button>
-            )}
-            {onApply && (
-              <Button
-                onClick={() => {
-                  onApply();
-                  closeFilter();
-                }}
-              >
-                {t("table.filters.apply")}
-              </Button>
-            )}
-          </div>
+          {/* Footer, left out when the content brings its own buttons */}
+          {(onReset || onApply) && (
+            <div
+              className="flex items-center justify-end gap-[length:var(--spacing-2)] p-[length:var(--spacing-6)] border-t"
+              style={{ borderColor: "var(--color-border)" }}
+            >
+              {onReset && (
+                <Button variant="outline" onClick={onReset}>
+                  {t("table.filters.reset")}
+                </Button>
+              )}
+              {onApply && (
+                <Button
+                  onClick={() => {
+                    onApply();
+                    closeFilter();
+                  }}
+                >
+                  {t("table.filters.apply")}
+                </Button>
+              )}
+            </div>
+          )}
         </DialogPrimitive.Content>
       </DialogPrimitive.Portal>
     </DialogPrimitive.Root>
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom'
+import type { ColumnDef } from '@tanstack/react-table'
+import { ServerTable } from './ServerTable'
+import { createLocalTableViewStorage } from './view-storage'
+import type { ServerTableState, TableBulkAction, TableViewState } from './types'
+
+interface Product {
+  id: number
+  name: string
+}
+
+const columns: ColumnDef<Product, unknown>[] = [
+  { accessorKey: 'name', header: 'Name' },
+]
+
+const page1: Product[] = [
+  { id: 1, name: 'Keyboard' },
+  { id: 2, name: 'Mouse' },
+]
+
+const page2: Product[] = [
+  { id: 3, name: 'Monitor' },
+  { id: 4, name: 'Webcam' },
+]
+
+function renderTable(props: Partial<React.ComponentProps<typeof ServerTable<Product>>> = {}) {
+  const element = (data: Product[]) => (
+    <ServerTable<Product>
+      data={data}
+      columns={columns}
+      pageCount={2}
+      totalRows={4}
+      onStateChange={() => {}}
+      hideFilter
+      enableRowSelection
+      {...props}
+    />
+  )
+  const view = render(element(page1))
+  return { ...view, showPage: (data: Product[]) => view.rerender(element(data)) }
+}
+
+describe('ServerTable row selection', () => {
+  it('adds a checkbox column with a select-page header', () => {
+    renderTable()
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'table.selection.selectPage' }))
+
+    const rows = screen.getAllByRole('checkbox', { name: 'table.selection.selectRow' })
+    expect(rows).toHaveLength(2)
+    rows.forEach((checkbox) => expect(checkbox).toBeChecked())
+    expect(screen.getByRole('toolbar', { name: 'table.selection.actions' })).toBeInTheDocument()
+    // The search stays available next to the bulk actions
+    expect(screen.getByPlaceholderText('table.search')).toBeInTheDocument()
+  })
+
+  it('keeps rows selected on other pages', () => {
+    const onSelectionChange = vi.fn()
+    const { showPage } = renderTable({ onSelectionChange })
+
+    fireEvent.click(screen.getAllByRole('checkbox', { name: 'table.selection.selectRow' })[0])
+    showPage(page2)
+    fireEvent.click(screen.getAllByRole('checkbox', { name: 'table.selection.selectRow' })[1])
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith({
+      ids: ['1', '4'],
+      rows: [page1[0], page2[1]],
+    })
+
+    showPage(page1)
+    const [first, second] = screen.getAllByRole('checkbox', { name: 'table.selection.selectRow' })
+    expect(first).toBeChecked()
+    expect(second).not.toBeChecked()
+  })
+
+  it('passes the selection to bulk actions and clears it', () => {
+    const onClick = vi.fn<TableBulkAction<Product>['onClick']>((_selection, clear) => clear())
+    renderTable({ bulkActions: [{ id: 'export', label: 'Export', onClick }] })
+
+    fireEvent.click(screen.getAllByRole('checkbox', { name: 'table.selection.selectRow' })[1])
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+
+    expect(onClick).toHaveBeenCalledWith({ ids: ['2'], rows: [page1[1]] }, expect.any(Function))
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument()
+    screen
+      .getAllByRole('checkbox', { name: 'table.selection.selectRow' })
+      .forEach((checkbox) => expect(checkbox).not.toBeChecked())
+  })
+})
+
+describe('ServerTable saved views', () => {
+  const viewState: TableViewState = {
+    sorting: [{ id: 'name', desc: true }],
+    columnFilters: [],
+    globalFilter: 'mo',
+    pageSize: 20,
+    columnLayout: {
+      visibility: { name: false },
+      order: [],
+      sizing: {},
+      pinning: { left: [], right: [] },
+    },
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  function renderWithViews(onStateChange: (state: ServerTableState) => void) {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <ServerTable<Product>
+          data={page1}
+          columns={[...columns, { accessorKey: 'id', header: 'Id' }]}
+          pageCount={2}
+          onStateChange={onStateChange}
+          hideFilter
+          tableId="products"
+          viewStorage={createLocalTableViewStorage()}
+        />
+      </QueryClientProvider>
+    )
+  }
+
+  it('applies the default view when the table opens', async () => {
+    const storage = createLocalTableViewStorage()
+    const view = await storage.save('products', { name: 'Monitors', state: viewState })
+    await storage.setDefault('products', view.id)
+    const onStateChange = vi.fn()
+
+    renderWithViews(onStateChange)
+
+    await waitFor(() =>
+      expect(onStateChange).toHaveBeenLastCalledWith({
+        pagination: { pageIndex: 0, pageSize: 20 },
+        sorting: [{ id: 'name', desc: true }],
+        globalFilter: 'mo',
+        columnFilters: [],
+      })
+    )
+    expect(screen.getByRole('button', { name: 'Monitors' })).toBeInTheDocument()
+    expect(screen.queryByRole('columnheader', { name: /^Name/ })).not.toBeInTheDocument()
+  })
+
+  it('saves the current state as a named view', async () => {
+    renderWithViews(() => {})
+
+    fireEvent.click(screen.getByRole('button', { name: 'table.views.title' }))
+    fireEvent.change(await screen.findByRole('textbox', { name: 'table.views.namePlaceholder' }), {
+      target: { value: 'My view' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'table.views.save' }))
+
+    // Listed as the active view and shown on the switcher
+    expect(await screen.findByRole('button', { name: 'My view', current: true })).toBeInTheDocument()
+    expect(screen.getAllByRole('button', { name: 'My view' })).toHaveLength(2)
+    const [saved] = await createLocalTableViewStorage().list('products')
+    expect(saved).toMatchObject({
+      name: 'My view',
+      isDefault: false,
+      state: { pageSize: 10, globalFilter: '', sorting: [] },
+    })
+  })
+})
+
+describe('ServerTable URL sync', () => {
+  function Location() {
+    const location = useLocation()
+    const navigate = useNavigate()
+    return (
+      <>
+        <output data-testid="search">{location.search}</output>
+        <button onClick={() => navigate(-1)}>Back</button>
+      </>
+    )
+  }
+
+  function renderSynced(url: string, onStateChange: (state: ServerTableState) => void) {
+    return render(
+      <MemoryRouter initialEntries={[url]}>
+        <ServerTable<Product>
+          data={page1}
+          columns={columns}
+          pageCount={5}
+          onStateChange={onStateChange}
+          hideFilter
+          hideColumnManager
+          syncWithUrl={{ prefix: 'products' }}
+        />
+        <Location />
+      </MemoryRouter>
+    )
+  }
+
+  it('starts from the state in the URL and reports it', async () => {
+    const onStateChange = vi.fn()
+    renderSynced('/?tab=1&products.page=3&products.sort=-name&products.q=mo', onStateChange)
+
+    await waitFor(() =>
+      expect(onStateChange).toHaveBeenCalledWith({
+        pagination: { pageIndex: 2, pageSize: 10 },
+        sorting: [{ id: 'name', desc: true }],
+        globalFilter: 'mo',
+        columnFilters: [],
+      })
+    )
+    expect(screen.getByRole('textbox')).toHaveValue('mo')
+    expect(screen.getByTestId('search')).toHaveTextContent(
+      '?tab=1&products.page=3&products.sort=-name&products.q=mo'
+    )
+  })
+
+  it('writes changes to the URL and follows back navigation', async () => {
+    const onStateChange = vi.fn()
+    renderSynced('/?tab=1', onStateChange)
+
+    fireEvent.click(screen.getByRole('button', { name: 'table.pagination.next' }))
+    await waitFor(() =>
+      expect(screen.getByTestId('search')).toHaveTextContent('?tab=1&products.page=2')
+    )
+
+    fireEvent.click(screen.getByRole('columnheader', { name: /^Name/ }))
+    await waitFor(() =>
+      expect(screen.getByTestId('search')).toHaveTextContent(
+        '?tab=1&products.page=2&products.sort=name'
+      )
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back' }))
+    await waitFor(() =>
+      expect(onStateChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pagination: { pageIndex: 1, pageSize: 10 }, sorting: [] })
+      )
+    )
+    expect(screen.getByTestId('search')).toHaveTextContent('?tab=1&products.page=2')
+  })
+})
@@ -6,6 +6,8 @@ import {
   type PaginationState,
   type ColumnFiltersState,
 } from "@tanstack/react-table";
+import { useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 import { useDebounce } from "@/hooks/useDebounce";
 import { TableFilterProvider } from "./TableFilterContext";
@@ -13,10 +15,21 @@ import { TableToolbar } from "./TableToolbar";
 import { TablePagination } from "./TablePagination";
 import { ActiveFiltersList, type ActiveFilter } from "./ActiveFiltersList";
 import { FilterSheet } from "./FilterSheet";
+import { FilterBuilder } from "./FilterBuilder";
+import { formatColumnFilter } from "./filter-values";
 import { DataTableBase } from "./DataTableBase";
+import { ColumnManager, useColumnLayout } from "./columns";
+import { TableViewSwitcher } from "./views";
+import { parseTableSearchParams, writeTableSearchParams, type TableUrlOptions } from "./url-state";
 import { TableSkeleton } from "./TableSkeleton";
 import { TableEmptyState } from "./TableEmptyState";
-import type { ServerTableProps, ServerTableState } from "./types";
+import {
+  TableBulkActions,
+  defaultGetRowId,
+  getSelectionColumn,
+  useRowSelection,
+} from "./selection";
+import type { ServerTableProps, ServerTableState, TableViewState } from "./types";
 
 /**
  * Server-side data table with external state management.
@@ -25,6 +38,22 @@ import type { ServerTableProps, ServerTableState } from "./types";
  * The component uses debouncing (300ms) for search/filter operations
  * to prevent rapid API calls while typing.
  *
+ * With `enableRowSelection`, rows are selected by id (`getRowId`), so rows
+ * selected on one page stay selected while paging, searching and filtering.
+ *
+ * Users can hide, reorder, resize and pin columns from the toolbar; pass a
+ * `tableId` to keep their layout across visits.
+ *
+ * With `tableId` and `viewStorage`, users can save the sorting, filters,
+ * search, page size and column layout as named views and pick a default view
+ * that is applied whenever the table opens.
+ *
+ * Pass `filterDefs` for a filter panel built from filter definitions; the
+ * filters reach `onStateChange` as typed `ColumnFilterValue`s.
+ *
+ * With `syncWithUrl`, the state is kept in the query string (`?page=2&sort=-createdAt&q=gold`),
+ * hydrated from it on load and followed through back/forward navigation.
+ *
  * @example
  * ```tsx
  * const [tableState, setTableState] = useState(initialState);
@@ -40,7 +69,105 @@ import type { ServerTableProps, ServerTableState } from "./types";
  * />
  * ```
  */
-export function ServerTable<TData>({
+export function ServerTable<TData>(props: ServerTableProps<TData>) {
+  return props.syncWithUrl ? (
+    <UrlSyncedServerTable<TData> {...props} />
+  ) : (
+    <ServerTableContent<TData> {...props} />
+  );
+}
+
+/**
+ * ServerTable whose state is kept in the query string. The URL's state wins
+ * over `initialState` on load, and back/forward navigation applies the state
+ * of the URL it lands on. Needs a router.
+ */
+function UrlSyncedServerTable<TData>({
+  syncWithUrl,
+  initialState,
+  initialPageSize = 10,
+  onStateChange,
+  ...props
+}: ServerTableProps<TData>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlOptions: TableUrlOptions = {
+    prefix: typeof syncWithUrl === "object" ? syncWithUrl.prefix : undefined,
+    defaultPageSize: initialPageSize,
+  };
+
+  // State a URL stands for; a URL without the table's params means `initialState`
+  const readUrlState = (params: URLSearchParams): ServerTableState => {
+    const urlState = parseTableSearchParams(params, urlOptions);
+    const base = Object.keys(urlState).length > 0 ? {} : initialState;
+    const firstPage = { pageIndex: 0, pageSize: initialPageSize };
+    return {
+      pagination: urlState.pagination ?? base?.pagination ?? firstPage,
+      sorting: urlState.sorting ?? base?.sorting ?? [],
+      globalFilter: urlState.globalFilter ?? base?.globalFilter ?? "",
+      columnFilters: urlState.columnFilters ?? base?.columnFilters ?? [],
+    };
+  };
+  const toKey = (state: ServerTableState) =>
+    writeTableSearchParams(new URLSearchParams(), state, urlOptions).toString();
+
+  const [hasUrlState] = React.useState(
+    () => Object.keys(parseTableSearchParams(searchParams, urlOptions)).length > 0
+  );
+  const [initialUrlState] = React.useState(() => readUrlState(searchParams));
+
+  // Apply the URL's state to the table when it changes through navigation.
+  // The URL catches up with a write a render later, so compare with the last write
+  const urlKey = toKey(readUrlState(searchParams));
+  const [seenUrlKey, setSeenUrlKey] = React.useState(urlKey);
+  const [writtenKey, setWrittenKey] = React.useState(urlKey);
+  const [externalState, setExternalState] = React.useState<ServerTableState>();
+  if (urlKey !== seenUrlKey) {
+    setSeenUrlKey(urlKey);
+    if (urlKey !== writtenKey) {
+      setWrittenKey(urlKey);
+      setExternalState(readUrlState(searchParams));
+    }
+  }
+
+  // Latest values for the stable state callback below. A layout effect, so they
+  // are current before the table's own effects report a change
+  const latest = React.useRef({ urlKey, toKey, onStateChange, urlOptions, setSearchParams });
+  React.useLayoutEffect(() => {
+    latest.current = { urlKey, toKey, onStateChange, urlOptions, setSearchParams };
+  });
+
+  const handleStateChange = React.useCallback((state: ServerTableState) => {
+    const { urlKey, toKey, onStateChange, urlOptions, setSearchParams } = latest.current;
+    const key = toKey(state);
+    if (key !== urlKey) {
+      setWrittenKey(key);
+      setSearchParams((params) => writeTableSearchParams(params, state, urlOptions), {
+        preventScrollReset: true,
+      });
+    }
+    onStateChange(state);
+  }, []);
+
+  return (
+    <ServerTableContent<TData>
+      {...props}
+      initialState={initialUrlState}
+      initialPageSize={initialPageSize}
+      onStateChange={handleStateChange}
+      externalState={externalState}
+      notifyOnMount={hasUrlState}
+    />
+  );
+}
+
+interface ServerTableContentProps<TData> extends ServerTableProps<TData> {
+  /** State to switch to, e.g. after back/forward navigation; applied when the object changes */
+  externalState?: ServerTableState;
+  /** Report the initial state through `onStateChange`, for state the parent doesn't know yet */
+  notifyOnMount?: boolean;
+}
+
+function ServerTableContent<TData>({
   data,
   columns,
   pageCount,
@@ -57,7 +184,19 @@ export function ServerTable<TData>({
   filterContent,
   onApplyFilters,
   onResetFilters,
-}: ServerTableProps<TData>) {
+  filterDefs,
+  enableRowSelection = false,
+  getRowId = defaultGetRowId,
+  onSelectionChange,
+  bulkActions,
+  tableId,
+  hideColumnManager = false,
+  viewStorage,
+  externalState,
+  notifyOnMount = false,
+}: ServerTableContentProps<TData>) {
+  const { t, i18n } = useTranslation("common");
+
   // Internal state for immediate UI updates
   const [sorting, setSorting] = React.useState<SortingState>(
     initialState?.sorting ?? []
@@ -72,47 +211,86 @@ export function ServerTable<TData>({
     initialState?.globalFilter ?? ""
   );
 
-  // Debounced values for search and filters
+  // Search and filters applied at once (from a view or the URL), not typed
+  const [appliedFilters, setAppliedFilters] =
+    React.useState<Pick<ServerTableState, "globalFilter" | "columnFilters">>();
+
+  const applyState = (state: ServerTableState) => {
+    setSorting(state.sorting);
+    setColumnFilters(state.columnFilters);
+    setGlobalFilter(state.globalFilter);
+    setPagination(state.pagination);
+    setAppliedFilters({ globalFilter: state.globalFilter, columnFilters: state.columnFilters });
+  };
+
+  const [appliedExternalState, setAppliedExternalState] = React.useState(externalState);
+  if (externalState !== appliedExternalState) {
+    setAppliedExternalState(externalState);
+    if (externalState) applyState(externalState);
+  }
+
+  // Debounced values for search and filters; applied values skip the debounce
   const debouncedGlobalFilter = useDebounce(globalFilter, 300);
   const debouncedColumnFilters = useDebounce(columnFilters, 300);
+  const notifiedGlobalFilter =
+    globalFilter === appliedFilters?.globalFilter ? globalFilter : debouncedGlobalFilter;
+  const notifiedColumnFilters =
+    columnFilters === appliedFilters?.columnFilters ? columnFilters : debouncedColumnFilters;
 
   // Track if this is the initial render
   const isInitialMount = React.useRef(true);
 
   // Notify parent of state changes (debounced for search/filters)
   React.useEffect(() => {
-    // Skip initial mount
+    // Skip initial mount, unless the parent doesn't know the initial state
     if (isInitialMount.current) {
       isInitialMount.current = false;
-      return;
+      if (!notifyOnMount) return;
     }
 
     const newState: ServerTableState = {
       pagination,
       sorting,
-      globalFilter: debouncedGlobalFilter,
-      columnFilters: debouncedColumnFilters,
+      globalFilter: notifiedGlobalFilter,
+      columnFilters: notifiedColumnFilters,
     };
 
     onStateChange(newState);
   }, [
     pagination,
     sorting,
-    debouncedGlobalFilter,
-    debouncedColumnFilters,
+    notifiedGlobalFilter,
+    notifiedColumnFilters,
     onStateChange,
+    notifyOnMount,
   ]);
 
+  const { rowSelection, selection, update: updateSelection, clear: clearSelection } =
+    useRowSelection<TData>(onSelectionChange);
+
+  const columnLayout = useColumnLayout(tableId);
+
+  const tableColumns = React.useMemo(
+    () => (enableRowSelection ? [getSelectionColumn<TData>(), ...columns] : columns),
+    [enableRowSelection, columns]
+  );
+
   const table = useReactTable({
     data,
-    columns,
+    columns: tableColumns,
     pageCount,
+    getRowId,
     state: {
       sorting,
       pagination,
       columnFilters,
       globalFilter,
+      rowSelection,
+      ...columnLayout.state,
     },
+    ...columnLayout.options,
+    enableRowSelection,
+    onRowSelectionChange: (updater) => updateSelection(updater, table.getCoreRowModel().rows),
     onSortingChange: setSorting,
     onPaginationChange: setPagination,
     onColumnFiltersChange: setColumnFilters,
@@ -123,15 +301,33 @@ export function ServerTable<TData>({
     manualFiltering: true,
   });
 
+  const getViewState = (): TableViewState => ({
+    sorting,
+    columnFilters,
+    globalFilter,
+    pageSize: pagination.pageSize,
+    columnLayout: columnLayout.layout,
+  });
+
+  const applyView = (view: TableViewState) => {
+    applyState({
+      sorting: view.sorting,
+      columnFilters: view.columnFilters,
+      globalFilter: view.globalFilter,
+      pagination: { pageIndex: 0, pageSize: view.pageSize },
+    });
+    columnLayout.apply(view.columnLayout);
+  };
+
   // Convert column filters to ActiveFilter format
   const activeFilters: ActiveFilter[] = columnFilters.map((filter) => {
-    const column = table.getColumn(filter.id);
-    const header = column?.columnDef.header;
-    const label = typeof header === "string" ? header : filter.id;
+    const def = filterDefs?.find((current) => current.id === filter.id);
+    const header = table.getColumn(filter.id)?.columnDef.header;
+    const label = def?.label ?? (typeof header === "string" ? header : filter.id);
     return {
       id: filter.id,
       label,
-      value: String(filter.value),
+      value: formatColumnFilter(filter.value, { def, t, locale: i18n.language }),
     };
   });
 
@@ -149,6 +345,17 @@ export function ServerTable<TData>({
     onResetFilters?.();
   };
 
+  // Filters from the builder are applied at once, from the first page
+  const handleApplyFilters = (filters: ColumnFiltersState) => {
+    applyState({
+      sorting,
+      globalFilter,
+      columnFilters: filters,
+      pagination: { ...pagination, pageIndex: 0 },
+    });
+    onApplyFilters?.();
+  };
+
   // Use totalRows from props if provided, otherwise estimate from pageCount
   const displayTotalRows = totalRows ?? pageCount * pagination.pageSize;
 
@@ -163,6 +370,34 @@ export function ServerTable<TData>({
           hideSearch={hideSearch}
           hideFilter={hideFilter}
           hasActiveFilters={columnFilters.length > 0}
+          rightContent={
+            <>
+              {tableId && viewStorage && (
+                <TableViewSwitcher
+                  tableId={tableId}
+                  storage={viewStorage}
+                  getCurrentState={getViewState}
+                  onApplyView={applyView}
+                  // A shared link's state wins over the default view
+                  applyDefaultView={!notifyOnMount}
+                />
+              )}
+              {!hideColumnManager && (
+                <ColumnManager table={table} onReset={columnLayout.reset} />
+              )}
+            </>
+          }
+          selectedCount={selection.ids.length}
+          onClearSelection={clearSelection}
+          bulkActions={
+            bulkActions && (
+              <TableBulkActions
+                actions={bulkActions}
+                selection={selection}
+                onClearSelection={clearSelection}
+              />
+            )
+          }
         />
 
         {/* Active Filters */}
@@ -181,7 +416,10 @@ export function ServerTable<TData>({
               backgroundColor: "var(--color-surface)",
             }}
           >
-            <TableSkeleton rows={pagination.pageSize} columns={columns.length} />
+            <TableSkeleton
+              rows={pagination.pageSize}
+              columns={table.getVisibleLeafColumns().length}
+            />
           </div>
         ) : data.length > 0 ? (
           <DataTableBase table={table} />
@@ -224,10 +462,21 @@ export function ServerTable<TData>({
         )}
 
         {/* Filter Sheet */}
-        {filterContent && (
+        {filterContent ? (
           <FilterSheet onApply={onApplyFilters} onReset={handleResetFilters}>
             {filterContent}
           </FilterSheet>
+        ) : (
+          filterDefs && (
+            <FilterSheet>
+              <FilterBuilder
+                filters={filterDefs}
+                value={columnFilters}
+                onApply={handleApplyFilters}
+                onReset={handleResetFilters}
+              />
+            </FilterSheet>
+          )
         )}
       </div>
     </TableFilterProvider>
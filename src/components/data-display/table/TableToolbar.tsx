@@ -20,12 +20,23 @@ export interface TableToolbarProps {
   hasActiveFilters?: boolean;
   /** Additional content to render on the right side */
   rightContent?: React.ReactNode;
+  /** Number of selected rows; while above 0 the bulk-action bar is shown next to the search */
+  selectedCount?: number;
+  /** Bulk-action buttons shown in the bar */
+  bulkActions?: React.ReactNode;
+  /** Callback to clear the selection */
+  onClearSelection?: () => void;
+  /** Number of rows "select all" would select; the link is shown while more rows are available */
+  selectAllCount?: number;
+  /** Callback to select every matching row, not just the current page */
+  onSelectAll?: () => void;
   /** Additional class names */
   className?: string;
 }
 
 /**
- * Table toolbar component with search input and filter button
+ * Table toolbar component with search input and filter button.
+ * While rows are selected it shows the number selected and the bulk actions next to the search.
  */
 export function TableToolbar({
   searchValue = "",
@@ -35,6 +46,11 @@ export function TableToolbar({
   hideFilter = false,
   hasActiveFilters = false,
   rightContent,
+  selectedCount = 0,
+  bulkActions,
+  onClearSelection,
+  selectAllCount,
+  onSelectAll,
   className,
 }: TableToolbarProps) {
   const { t } = useTranslation("common");
@@ -48,8 +64,8 @@ export function TableToolbar({
         className
       )}
     >
-      {/* Left side - Search */}
-      <div className="flex items-center gap-[length:var(--spacing-2)] flex-1">
+      {/* Left side - Search, plus the bulk actions while rows are selected */}
+      <div className="flex flex-wrap items-center gap-[length:var(--spacing-2)] flex-1">
         {!hideSearch && (
           <div className="relative max-w-sm w-full">
             <Search
@@ -75,6 +91,31 @@ export function TableToolbar({
             />
           </div>
         )}
+        {selectedCount > 0 && (
+          <div
+            role="toolbar"
+            aria-label={t("table.selection.actions")}
+            className="flex flex-wrap items-center gap-[length:var(--spacing-2)]"
+          >
+            <span
+              className="text-[length:var(--text-sm)] font-[number:var(--font-medium)]"
+              style={{ color: "var(--color-text)" }}
+            >
+              {t("table.selection.selected", { count: selectedCount })}
+            </span>
+            {onSelectAll && selectAllCount !== undefined && selectAllCount > selectedCount && (
+              <Button variant="link" size="sm" onClick={onSelectAll}>
+                {t("table.selection.selectAll", { count: selectAllCount })}
+              </Button>
+            )}
+            {bulkActions}
+            {onClearSelection && (
+              <Button variant="ghost" size="sm" onClick={onClearSelection}>
+                {t("table.selection.clear")}
+              </Button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Right side - Filter button and additional content */}
@@ -0,0 +1,348 @@
+import * as React from "react";
+import {
+  functionalUpdate,
+  type Column,
+  type ColumnOrderState,
+  type ColumnPinningState,
+  type ColumnSizingState,
+  type Header,
+  type Table,
+  type Updater,
+  type VisibilityState,
+} from "@tanstack/react-table";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ChevronDown,
+  ChevronUp,
+  Columns3,
+  GripVertical,
+} from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/overlay/Button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/overlay/Popover";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { cn } from "@/lib/utils";
+import { SELECTION_COLUMN_ID } from "./selection";
+import type { TableColumnLayout } from "./types";
+
+/**
+ * Layout of a table nobody has customised: every column visible, in definition order.
+ */
+const DEFAULT_COLUMN_LAYOUT: TableColumnLayout = {
+  visibility: {},
+  order: [],
+  sizing: {},
+  pinning: { left: [], right: [] },
+};
+
+/**
+ * Pixels a column grows or shrinks per arrow key press; Shift multiplies it by 5.
+ */
+const RESIZE_STEP = 10;
+
+/**
+ * localStorage key of a table's column layout.
+ */
+export function getColumnLayoutStorageKey(tableId: string) {
+  return `table-columns:${tableId}`;
+}
+
+/**
+ * Column layout state for a TanStack table. With a `tableId` the layout is kept
+ * in localStorage, otherwise it lasts as long as the table is mounted.
+ *
+ * The selection column stays first and, once other columns are pinned left,
+ * pinned with them; it is never stored.
+ *
+ * @param tableId - Unique id of the table, see `BaseTableProps.tableId`
+ * @returns `state` and `options` to spread into useReactTable, the current
+ *   `layout`, `apply` to replace it (e.g. from a saved view) and `reset`
+ */
+export function useColumnLayout(tableId?: string) {
+  // Without a table id there is no key to store under, so nothing touches localStorage
+  const [storedLayout, setLayout, reset] = useLocalStorage(
+    tableId ? getColumnLayoutStorageKey(tableId) : null,
+    DEFAULT_COLUMN_LAYOUT
+  );
+
+  // Stored layouts from older versions may miss some fields
+  const layout: TableColumnLayout = { ...DEFAULT_COLUMN_LAYOUT, ...storedLayout };
+
+  const withoutSelection = (ids: string[] = []) => ids.filter((id) => id !== SELECTION_COLUMN_ID);
+  const leftPinned = withoutSelection(layout.pinning.left);
+
+  const state = {
+    columnVisibility: layout.visibility,
+    columnOrder: [SELECTION_COLUMN_ID, ...layout.order],
+    columnSizing: layout.sizing,
+    columnPinning: {
+      left: leftPinned.length > 0 ? [SELECTION_COLUMN_ID, ...leftPinned] : [],
+      right: layout.pinning.right ?? [],
+    },
+  };
+
+  const options = {
+    columnResizeMode: "onEnd" as const,
+    onColumnVisibilityChange: (updater: Updater<VisibilityState>) =>
+      setLayout({ ...layout, visibility: functionalUpdate(updater, state.columnVisibility) }),
+    onColumnOrderChange: (updater: Updater<ColumnOrderState>) =>
+      setLayout({
+        ...layout,
+        order: withoutSelection(functionalUpdate(updater, state.columnOrder)),
+      }),
+    onColumnSizingChange: (updater: Updater<ColumnSizingState>) =>
+      setLayout({ ...layout, sizing: functionalUpdate(updater, state.columnSizing) }),
+    onColumnPinningChange: (updater: Updater<ColumnPinningState>) => {
+      const pinning = functionalUpdate(updater, state.columnPinning);
+      setLayout({
+        ...layout,
+        pinning: { left: withoutSelection(pinning.left), right: pinning.right ?? [] },
+      });
+    },
+  };
+
+  return { state, options, layout, apply: setLayout, reset };
+}
+
+/**
+ * Name of a column for menus and labels: its header when that is a string, otherwise its id.
+ */
+export function getColumnLabel<TData>(column: Column<TData, unknown>) {
+  const header = column.columnDef.header;
+  return typeof header === "string" ? header : column.id;
+}
+
+/**
+ * Sticky positioning for a pinned column's header and cells.
+ *
+ * @param background - Background of the cell, so scrolled content doesn't show through
+ */
+export function getPinnedColumnStyles<TData>(
+  column: Column<TData, unknown>,
+  background: string
+): React.CSSProperties {
+  const pinned = column.getIsPinned();
+  if (!pinned) return {};
+
+  return {
+    position: "sticky",
+    left: pinned === "left" ? column.getStart("left") : undefined,
+    right: pinned === "right" ? column.getAfter("right") : undefined,
+    zIndex: 1,
+    backgroundColor: background,
+    boxShadow: column.getIsLastColumn("left")
+      ? "inset -1px 0 0 var(--color-border)"
+      : column.getIsFirstColumn("right")
+        ? "inset 1px 0 0 var(--color-border)"
+        : undefined,
+  };
+}
+
+/**
+ * Resize handle on the right edge of a header cell. Drag it, or focus it and
+ * use the arrow keys; double-click restores the default width.
+ */
+export function ColumnResizer<TData>({ header }: { header: Header<TData, unknown> }) {
+  const { t } = useTranslation("common");
+  const { column } = header;
+  const { table } = header.getContext();
+  const isResizing = column.getIsResizing();
+  const deltaOffset = table.getState().columnSizingInfo.deltaOffset ?? 0;
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const step = event.shiftKey ? RESIZE_STEP * 5 : RESIZE_STEP;
+    const delta = event.key === "ArrowRight" ? step : event.key === "ArrowLeft" ? -step : 0;
+    if (delta === 0) return;
+
+    event.preventDefault();
+    // getSize clamps the stored width to the column's minSize and maxSize
+    table.setColumnSizing((sizing) => ({ ...sizing, [column.id]: column.getSize() + delta }));
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={t("table.columns.resize", { column: getColumnLabel(column) })}
+      aria-valuenow={column.getSize()}
+      tabIndex={0}
+      onMouseDown={header.getResizeHandler()}
+      onTouchStart={header.getResizeHandler()}
+      onDoubleClick={() => column.resetSize()}
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      className={cn(
+        "absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none outline-none",
+        "opacity-0 hover:opacity-100 focus-visible:opacity-100",
+        isResizing && "opacity-100"
+      )}
+      style={{
+        backgroundColor: "var(--color-primary)",
+        transform: isResizing ? `translateX(${deltaOffset}px)` : undefined,
+      }}
+    />
+  );
+}
+
+/**
+ * Columns listed in the column manager, in display order.
+ */
+function getOrderedColumns<TData>(table: Table<TData>) {
+  const columns = table
+    .getAllLeafColumns()
+    .filter((column) => column.id !== SELECTION_COLUMN_ID);
+  const { columnOrder } = table.getState();
+  const position = (column: Column<TData, unknown>) => {
+    const index = columnOrder.indexOf(column.id);
+    return index === -1 ? columnOrder.length + columns.indexOf(column) : index;
+  };
+  return [...columns].sort((a, b) => position(a) - position(b));
+}
+
+export interface ColumnManagerProps<TData> {
+  /** TanStack Table instance */
+  table: Table<TData>;
+  /** Callback to restore the default layout */
+  onReset: () => void;
+}
+
+/**
+ * Column manager menu for the table toolbar: show and hide columns, drag them
+ * (or use the arrow buttons) to reorder, and pin them to either edge.
+ */
+export function ColumnManager<TData>({ table, onReset }: ColumnManagerProps<TData>) {
+  const { t } = useTranslation("common");
+  const [draggedId, setDraggedId] = React.useState<string | null>(null);
+  const columns = getOrderedColumns(table);
+
+  const move = (columnId: string, toIndex: number) => {
+    const ids = columns.map((column) => column.id).filter((id) => id !== columnId);
+    ids.splice(toIndex, 0, columnId);
+    table.setColumnOrder(ids);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="h-4 w-4 mr-2" />
+          {t("table.columns.title")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-[length:var(--spacing-2)]">
+        <ul className="flex flex-col" aria-label={t("table.columns.title")}>
+          {columns.map((column, index) => {
+            const label = getColumnLabel(column);
+            const pinned = column.getIsPinned();
+
+            return (
+              <li
+                key={column.id}
+                draggable
+                onDragStart={() => setDraggedId(column.id)}
+                onDragOver={(event) => {
+                  if (draggedId) event.preventDefault();
+                }}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  if (draggedId && draggedId !== column.id) move(draggedId, index);
+                  setDraggedId(null);
+                }}
+                onDragEnd={() => setDraggedId(null)}
+                className={cn(
+                  "flex items-center gap-[length:var(--spacing-1)] rounded-[length:var(--radius-sm)] px-[length:var(--spacing-1)] py-[length:var(--spacing-1)]",
+                  draggedId === column.id && "opacity-50"
+                )}
+              >
+                <GripVertical
+                  className="h-4 w-4 shrink-0 cursor-grab"
+                  style={{ color: "var(--color-text-muted)" }}
+                  aria-hidden="true"
+                />
+                <label className="flex flex-1 items-center gap-[length:var(--spacing-2)] truncate text-[length:var(--text-sm)]">
+                  <input
+                    type="checkbox"
+                    checked={column.getIsVisible()}
+                    disabled={!column.getCanHide()}
+                    onChange={column.getToggleVisibilityHandler()}
+                    className="w-4 h-4 cursor-pointer disabled:cursor-not-allowed"
+                    style={{ accentColor: "var(--color-primary)" }}
+                  />
+                  {label}
+                </label>
+                <ColumnManagerButton
+                  label={t("table.columns.moveUp", { column: label })}
+                  disabled={index === 0}
+                  onClick={() => move(column.id, index - 1)}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </ColumnManagerButton>
+                <ColumnManagerButton
+                  label={t("table.columns.moveDown", { column: label })}
+                  disabled={index === columns.length - 1}
+                  onClick={() => move(column.id, index + 1)}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </ColumnManagerButton>
+                {column.getCanPin() && (
+                  <>
+                    <ColumnManagerButton
+                      label={t("table.columns.pinLeft", { column: label })}
+                      pressed={pinned === "left"}
+                      onClick={() => column.pin(pinned === "left" ? false : "left")}
+                    >
+                      <ArrowLeftToLine className="h-4 w-4" />
+                    </ColumnManagerButton>
+                    <ColumnManagerButton
+                      label={t("table.columns.pinRight", { column: label })}
+                      pressed={pinned === "right"}
+                      onClick={() => column.pin(pinned === "right" ? false : "right")}
+                    >
+                      <ArrowRightToLine className="h-4 w-4" />
+                    </ColumnManagerButton>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <div
+          className="mt-[length:var(--spacing-2)] flex justify-end border-t pt-[length:var(--spacing-2)]"
+          style={{ borderColor: "var(--color-border)" }}
+        >
+          <Button variant="ghost" size="sm" onClick={onReset}>
+            {t("table.columns.reset")}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ColumnManagerButtonProps {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  /** Toggle state, for the pin buttons */
+  pressed?: boolean;
+  children: React.ReactNode;
+}
+
+function ColumnManagerButton({ label, onClick, disabled, pressed, children }: ColumnManagerButtonProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7 shrink-0"
+      style={pressed ? { color: "var(--color-primary)" } : undefined}
+      aria-label={label}
+      title={label}
+      aria-pressed={pressed}
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { formatColumnFilter, matchesColumnFilter } from './filter-values'
+import type { ColumnFilterDef } from './types'
+
+// Echoes the key and its values, so tests don't need loaded translations
+const t = (key: string, options?: Record<string, unknown>) =>
+  `${key.split('.').pop()} ${Object.values(options ?? {}).join(' ')}`.trim()
+
+const statusFilter: ColumnFilterDef = {
+  id: 'status',
+  label: 'Status',
+  type: 'select',
+  options: [
+    { value: 'active', label: 'Active' },
+    { value: 'pending', label: 'Pending' },
+  ],
+}
+
+describe('matchesColumnFilter', () => {
+  it('compares text, numbers and choices', () => {
+    expect(matchesColumnFilter('Gold Badge', { operator: 'contains', value: 'gold' })).toBe(true)
+    expect(matchesColumnFilter('Gold Badge', { operator: 'equals', value: 'gold' })).toBe(false)
+    expect(matchesColumnFilter(42, { operator: 'equals', value: 42 })).toBe(true)
+    expect(matchesColumnFilter('pending', { operator: 'in', value: ['active', 'pending'] })).toBe(true)
+    expect(matchesColumnFilter(null, { operator: 'contains', value: '' })).toBe(false)
+  })
+
+  it('matches ranges including both ends, with open ends', () => {
+    expect(matchesColumnFilter(10, { operator: 'between', value: [10, 20] })).toBe(true)
+    expect(matchesColumnFilter(21, { operator: 'between', value: [10, 20] })).toBe(false)
+    expect(matchesColumnFilter(500, { operator: 'between', value: [10, null] })).toBe(true)
+  })
+
+  it('compares dates by day', () => {
+    const createdAt = '2024-03-15T18:30:00.000Z'
+    expect(matchesColumnFilter(createdAt, { operator: 'after', value: '2024-03-14' })).toBe(true)
+    expect(matchesColumnFilter(createdAt, { operator: 'before', value: '2024-03-15' })).toBe(false)
+    expect(
+      matchesColumnFilter(createdAt, { operator: 'between', value: ['2024-03-15', '2024-03-15'] })
+    ).toBe(true)
+  })
+})
+
+describe('formatColumnFilter', () => {
+  it('shows option labels, operators and formatted values', () => {
+    const options = { t, locale: 'en-US' }
+
+    expect(
+      formatColumnFilter({ operator: 'in', value: ['active', 'pending'] }, { ...options, def: statusFilter })
+    ).toBe('Active, Pending')
+    expect(formatColumnFilter({ operator: 'contains', value: 'gold' }, options)).toBe('contains gold')
+    expect(formatColumnFilter({ operator: 'between', value: [1000, 2500] }, options)).toBe(
+      'between 1,000 2,500'
+    )
+    expect(formatColumnFilter({ operator: 'between', value: [null, 5] }, options)).toBe('atMost 5')
+    expect(
+      formatColumnFilter(
+        { operator: 'before', value: '2024-03-15' },
+        { ...options, def: { id: 'createdAt', label: 'Created', type: 'date' } }
+      )
+    ).toBe('before Mar 15, 2024')
+  })
+
+  it('falls back to plain values', () => {
+    expect(formatColumnFilter(['a', 'b'], { t })).toBe('a, b')
+    expect(formatColumnFilter('ada', { t })).toBe('ada')
+  })
+})
@@ -0,0 +1,135 @@
+import type { Row } from "@tanstack/react-table";
+import type { ColumnFilterDef, ColumnFilterOperator, ColumnFilterValue } from "./types";
+
+/**
+ * Operators offered for each filter type when a definition doesn't list its own.
+ */
+export const DEFAULT_FILTER_OPERATORS: Record<ColumnFilterDef["type"], ColumnFilterOperator[]> = {
+  text: ["contains", "equals"],
+  select: ["equals", "in"],
+  number: ["equals", "between"],
+  date: ["between", "before", "after"],
+};
+
+const OPERATORS: ColumnFilterOperator[] = ["equals", "contains", "in", "between", "before", "after"];
+
+/** Translate function, e.g. the `t` of `useTranslation("common")` */
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+/**
+ * Operators a filter offers, the preselected one first.
+ */
+export function getFilterOperators(def: ColumnFilterDef): ColumnFilterOperator[] {
+  return def.operators?.length ? def.operators : DEFAULT_FILTER_OPERATORS[def.type];
+}
+
+/**
+ * Whether a column filter value was built by FilterBuilder.
+ */
+export function isColumnFilterValue(value: unknown): value is ColumnFilterValue {
+  if (typeof value !== "object" || value === null || !("value" in value)) return false;
+  const operator = (value as { operator?: unknown }).operator;
+  return OPERATORS.includes(operator as ColumnFilterOperator);
+}
+
+// Day of a date cell, comparable with "YYYY-MM-DD" filter values
+function toDateKey(value: unknown) {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+function compareWith(cellValue: unknown, bound: string | number) {
+  return typeof bound === "number"
+    ? Number(cellValue) - bound
+    : toDateKey(cellValue).localeCompare(bound);
+}
+
+/**
+ * Whether a cell value passes a typed filter. Text matching ignores case;
+ * ranges include both ends, while before/after exclude the given day.
+ */
+export function matchesColumnFilter(cellValue: unknown, filter: ColumnFilterValue): boolean {
+  if (cellValue === undefined || cellValue === null) return false;
+
+  switch (filter.operator) {
+    case "equals":
+      return typeof filter.value === "number"
+        ? Number(cellValue) === filter.value
+        : String(cellValue) === filter.value;
+    case "contains":
+      return String(cellValue).toLowerCase().includes(filter.value.toLowerCase());
+    case "in":
+      return filter.value.includes(String(cellValue));
+    case "before":
+      return compareWith(cellValue, filter.value) < 0;
+    case "after":
+      return compareWith(cellValue, filter.value) > 0;
+    case "between": {
+      const [from, to] = filter.value;
+      return (
+        (from === null || compareWith(cellValue, from) >= 0) &&
+        (to === null || compareWith(cellValue, to) <= 0)
+      );
+    }
+  }
+}
+
+/**
+ * Filter function for client-side tables: typed values go through
+ * `matchesColumnFilter`, anything else matches as case-insensitive text.
+ */
+export function columnFilterFn<TData>(row: Row<TData>, columnId: string, filterValue: unknown) {
+  const cellValue = row.getValue(columnId);
+  if (isColumnFilterValue(filterValue)) return matchesColumnFilter(cellValue, filterValue);
+  return String(cellValue ?? "")
+    .toLowerCase()
+    .includes(String(filterValue).toLowerCase());
+}
+
+export interface FormatColumnFilterOptions {
+  /** Definition of the filter, for option labels and date formatting */
+  def?: ColumnFilterDef;
+  t: Translate;
+  /** Locale for numbers and dates (default: the runtime's) */
+  locale?: string;
+}
+
+/**
+ * Readable value of a column filter for its chip, e.g. `contains “gold”`,
+ * `Active, Pending` or `Jan 1, 2024 – Mar 31, 2024`.
+ */
+export function formatColumnFilter(value: unknown, { def, t, locale }: FormatColumnFilterOptions) {
+  const formatValue = (item: string | number) => {
+    if (typeof item === "number") return new Intl.NumberFormat(locale).format(item);
+    if (def?.type === "select") {
+      return def.options?.find((option) => option.value === item)?.label ?? item;
+    }
+    if (def?.type === "date") {
+      const date = new Date(item);
+      return Number.isNaN(date.getTime())
+        ? item
+        : new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: "UTC" }).format(date);
+    }
+    return item;
+  };
+
+  if (!isColumnFilterValue(value)) {
+    return Array.isArray(value) ? value.map(String).join(", ") : String(value);
+  }
+
+  switch (value.operator) {
+    case "equals":
+      return formatValue(value.value);
+    case "in":
+      return value.value.map(formatValue).join(", ");
+    case "contains":
+    case "before":
+    case "after":
+      return t(`table.filters.chips.${value.operator}`, { value: formatValue(value.value) });
+    case "between": {
+      const [from, to] = value.value;
+      if (to === null) return t("table.filters.chips.atLeast", { value: formatValue(from ?? "") });
+      if (from === null) return t("table.filters.chips.atMost", { value: formatValue(to) });
+      return t("table.filters.chips.between", { from: formatValue(from), to: formatValue(to) });
+    }
+  }
+}
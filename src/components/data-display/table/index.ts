@@ -11,9 +11,38 @@ export {
   type ActiveFiltersListProps,
 } from "./ActiveFiltersList";
 export { FilterSheet, type FilterSheetProps } from "./FilterSheet";
+export { FilterBuilder, type FilterBuilderProps } from "./FilterBuilder";
+export {
+  columnFilterFn,
+  matchesColumnFilter,
+  formatColumnFilter,
+  getFilterOperators,
+  isColumnFilterValue,
+  DEFAULT_FILTER_OPERATORS,
+  type FormatColumnFilterOptions,
+} from "./filter-values";
 export { TableSkeleton, type TableSkeletonProps } from "./TableSkeleton";
 export { TableEmptyState, type TableEmptyStateProps } from "./TableEmptyState";
 export { DataTableBase, type DataTableBaseProps } from "./DataTableBase";
+export { SELECTION_COLUMN_ID } from "./selection";
+export {
+  ColumnManager,
+  useColumnLayout,
+  getColumnLayoutStorageKey,
+  type ColumnManagerProps,
+} from "./columns";
+export {
+  TableViewSwitcher,
+  useTableViews,
+  getTableViewsQueryKey,
+  type TableViewSwitcherProps,
+} from "./views";
+export { createLocalTableViewStorage, createApiTableViewStorage } from "./view-storage";
+export {
+  parseTableSearchParams,
+  writeTableSearchParams,
+  type TableUrlOptions,
+} from "./url-state";
 
 // Context
 export {
@@ -29,4 +58,12 @@ export type {
   ServerTableProps,
   ServerTableState,
   ColumnFilterDef,
+  ColumnFilterOperator,
+  ColumnFilterValue,
+  TableSelection,
+  TableBulkAction,
+  TableColumnLayout,
+  TableView,
+  TableViewState,
+  TableViewStorage,
 } from "./types";
@@ -0,0 +1,173 @@
+import * as React from "react";
+import {
+  functionalUpdate,
+  type ColumnDef,
+  type Row,
+  type RowSelectionState,
+  type Table,
+  type Updater,
+} from "@tanstack/react-table";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/overlay/Button";
+import type { TableBulkAction, TableSelection } from "./types";
+
+/**
+ * Id of the checkbox column added when row selection is enabled.
+ */
+export const SELECTION_COLUMN_ID = "select";
+
+/**
+ * Row id used when a table has no `getRowId`: the row's `id` field when it has
+ * one, so selection follows the record across pages, otherwise its index.
+ */
+export function defaultGetRowId<TData>(row: TData, index: number): string {
+  const id = (row as { id?: unknown } | null)?.id;
+  return typeof id === "string" || typeof id === "number" ? String(id) : String(index);
+}
+
+interface SelectionCheckboxProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "type"> {
+  indeterminate?: boolean;
+}
+
+function SelectionCheckbox({ indeterminate = false, ...props }: SelectionCheckboxProps) {
+  const ref = React.useRef<HTMLInputElement>(null);
+
+  // `indeterminate` only exists as a DOM property
+  React.useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
+
+  return (
+    <input
+      {...props}
+      ref={ref}
+      type="checkbox"
+      className="w-4 h-4 cursor-pointer align-middle disabled:cursor-not-allowed"
+      style={{ accentColor: "var(--color-primary)" }}
+    />
+  );
+}
+
+function SelectPageHeader<TData>({ table }: { table: Table<TData> }) {
+  const { t } = useTranslation("common");
+
+  return (
+    <SelectionCheckbox
+      checked={table.getIsAllPageRowsSelected()}
+      indeterminate={table.getIsSomePageRowsSelected()}
+      onChange={table.getToggleAllPageRowsSelectedHandler()}
+      aria-label={t("table.selection.selectPage")}
+    />
+  );
+}
+
+function SelectRowCell<TData>({ row }: { row: Row<TData> }) {
+  const { t } = useTranslation("common");
+
+  return (
+    <SelectionCheckbox
+      checked={row.getIsSelected()}
+      disabled={!row.getCanSelect()}
+      onChange={row.getToggleSelectedHandler()}
+      aria-label={t("table.selection.selectRow")}
+    />
+  );
+}
+
+/**
+ * Checkbox column for row selection. The header checkbox selects the current page.
+ */
+export function getSelectionColumn<TData>(): ColumnDef<TData, unknown> {
+  return {
+    id: SELECTION_COLUMN_ID,
+    header: SelectPageHeader,
+    cell: SelectRowCell,
+    size: 48,
+    enableSorting: false,
+    enableHiding: false,
+    enableResizing: false,
+    enablePinning: false,
+  };
+}
+
+/**
+ * Selected rows of a table, kept by row id so rows selected on another page
+ * (of a server-side table) stay selected and keep their data.
+ *
+ * @param onSelectionChange - Called with the new selection after every change
+ */
+export function useRowSelection<TData>(
+  onSelectionChange?: (selection: TableSelection<TData>) => void
+) {
+  const [selected, setSelected] = React.useState<ReadonlyMap<string, TData>>(() => new Map());
+
+  const rowSelection = React.useMemo<RowSelectionState>(
+    () => Object.fromEntries([...selected.keys()].map((id) => [id, true])),
+    [selected]
+  );
+
+  const commit = (next: ReadonlyMap<string, TData>) => {
+    setSelected(next);
+    onSelectionChange?.({ ids: [...next.keys()], rows: [...next.values()] });
+  };
+
+  /**
+   * Apply a TanStack selection update. `rows` are the rows the table currently
+   * holds; ids that are not among them keep the data they were selected with.
+   */
+  const update = (updater: Updater<RowSelectionState>, rows: Row<TData>[]) => {
+    const next = functionalUpdate(updater, rowSelection);
+    const rowsById = new Map(rows.map((row) => [row.id, row.original]));
+    const nextSelected = new Map<string, TData>();
+    for (const [id, isSelected] of Object.entries(next)) {
+      const original = rowsById.get(id) ?? selected.get(id);
+      if (isSelected && original !== undefined) nextSelected.set(id, original);
+    }
+    commit(nextSelected);
+  };
+
+  const selection: TableSelection<TData> = {
+    ids: [...selected.keys()],
+    rows: [...selected.values()],
+  };
+
+  return {
+    rowSelection,
+    selection,
+    update,
+    clear: () => commit(new Map()),
+  };
+}
+
+interface TableBulkActionsProps<TData> {
+  actions: TableBulkAction<TData>[];
+  selection: TableSelection<TData>;
+  onClearSelection: () => void;
+}
+
+/**
+ * Buttons for the bulk actions of a table, rendered in the toolbar.
+ */
+export function TableBulkActions<TData>({
+  actions,
+  selection,
+  onClearSelection,
+}: TableBulkActionsProps<TData>) {
+  return (
+    <>
+      {actions.map((action) => (
+        <Button
+          key={action.id}
+          variant={action.variant ?? "outline"}
+          size="sm"
+          disabled={action.disabled?.(selection)}
+          onClick={() => action.onClick(selection, onClearSelection)}
+        >
+          {action.icon && <span className="mr-2 inline-flex">{action.icon}</span>}
+          {action.label}
+        </Button>
+      ))}
+    </>
+  );
+}
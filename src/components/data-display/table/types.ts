@@ -1,4 +1,57 @@
-import type { ColumnDef, SortingState, PaginationState, ColumnFiltersState } from "@tanstack/react-table";
+import type {
+  ColumnDef,
+  SortingState,
+  PaginationState,
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  Row,
+  VisibilityState,
+} from "@tanstack/react-table";
+import type { ButtonProps } from "@/components/overlay/Button";
+
+/**
+ * Selected rows of a table
+ */
+export interface TableSelection<TData> {
+  /** Ids of the selected rows */
+  ids: string[];
+  /** The selected rows, including rows selected on other pages */
+  rows: TData[];
+}
+
+/**
+ * Action shown in the toolbar while rows are selected
+ */
+export interface TableBulkAction<TData> {
+  /** Unique key */
+  id: string;
+  /** Button label */
+  label: React.ReactNode;
+  /** Icon rendered before the label */
+  icon?: React.ReactNode;
+  /** Button variant (default: "outline") */
+  variant?: ButtonProps["variant"];
+  /** Disable the action for the current selection */
+  disabled?: (selection: TableSelection<TData>) => boolean;
+  /** Run the action; call `clearSelection` once the rows have been handled */
+  onClick: (selection: TableSelection<TData>, clearSelection: () => void) => void;
+}
+
+/**
+ * Column layout a user chose for a table: hidden columns, order, widths and pinning
+ */
+export interface TableColumnLayout {
+  /** Visibility by column id; columns that are not listed are visible */
+  visibility: VisibilityState;
+  /** Column ids in display order; columns that are not listed follow in definition order */
+  order: ColumnOrderState;
+  /** Width in px by column id */
+  sizing: ColumnSizingState;
+  /** Column ids pinned to the left and right edges */
+  pinning: ColumnPinningState;
+}
 
 /**
  * Base table props shared between ClientTable and ServerTable
@@ -24,6 +77,29 @@ export interface BaseTableProps<TData> {
   onApplyFilters?: () => void;
   /** Callback when filters are reset */
   onResetFilters?: () => void;
+  /**
+   * Filters the filter panel builds a form from, when `filterContent` isn't set.
+   * ClientTable matches rows with `columnFilterFn` unless a column sets its own `filterFn`
+   */
+  filterDefs?: ColumnFilterDef[];
+  /** Add a checkbox column for selecting rows; pass a function to allow only some rows */
+  enableRowSelection?: boolean | ((row: Row<TData>) => boolean);
+  /**
+   * Stable id of a row. Selection is kept by id, so server-side tables keep rows
+   * selected across pages (default: the row's `id` field, or its index)
+   */
+  getRowId?: (row: TData, index: number) => string;
+  /** Callback when the selection changes */
+  onSelectionChange?: (selection: TableSelection<TData>) => void;
+  /** Actions shown in the toolbar while rows are selected */
+  bulkActions?: TableBulkAction<TData>[];
+  /**
+   * Unique id of the table. When set, the column layout (visibility, order,
+   * widths and pinning) is saved in localStorage and restored on the next visit
+   */
+  tableId?: string;
+  /** Whether to hide the column manager button */
+  hideColumnManager?: boolean;
 }
 
 /**
@@ -60,15 +136,89 @@ export interface ServerTableProps<TData> extends BaseTableProps<TData> {
   onStateChange: (state: ServerTableState) => void;
   /** Initial state */
   initialState?: Partial<ServerTableState>;
+  /**
+   * Where saved views are kept. Shows the view switcher in the toolbar and
+   * applies the user's default view on load; requires `tableId`
+   */
+  viewStorage?: TableViewStorage;
+  /**
+   * Keep the pagination, sorting, search and filters in the query string, so
+   * reloading or sharing the link restores them and back/forward step through
+   * them. Pass a `prefix` when several synced tables share a page. Needs a router
+   */
+  syncWithUrl?: boolean | { prefix?: string };
 }
 
+/**
+ * Table state a saved view restores
+ */
+export interface TableViewState {
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  /** Rows per page; a view always opens on the first page */
+  pageSize: number;
+  columnLayout: TableColumnLayout;
+}
+
+/**
+ * Named table view saved by the user
+ */
+export interface TableView {
+  id: string;
+  name: string;
+  state: TableViewState;
+  /** Applied when the table opens */
+  isDefault: boolean;
+}
+
+/**
+ * Where saved views are kept, e.g. localStorage or an API.
+ * Every method is async so both kinds of storage share one interface.
+ * `userId` is the signed-in user (null when signed out), for storages that
+ * have to keep each user's views apart themselves.
+ */
+export interface TableViewStorage {
+  /** Views saved for a table */
+  list: (tableId: string, userId?: string | null) => Promise<TableView[]>;
+  /** Create a view, or update it when `id` is set */
+  save: (
+    tableId: string,
+    view: { id?: string; name: string; state: TableViewState },
+    userId?: string | null
+  ) => Promise<TableView>;
+  /** Delete a view */
+  remove: (tableId: string, viewId: string, userId?: string | null) => Promise<void>;
+  /** Make a view the default, or clear the default with `null` */
+  setDefault: (tableId: string, viewId: string | null, userId?: string | null) => Promise<void>;
+}
+
+/**
+ * How a column filter compares a cell's value
+ */
+export type ColumnFilterOperator = "equals" | "contains" | "in" | "between" | "before" | "after";
+
+/**
+ * Typed column filter value, as built by FilterBuilder. Dates are "YYYY-MM-DD"
+ * strings and numbers stay numbers; either end of a range may be open (`null`)
+ */
+export type ColumnFilterValue =
+  | { operator: "equals"; value: string | number }
+  | { operator: "contains" | "before" | "after"; value: string }
+  | { operator: "in"; value: string[] }
+  | { operator: "between"; value: [from: string | number | null, to: string | number | null] };
+
 /**
  * Column filter definition for filter forms
  */
 export interface ColumnFilterDef {
+  /** Id of the column the filter applies to */
   id: string;
   label: string;
   type: "text" | "select" | "number" | "date";
+  /** Choices of a select filter */
   options?: { value: string; label: string }[];
   placeholder?: string;
+  /** Operators to offer, the first one is preselected (default: depends on `type`) */
+  operators?: ColumnFilterOperator[];
 }
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { parseTableSearchParams, writeTableSearchParams } from './url-state'
+import type { ServerTableState } from './types'
+
+const state: ServerTableState = {
+  pagination: { pageIndex: 2, pageSize: 25 },
+  sorting: [
+    { id: 'status', desc: false },
+    { id: 'createdAt', desc: true },
+  ],
+  globalFilter: 'gold badge',
+  columnFilters: [
+    { id: 'status', value: ['active', 'pending'] },
+    { id: 'owner', value: 'ada' },
+  ],
+}
+
+describe('table url state', () => {
+  it('writes a readable query string and reads it back', () => {
+    const params = writeTableSearchParams(new URLSearchParams(), state)
+
+    expect(decodeURIComponent(params.toString())).toBe(
+      'page=3&size=25&sort=status,-createdAt&q=gold+badge&f.status[]=active&f.status[]=pending&f.owner=ada'
+    )
+    expect(parseTableSearchParams(params)).toEqual(state)
+  })
+
+  it('leaves defaults out of the URL', () => {
+    const params = writeTableSearchParams(new URLSearchParams('page=4&q=old'), {
+      pagination: { pageIndex: 0, pageSize: 20 },
+      sorting: [],
+      globalFilter: '',
+      columnFilters: [{ id: 'status', value: '' }],
+    }, { defaultPageSize: 20 })
+
+    expect(params.toString()).toBe('')
+    expect(parseTableSearchParams(params)).toEqual({})
+  })
+
+  it('keeps the params of other tables and of the page', () => {
+    const initial = new URLSearchParams('tab=badges&users.page=2&users.f.role=admin')
+    const params = writeTableSearchParams(initial, state, { prefix: 'badges' })
+
+    expect(params.get('tab')).toBe('badges')
+    expect(params.get('badges.page')).toBe('3')
+    expect(parseTableSearchParams(params, { prefix: 'users' })).toEqual({
+      pagination: { pageIndex: 1, pageSize: 10 },
+      columnFilters: [{ id: 'role', value: 'admin' }],
+    })
+
+    const cleared = writeTableSearchParams(params, {
+      pagination: { pageIndex: 0, pageSize: 10 },
+      sorting: [],
+      globalFilter: '',
+      columnFilters: [],
+    }, { prefix: 'users' })
+    expect([...cleared.keys()].some((key) => key.startsWith('users.'))).toBe(false)
+    expect(cleared.get('badges.q')).toBe('gold badge')
+  })
+
+  it('reads typed filter values back', () => {
+    const params = writeTableSearchParams(new URLSearchParams(), {
+      ...state,
+      columnFilters: [{ id: 'price', value: { operator: 'between', value: [10, null] } }],
+    })
+
+    expect(params.get('f.price')).toBe('{"operator":"between","value":[10,null]}')
+    expect(parseTableSearchParams(params).columnFilters).toEqual([
+      { id: 'price', value: { operator: 'between', value: [10, null] } },
+    ])
+    expect(parseTableSearchParams(new URLSearchParams('f.note={oops')).columnFilters).toEqual([
+      { id: 'note', value: '{oops' },
+    ])
+  })
+
+  it('reads a single-value array filter back as an array', () => {
+    const single = { ...state, columnFilters: [{ id: 'status', value: ['active'] }] }
+    const params = writeTableSearchParams(new URLSearchParams(), single)
+
+    expect(params.getAll('f.status[]')).toEqual(['active'])
+    expect(parseTableSearchParams(params)).toEqual(single)
+    expect(parseTableSearchParams(new URLSearchParams('f.status=active&f.status=pending')).columnFilters)
+      .toEqual([{ id: 'status', value: ['active', 'pending'] }])
+  })
+
+  it('ignores invalid page numbers', () => {
+    expect(parseTableSearchParams(new URLSearchParams('page=-1&size=abc'))).toEqual({})
+  })
+})
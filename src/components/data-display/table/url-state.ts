@@ -0,0 +1,153 @@
+import type { ColumnFiltersState, SortingState } from "@tanstack/react-table";
+import { isColumnFilterValue } from "./filter-values";
+import type { ServerTableState } from "./types";
+
+/**
+ * Options for reading and writing table state in the query string.
+ */
+export interface TableUrlOptions {
+  /**
+   * Prefix for the table's params, for pages with several synced tables,
+   * e.g. "badges" gives `badges.page=2&badges.sort=-createdAt`
+   */
+  prefix?: string;
+  /** Page size that is left out of the URL (default: 10) */
+  defaultPageSize?: number;
+}
+
+/**
+ * Param names, before the prefix:
+ * - `page` - 1-based page number, left out on the first page
+ * - `size` - page size, left out when it is the default
+ * - `sort` - comma-separated column ids, `-` before descending ones: `sort=status,-createdAt`
+ * - `q` - global search
+ * - `f.<columnId>` - column filter; array values repeat the param with `[]` after the column id,
+ *   so a single value stays an array: `f.status[]=active&f.status[]=pending`;
+ *   typed values from FilterBuilder are JSON: `f.price={"operator":"between","value":[10,50]}`
+ */
+const PARAM = {
+  page: "page",
+  size: "size",
+  sort: "sort",
+  search: "q",
+  filter: "f.",
+  array: "[]",
+} as const;
+
+function paramName(name: string, prefix?: string) {
+  return prefix ? `${prefix}.${name}` : name;
+}
+
+function parsePositiveInt(value: string | null) {
+  const number = value === null ? NaN : Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+function parseSorting(value: string): SortingState {
+  return value
+    .split(",")
+    .filter(Boolean)
+    .map((id) => (id.startsWith("-") ? { id: id.slice(1), desc: true } : { id, desc: false }));
+}
+
+// Typed filter values come back as objects, anything else as the string
+function parseFilterValue(value: string): unknown {
+  if (!value.startsWith("{")) return value;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isColumnFilterValue(parsed) ? parsed : value;
+  } catch {
+    return value;
+  }
+}
+
+function serializeFilterValue(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(serializeFilterValue);
+  if (value === undefined || value === null || value === "") return [];
+  return [typeof value === "object" ? JSON.stringify(value) : String(value)];
+}
+
+/**
+ * Read table state from search params. Only the parts present in the URL are
+ * returned. Filter values come back as strings, or string arrays for `[]`
+ * params (and params that repeat without it, as older URLs did); typed values
+ * from FilterBuilder come back as they were written.
+ */
+export function parseTableSearchParams(
+  params: URLSearchParams,
+  { prefix, defaultPageSize = 10 }: TableUrlOptions = {}
+): Partial<ServerTableState> {
+  const state: Partial<ServerTableState> = {};
+
+  const page = parsePositiveInt(params.get(paramName(PARAM.page, prefix)));
+  const size = parsePositiveInt(params.get(paramName(PARAM.size, prefix)));
+  if (page !== undefined || size !== undefined) {
+    state.pagination = { pageIndex: (page ?? 1) - 1, pageSize: size ?? defaultPageSize };
+  }
+
+  const sort = params.get(paramName(PARAM.sort, prefix));
+  if (sort) state.sorting = parseSorting(sort);
+
+  const search = params.get(paramName(PARAM.search, prefix));
+  if (search) state.globalFilter = search;
+
+  const filterPrefix = paramName(PARAM.filter, prefix);
+  const columnFilters: ColumnFiltersState = [];
+  for (const key of new Set(params.keys())) {
+    if (!key.startsWith(filterPrefix) || key.length === filterPrefix.length) continue;
+    const values = params.getAll(key);
+    const isArray = key.endsWith(PARAM.array);
+    columnFilters.push({
+      id: key.slice(filterPrefix.length, isArray ? -PARAM.array.length : undefined),
+      value: isArray || values.length > 1 ? values : parseFilterValue(values[0]),
+    });
+  }
+  if (columnFilters.length > 0) state.columnFilters = columnFilters;
+
+  return state;
+}
+
+/**
+ * Write table state into a copy of `params`. Params of other tables and of
+ * the page are kept; defaults (first page, default size, no sorting, search
+ * or filters) are left out so URLs stay short.
+ */
+export function writeTableSearchParams(
+  params: URLSearchParams,
+  state: ServerTableState,
+  { prefix, defaultPageSize = 10 }: TableUrlOptions = {}
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const filterPrefix = paramName(PARAM.filter, prefix);
+  const ownParams = [PARAM.page, PARAM.size, PARAM.sort, PARAM.search].map((name) =>
+    paramName(name, prefix)
+  );
+  for (const key of [...next.keys()]) {
+    if (ownParams.includes(key) || key.startsWith(filterPrefix)) next.delete(key);
+  }
+
+  const { pagination, sorting, globalFilter, columnFilters } = state;
+  if (pagination.pageIndex > 0) {
+    next.set(paramName(PARAM.page, prefix), String(pagination.pageIndex + 1));
+  }
+  if (pagination.pageSize !== defaultPageSize) {
+    next.set(paramName(PARAM.size, prefix), String(pagination.pageSize));
+  }
+  if (sorting.length > 0) {
+    next.set(
+      paramName(PARAM.sort, prefix),
+      sorting.map(({ id, desc }) => (desc ? `-${id}` : id)).join(",")
+    );
+  }
+  if (globalFilter) {
+    next.set(paramName(PARAM.search, prefix), globalFilter);
+  }
+  for (const { id, value } of columnFilters) {
+    const key = `${filterPrefix}${id}${Array.isArray(value) ? PARAM.array : ""}`;
+    for (const item of serializeFilterValue(value)) {
+      next.append(key, item);
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createLocalTableViewStorage } from './view-storage'
+import type { TableViewState } from './types'
+
+const state: TableViewState = {
+  sorting: [{ id: 'name', desc: false }],
+  columnFilters: [{ id: 'status', value: 'active' }],
+  globalFilter: 'gold',
+  pageSize: 20,
+  columnLayout: { visibility: {}, order: [], sizing: {}, pinning: { left: [], right: [] } },
+}
+
+describe('createLocalTableViewStorage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('saves, updates and removes views per table', async () => {
+    const storage = createLocalTableViewStorage()
+
+    const active = await storage.save('badges', { name: 'Active', state })
+    await storage.save('users', { name: 'Other table', state })
+    const renamed = await storage.save('badges', { id: active.id, name: 'Active gold', state })
+
+    expect(renamed.id).toBe(active.id)
+    expect(await storage.list('badges')).toEqual([
+      { id: active.id, name: 'Active gold', state, isDefault: false },
+    ])
+
+    await storage.remove('badges', active.id)
+    expect(await storage.list('badges')).toEqual([])
+    expect(await storage.list('users')).toHaveLength(1)
+  })
+
+  it('keeps a single default view', async () => {
+    const storage = createLocalTableViewStorage('views')
+    const first = await storage.save('badges', { name: 'First', state })
+    const second = await storage.save('badges', { name: 'Second', state })
+
+    await storage.setDefault('badges', first.id)
+    await storage.setDefault('badges', second.id)
+    expect((await storage.list('badges')).map((view) => view.isDefault)).toEqual([false, true])
+
+    await storage.setDefault('badges', null)
+    expect((await storage.list('badges')).some((view) => view.isDefault)).toBe(false)
+    expect(localStorage.getItem('views:badges')).not.toBeNull()
+  })
+
+  it('keeps the views and default view of each user apart', async () => {
+    const storage = createLocalTableViewStorage()
+    const mine = await storage.save('badges', { name: 'Mine', state }, 'user-1')
+    await storage.setDefault('badges', mine.id, 'user-1')
+
+    expect(await storage.list('badges', 'user-2')).toEqual([])
+    expect(await storage.list('badges')).toEqual([])
+    expect(await storage.list('badges', 'user-1')).toEqual([
+      { id: mine.id, name: 'Mine', state, isDefault: true },
+    ])
+    expect(localStorage.getItem('table-views:user-1:badges')).not.toBeNull()
+
+    await storage.remove('badges', mine.id, 'user-2')
+    expect(await storage.list('badges', 'user-1')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,88 @@
+import { apiDelete, apiGet, apiPost, apiPut } from "@/api/generic-api";
+import type { TableView, TableViewStorage } from "./types";
+
+/**
+ * Saved views kept in localStorage, one key per user and table
+ * (`<prefix>:<userId>:<tableId>`, or `<prefix>:<tableId>` while signed out),
+ * so users of a shared browser keep their own views and default view.
+ *
+ * @param prefix - Start of the localStorage keys (default: "table-views")
+ */
+export function createLocalTableViewStorage(prefix = "table-views"): TableViewStorage {
+  const getKey = (tableId: string, userId?: string | null) =>
+    userId ? `${prefix}:${userId}:${tableId}` : `${prefix}:${tableId}`;
+
+  const read = (tableId: string, userId?: string | null): TableView[] => {
+    try {
+      const item = window.localStorage.getItem(getKey(tableId, userId));
+      return item ? (JSON.parse(item) as TableView[]) : [];
+    } catch (error) {
+      console.warn(`Error reading saved views of table "${tableId}":`, error);
+      return [];
+    }
+  };
+
+  const write = (tableId: string, userId: string | null | undefined, views: TableView[]) => {
+    window.localStorage.setItem(getKey(tableId, userId), JSON.stringify(views));
+  };
+
+  return {
+    list: async (tableId, userId) => read(tableId, userId),
+    save: async (tableId, { id, name, state }, userId) => {
+      const views = read(tableId, userId);
+      const existing = views.find((view) => view.id === id);
+      const saved: TableView = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        state,
+        isDefault: existing?.isDefault ?? false,
+      };
+      write(
+        tableId,
+        userId,
+        existing ? views.map((view) => (view.id === saved.id ? saved : view)) : [...views, saved]
+      );
+      return saved;
+    },
+    remove: async (tableId, viewId, userId) => {
+      write(tableId, userId, read(tableId, userId).filter((view) => view.id !== viewId));
+    },
+    setDefault: async (tableId, viewId, userId) => {
+      write(
+        tableId,
+        userId,
+        read(tableId, userId).map((view) => ({ ...view, isDefault: view.id === viewId }))
+      );
+    },
+  };
+}
+
+/**
+ * Saved views synced through the API, so they follow the user across devices.
+ * The server scopes views to the signed-in user, so `userId` isn't sent.
+ *
+ * Endpoints, relative to `url`:
+ * - `GET /:tableId` lists the views of a table
+ * - `POST /:tableId` creates a view, `PUT /:tableId/:viewId` updates one
+ * - `DELETE /:tableId/:viewId` deletes a view
+ * - `PUT /:tableId/default` with `{ viewId }` sets or clears the default view
+ *
+ * @param url - Base URL of the views endpoints (default: "/table-views")
+ */
+export function createApiTableViewStorage(url = "/table-views"): TableViewStorage {
+  const tableUrl = (tableId: string) => `${url}/${encodeURIComponent(tableId)}`;
+
+  return {
+    list: (tableId) => apiGet<TableView[]>(tableUrl(tableId)),
+    save: (tableId, { id, ...view }) =>
+      id
+        ? apiPut<TableView>(`${tableUrl(tableId)}/${encodeURIComponent(id)}`, view)
+        : apiPost<TableView>(tableUrl(tableId), view),
+    remove: async (tableId, viewId) => {
+      await apiDelete(`${tableUrl(tableId)}/${encodeURIComponent(viewId)}`);
+    },
+    setDefault: async (tableId, viewId) => {
+      await apiPut(`${tableUrl(tableId)}/default`, { viewId });
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Check, Star, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/overlay/Button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/overlay/Popover";
+import { useCurrentUserId } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
+import type { TableViewState, TableViewStorage } from "./types";
+
+/**
+ * Query key of a user's saved views of a table (userId null while signed out).
+ */
+export function getTableViewsQueryKey(tableId: string, userId: string | null = null) {
+  return ["table-views", userId, tableId] as const;
+}
+
+/**
+ * Saved views of a table for the signed-in user, with mutations that refresh
+ * the list once they settle.
+ *
+ * @param tableId - Unique id of the table
+ * @param storage - Where the views are kept
+ */
+export function useTableViews(tableId: string, storage: TableViewStorage) {
+  const queryClient = useQueryClient();
+  const userId = useCurrentUserId();
+  const queryKey = getTableViewsQueryKey(tableId, userId);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => storage.list(tableId, userId),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const save = useMutation({
+    mutationFn: (view: { id?: string; name: string; state: TableViewState }) =>
+      storage.save(tableId, view, userId),
+    onSettled: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (viewId: string) => storage.remove(tableId, viewId, userId),
+    onSettled: invalidate,
+  });
+
+  const setDefault = useMutation({
+    mutationFn: (viewId: string | null) => storage.setDefault(tableId, viewId, userId),
+    onSettled: invalidate,
+  });
+
+  return { views: query.data ?? [], isLoading: query.isLoading, save, remove, setDefault };
+}
+
+export interface TableViewSwitcherProps {
+  /** Unique id of the table */
+  tableId: string;
+  /** Where the views are kept */
+  storage: TableViewStorage;
+  /** Current table state, captured when a view is saved */
+  getCurrentState: () => TableViewState;
+  /** Callback to apply a view's state to the table */
+  onApplyView: (state: TableViewState) => void;
+  /** Apply the default view once the views load (default: true) */
+  applyDefaultView?: boolean;
+}
+
+/**
+ * View switcher for the table toolbar: apply, save, update and delete named
+ * views, and star the one applied whenever the table opens.
+ * Needs a QueryClientProvider.
+ */
+export function TableViewSwitcher({
+  tableId,
+  storage,
+  getCurrentState,
+  onApplyView,
+  applyDefaultView = true,
+}: TableViewSwitcherProps) {
+  const { t } = useTranslation("common");
+  const { views, isLoading, save, remove, setDefault } = useTableViews(tableId, storage);
+  // undefined until the user picks a view: the default view is active then
+  const [selectedId, setSelectedId] = React.useState<string | null | undefined>(
+    applyDefaultView ? undefined : null
+  );
+  const [name, setName] = React.useState("");
+
+  const defaultView = views.find((view) => view.isDefault);
+  const activeId = selectedId === undefined ? defaultView?.id : selectedId;
+  const activeView = views.find((view) => view.id === activeId);
+
+  // Keep the latest callback so applying the default view doesn't depend on it
+  const onApplyViewRef = React.useRef(onApplyView);
+  React.useEffect(() => {
+    onApplyViewRef.current = onApplyView;
+  });
+
+  // Apply the default view once, when the views first load
+  const defaultState =
+    isLoading || !applyDefaultView ? undefined : (defaultView?.state ?? null);
+  const hasAppliedDefault = React.useRef(false);
+  React.useEffect(() => {
+    if (defaultState === undefined || hasAppliedDefault.current) return;
+    hasAppliedDefault.current = true;
+    if (defaultState) onApplyViewRef.current(defaultState);
+  }, [defaultState]);
+
+  const applyView = (viewId: string) => {
+    const view = views.find((current) => current.id === viewId);
+    if (!view) return;
+    setSelectedId(view.id);
+    onApplyView(view.state);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    save.mutate(
+      { name: trimmed, state: getCurrentState() },
+      {
+        onSuccess: (view) => {
+          setSelectedId(view.id);
+          setName("");
+        },
+      }
+    );
+  };
+
+  const handleRemove = (viewId: string) => {
+    remove.mutate(viewId);
+    if (viewId === activeId) setSelectedId(null);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-48">
+          <Bookmark className="h-4 w-4 mr-2 shrink-0" />
+          <span className="truncate">{activeView?.name ?? t("table.views.title")}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-[length:var(--spacing-2)]">
+        {isLoading ? (
+          <p className="px-[length:var(--spacing-2)] py-[length:var(--spacing-2)] text-[length:var(--text-sm)]">
+            {t("loading")}
+          </p>
+        ) : views.length === 0 ? (
+          <p
+            className="px-[length:var(--spacing-2)] py-[length:var(--spacing-2)] text-[length:var(--text-sm)]"
+            style={{ color: "var(--color-text-muted)" }}
+          >
+            {t("table.views.empty")}
+          </p>
+        ) : (
+          <ul className="flex flex-col" aria-label={t("table.views.title")}>
+            {views.map((view) => (
+              <li key={view.id} className="flex items-center gap-[length:var(--spacing-1)]">
+                <button
+                  type="button"
+                  onClick={() => applyView(view.id)}
+                  aria-current={view.id === activeId}
+                  className={cn(
+                    "flex flex-1 items-center gap-[length:var(--spacing-2)] truncate rounded-[length:var(--radius-sm)] px-[length:var(--spacing-2)] py-[length:var(--spacing-1)] text-left text-[length:var(--text-sm)]",
+                    "hover:bg-[color:var(--color-surface-hover)]"
+                  )}
+                >
+                  <Check
+                    className={cn("h-4 w-4 shrink-0", view.id !== activeId && "invisible")}
+                    aria-hidden="true"
+                  />
+                  <span className="truncate">{view.name}</span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  style={view.isDefault ? { color: "var(--color-warning)" } : undefined}
+                  aria-label={t("table.views.setDefault", { name: view.name })}
+                  title={t("table.views.setDefault", { name: view.name })}
+                  aria-pressed={view.isDefault}
+                  onClick={() => setDefault.mutate(view.isDefault ? null : view.id)}
+                >
+                  <Star className="h-4 w-4" fill={view.isDefault ? "currentColor" : "none"} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  aria-label={t("table.views.delete", { name: view.name })}
+                  title={t("table.views.delete", { name: view.name })}
+                  onClick={() => handleRemove(view.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div
+          className="mt-[length:var(--spacing-2)] flex flex-col gap-[length:var(--spacing-2)] border-t pt-[length:var(--spacing-2)]"
+          style={{ borderColor: "var(--color-border)" }}
+        >
+          {activeView && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="justify-start"
+              disabled={save.isPending}
+              onClick={() =>
+                save.mutate({ id: activeView.id, name: activeView.name, state: getCurrentState() })
+              }
+            >
+              {t("table.views.update", { name: activeView.name })}
+            </Button>
+          )}
+          <form onSubmit={handleSave} className="flex gap-[length:var(--spacing-2)]">
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={t("table.views.namePlaceholder")}
+              aria-label={t("table.views.namePlaceholder")}
+              className="min-w-0 flex-1 rounded-[length:var(--radius-md)] px-[length:var(--spacing-3)] py-[length:var(--spacing-1)] text-[length:var(--text-sm)] outline-none"
+              style={{
+                backgroundColor: "var(--color-surface)",
+                border: "1px solid var(--color-border)",
+                color: "var(--color-text)",
+              }}
+            />
+            <Button type="submit" size="sm" disabled={!name.trim() || save.isPending}>
+              {t("table.views.save")}
+            </Button>
+          </form>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
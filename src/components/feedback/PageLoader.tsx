@@ -0,0 +1,22 @@
+/**
+ * Full-screen loading indicator shown while a route's code or data loads.
+ */
+export function PageLoader() {
+  return (
+    <div
+      className="flex items-center justify-center min-h-screen"
+      style={{ backgroundColor: "var(--color-bg)", color: "var(--color-text)" }}
+    >
+      <div className="text-center">
+        <div
+          className="w-8 h-8 border-4 rounded-full animate-spin mx-auto mb-4"
+          style={{
+            borderColor: "var(--color-border)",
+            borderTopColor: "var(--color-primary)",
+          }}
+        />
+        <p style={{ color: "var(--color-text-muted)" }}>Loading...</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { isRouteErrorResponse, useRevalidator, useRouteError } from "react-router-dom";
+import { SectionErrorFallback } from "./SectionErrorBoundary";
+
+/**
+ * Normalize whatever a loader or component threw into an Error.
+ */
+function toError(error: unknown): Error {
+  if (isRouteErrorResponse(error)) {
+    return new Error(`${error.status} ${error.statusText}`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Route-level `errorElement` with the SectionErrorBoundary UI.
+ * Errors thrown by a route's loader or page render in place of that page only,
+ * so the surrounding layout stays usable. Retry re-runs the route loaders.
+ *
+ * @example
+ * createBrowserRouter([
+ *   { path: "/badges", Component: BadgesPage, errorElement: <RouteErrorElement /> },
+ * ]);
+ */
+export function RouteErrorElement() {
+  const error = useRouteError();
+  const revalidator = useRevalidator();
+
+  return (
+    <SectionErrorFallback
+      error={toError(error)}
+      resetErrorBoundary={() => revalidator.revalidate()}
+    />
+  );
+}
@@ -5,7 +5,7 @@ import { type ReactNode } from "react";
  * Compact fallback UI for inline/section errors.
  * Designed to not disrupt the rest of the page.
  */
-function SectionErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
+export function SectionErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
   return (
     <div
       className="p-4 rounded-[length:var(--radius-lg)] flex items-center gap-4"
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { SessionExpiryDialog } from './SessionExpiryDialog'
+
+// Show the countdown in the description so it can be asserted without translations
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: { count?: number }) =>
+      options?.count === undefined ? key : `${key} ${options.count}`,
+  }),
+}))
+
+function renderDialog(props: Partial<React.ComponentProps<typeof SessionExpiryDialog>> = {}) {
+  const handlers = { onStaySignedIn: vi.fn(), onLogout: vi.fn(), onDismiss: vi.fn() }
+  render(
+    <SessionExpiryDialog open expiresAt={Date.now() + 60 * 1000} {...handlers} {...props} />
+  )
+  return handlers
+}
+
+describe('SessionExpiryDialog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts down the seconds until expiry', () => {
+    renderDialog()
+    expect(screen.getByText('session.expiring.description 60')).toBeInTheDocument()
+
+    act(() => vi.advanceTimersByTime(5000))
+    expect(screen.getByText('session.expiring.description 55')).toBeInTheDocument()
+
+    act(() => vi.advanceTimersByTime(60 * 1000))
+    expect(screen.getByText('session.expiring.description 0')).toBeInTheDocument()
+  })
+
+  it('calls the handler of the chosen action', () => {
+    const { onStaySignedIn, onLogout, onDismiss } = renderDialog()
+
+    fireEvent.click(screen.getByRole('button', { name: 'session.expiring.staySignedIn' }))
+    fireEvent.click(screen.getByRole('button', { name: 'session.expiring.logout' }))
+    expect(onStaySignedIn).toHaveBeenCalledTimes(1)
+    expect(onLogout).toHaveBeenCalledTimes(1)
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' })
+    expect(onDismiss).toHaveBeenCalledTimes(1)
+  })
+
+  it('disables the actions while the session is being extended', () => {
+    renderDialog({ isRefreshing: true })
+
+    expect(screen.getByRole('button', { name: 'session.expiring.staySignedIn' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'session.expiring.logout' })).toBeDisabled()
+  })
+
+  it('renders nothing while closed', () => {
+    renderDialog({ open: false })
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+})
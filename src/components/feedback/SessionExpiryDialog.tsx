@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/overlay/Dialog";
+import { Button } from "@/components/overlay/Button";
+
+export interface SessionExpiryDialogProps {
+  /** Whether the dialog is visible */
+  open: boolean;
+  /** Session expiry time in milliseconds since the epoch */
+  expiresAt: number | null;
+  /** Called when the user chooses to extend the session */
+  onStaySignedIn: () => void;
+  /** Called when the user chooses to log out */
+  onLogout: () => void;
+  /** Called when the dialog is dismissed without choosing an action */
+  onDismiss: () => void;
+  /** Disables the actions while the session is being extended */
+  isRefreshing?: boolean;
+}
+
+/**
+ * Get the whole seconds left until the given time, never negative.
+ */
+function getSecondsLeft(expiresAt: number | null): number {
+  if (!expiresAt) return 0;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+}
+
+/**
+ * Warning dialog shown shortly before the session token expires.
+ * Displays a live countdown and lets the user extend the session or log out.
+ *
+ * @example
+ * <SessionExpiryDialog
+ *   open={showWarning}
+ *   expiresAt={expiresAt}
+ *   onStaySignedIn={refreshSession}
+ *   onLogout={logout}
+ *   onDismiss={() => setShowWarning(false)}
+ * />
+ */
+export function SessionExpiryDialog({
+  open,
+  expiresAt,
+  onStaySignedIn,
+  onLogout,
+  onDismiss,
+  isRefreshing = false,
+}: SessionExpiryDialogProps) {
+  const { t } = useTranslation("auth");
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(expiresAt));
+
+  // Tick the countdown once per second while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+
+    const tick = () => setSecondsLeft(getSecondsLeft(expiresAt));
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [open, expiresAt]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onDismiss()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("session.expiring.title")}</DialogTitle>
+          <DialogDescription>
+            {t("session.expiring.description", { count: secondsLeft })}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={onLogout} disabled={isRefreshing}>
+            {t("session.expiring.logout")}
+          </Button>
+          <Button onClick={onStaySignedIn} disabled={isRefreshing}>
+            {t("session.expiring.staySignedIn")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+SessionExpiryDialog.displayName = "SessionExpiryDialog";
@@ -1,3 +1,6 @@
 export { Toaster } from "./Toaster";
 export { GlobalErrorBoundary } from "./GlobalErrorBoundary";
 export { SectionErrorBoundary } from "./SectionErrorBoundary";
+export { SessionExpiryDialog, type SessionExpiryDialogProps } from "./SessionExpiryDialog";
+export { PageLoader } from "./PageLoader";
+export { RouteErrorElement } from "./RouteErrorElement";
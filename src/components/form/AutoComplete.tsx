@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import {
   FormFieldWrapper,
@@ -61,7 +61,7 @@ export const AutoComplete = React.forwardRef<HTMLInputElement, AutoCompleteProps
     const containerRef = React.useRef<HTMLDivElement>(null);
     const inputRef = React.useRef<HTMLInputElement>(null);
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
     const watchedValue = watch(name);
 
     // Sync input value with form value
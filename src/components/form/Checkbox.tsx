@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper } from "./FormFieldWrapper";
 
@@ -26,7 +26,7 @@ export const Checkbox = React.forwardRef<HTMLInputElement, CheckboxProps>(
       formState: { errors },
     } = useFormContext();
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     return (
       <Controller
@@ -125,7 +125,7 @@ export const CheckboxGroup = React.forwardRef<HTMLDivElement, CheckboxGroupProps
       formState: { errors },
     } = useFormContext();
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     return (
       <Controller
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper } from "./FormFieldWrapper";
 
@@ -38,7 +38,7 @@ export const FileUpload = React.forwardRef<HTMLInputElement, FileUploadProps>(
     } = useFormContext();
     const inputRef = React.useRef<HTMLInputElement>(null);
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     const handleFileChange = (
       files: FileList | null,
@@ -1,6 +1,7 @@
 import * as React from "react";
 import {
   FormProvider,
+  useFormState,
   type UseFormReturn,
   type FieldValues,
   type SubmitHandler,
@@ -17,17 +18,46 @@ export interface FormProps<TFieldValues extends FieldValues>
   children: React.ReactNode;
   /** Custom class name */
   className?: string;
+  /** Show `root.serverError` as a banner above the fields (default: true) */
+  showRootError?: boolean;
+}
+
+/**
+ * Banner for the form's `root.serverError` message, set via applyServerErrors
+ * or `form.setError("root.serverError", ...)`.
+ */
+function FormRootError() {
+  const { errors } = useFormState();
+  const message = errors.root?.serverError?.message;
+
+  if (!message) return null;
+
+  return (
+    <div
+      className="px-3 py-2 rounded-[length:var(--radius-md)] text-sm"
+      style={{
+        backgroundColor: "var(--color-error-bg)",
+        border: "1px solid var(--color-error)",
+        color: "var(--color-error-text)",
+      }}
+      role="alert"
+    >
+      {message}
+    </div>
+  );
 }
 
 /**
  * Generic Form wrapper component
- * Provides FormProvider context to all children and standardizes form layout
+ * Provides FormProvider context to all children and standardizes form layout.
+ * Server errors set on `root.serverError` are shown as a banner above the fields.
  */
 function Form<TFieldValues extends FieldValues>({
   form,
   onSubmit,
   children,
   className,
+  showRootError = true,
   ...props
 }: FormProps<TFieldValues>) {
   return (
@@ -37,6 +67,7 @@ function Form<TFieldValues extends FieldValues>({
         className={cn("flex flex-col gap-[var(--spacing-4)]", className)}
         {...props}
       >
+        {showRootError && <FormRootError />}
         {children}
       </form>
     </FormProvider>
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper, inputErrorStyleProps } from "./FormFieldWrapper";
 
@@ -49,7 +49,7 @@ export const ImageUpload = React.forwardRef<HTMLInputElement, ImageUploadProps>(
     const inputRef = React.useRef<HTMLInputElement>(null);
     const [previews, setPreviews] = React.useState<string[]>([]);
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     // Cleanup previews on unmount
     React.useEffect(() => {
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper, inputStyleProps, inputErrorStyleProps } from "./FormFieldWrapper";
 
@@ -39,7 +39,7 @@ export const MultiSelect = React.forwardRef<HTMLDivElement, MultiSelectProps>(
     const [searchValue, setSearchValue] = React.useState("");
     const containerRef = React.useRef<HTMLDivElement>(null);
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     // Close dropdown when clicking outside
     React.useEffect(() => {
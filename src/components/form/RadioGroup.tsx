@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper } from "./FormFieldWrapper";
 
@@ -40,7 +40,7 @@ export const RadioGroup = React.forwardRef<HTMLDivElement, RadioGroupProps>(
       formState: { errors },
     } = useFormContext();
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
 
     return (
       <Controller
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useFormContext, Controller } from "react-hook-form";
+import { useFormContext, Controller, get } from "react-hook-form";
 import { cn } from "@/lib/utils";
 import { FormFieldWrapper } from "./FormFieldWrapper";
 
@@ -46,7 +46,7 @@ export const Switch = React.forwardRef<HTMLInputElement, SwitchProps>(
       formState: { errors },
     } = useFormContext();
 
-    const error = errors[name]?.message as string | undefined;
+    const error = get(errors, name)?.message as string | undefined;
     const sizeConfig = switchSizes[size];
 
     return (
@@ -1,6 +1,8 @@
 // Form wrapper
 export { Form } from "./Form";
 export type { FormProps } from "./Form";
+export { applyServerErrors, toFormFieldPath, ROOT_SERVER_ERROR } from "./server-errors";
+export type { ApplyServerErrorsOptions } from "./server-errors";
 
 // Form field wrapper
 export { FormFieldWrapper } from "./FormFieldWrapper";
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { act, render, renderHook, screen } from '@testing-library/react'
+import { useForm, type UseFormReturn } from 'react-hook-form'
+import { ApiError } from '@/api/errors'
+import { Form } from './Form'
+import { Input } from './Input'
+import { applyServerErrors, toFormFieldPath } from './server-errors'
+
+interface BadgeFormValues {
+  name: string
+  meta: { color: string }
+}
+
+const validationError = (fieldErrors: Record<string, string[]>) =>
+  new ApiError({ message: 'Validation failed', status: 422, code: 'VALIDATION_ERROR', fieldErrors })
+
+function renderBadgeForm() {
+  const { result } = renderHook(() =>
+    useForm<BadgeFormValues>({ defaultValues: { name: '', meta: { color: '' } } })
+  )
+
+  const ui = (form: UseFormReturn<BadgeFormValues>) => (
+    <Form form={form} onSubmit={() => {}}>
+      <Input name="name" label="Name" />
+      <Input name="meta.color" label="Color" />
+    </Form>
+  )
+  const view = render(ui(result.current))
+
+  return { form: result.current, rerender: () => view.rerender(ui(result.current)) }
+}
+
+describe('applyServerErrors', () => {
+  it('converts bracket paths to form paths', () => {
+    expect(toFormFieldPath('tags[0].name')).toBe('tags.0.name')
+    expect(toFormFieldPath('[1].name')).toBe('1.name')
+    expect(toFormFieldPath('meta.color')).toBe('meta.color')
+  })
+
+  it('sets field errors, including nested paths', () => {
+    const { form, rerender } = renderBadgeForm()
+
+    act(() => {
+      applyServerErrors(
+        form,
+        validationError({ name: ['Name is taken'], 'meta.color': ['Unknown color'] })
+      )
+    })
+    rerender()
+
+    expect(screen.getByText('Name is taken')).toBeInTheDocument()
+    expect(screen.getByText('Unknown color')).toBeInTheDocument()
+    expect(screen.queryByText('Validation failed')).not.toBeInTheDocument()
+  })
+
+  it('shows unknown fields and non-validation errors in the root banner', () => {
+    const { form, rerender } = renderBadgeForm()
+
+    act(() => {
+      applyServerErrors(form, validationError({ owner: ['Owner is archived'] }))
+    })
+    rerender()
+    expect(screen.getByRole('alert')).toHaveTextContent('Owner is archived')
+
+    act(() => {
+      applyServerErrors(form, new ApiError({ message: 'Server exploded', status: 500 }), {
+        fallbackMessage: 'Could not save the badge',
+      })
+    })
+    rerender()
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not save the badge')
+  })
+
+  it('maps renamed fields and ignores non-API errors', () => {
+    const { form, rerender } = renderBadgeForm()
+
+    let applied = false
+    act(() => {
+      applied = applyServerErrors(form, validationError({ badge_name: ['Too long'] }), {
+        fieldMap: { badge_name: 'name' },
+      })
+    })
+    rerender()
+
+    expect(applied).toBe(true)
+    expect(screen.getByText('Too long')).toBeInTheDocument()
+    expect(applyServerErrors(form, new Error('boom'))).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import type { FieldPath, FieldValues, UseFormReturn } from "react-hook-form";
+import { isApiError, isValidationError } from "@/api/errors";
+
+/**
+ * Form error key for messages that don't belong to a single field.
+ * Rendered as a banner at the top of `Form`.
+ */
+export const ROOT_SERVER_ERROR = "root.serverError" as const;
+
+/**
+ * Options for applyServerErrors.
+ */
+export interface ApplyServerErrorsOptions<TFieldValues extends FieldValues> {
+  /** Map server field names to form field paths, e.g. `{ badge_name: "name" }` */
+  fieldMap?: Record<string, FieldPath<TFieldValues>>;
+  /** Root message for errors that are not field validation failures (default: the error message) */
+  fallbackMessage?: string;
+  /** Focus the first field with an error (default: true) */
+  shouldFocus?: boolean;
+}
+
+/**
+ * Convert a server field name to a react-hook-form path: `tags[0].name` -> `tags.0.name`.
+ */
+export function toFormFieldPath(field: string): string {
+  return field.replace(/\[(\w+)\]/g, ".$1").replace(/^\./, "");
+}
+
+/**
+ * Map a failed request onto a react-hook-form instance.
+ *
+ * Field errors from a validation failure (422) are set on their fields, nested
+ * paths included. Messages for fields the form doesn't have, and failures without
+ * field errors, are set on `root.serverError` so `Form` shows them as a banner.
+ *
+ * @param form - The useForm instance
+ * @param error - The rejection, usually from a mutation's onError
+ * @param options - Field name mapping, fallback message and focus behavior
+ * @returns Whether the error was an ApiError and has been applied to the form
+ *
+ * @example
+ * const createBadge = useGenericMutation<Badge, BadgeFormData>({
+ *   method: "POST",
+ *   url: "/badges",
+ *   onError: (error) => applyServerErrors(form, error),
+ * });
+ */
+export function applyServerErrors<TFieldValues extends FieldValues>(
+  form: Pick<UseFormReturn<TFieldValues>, "setError" | "getValues">,
+  error: unknown,
+  { fieldMap = {}, fallbackMessage, shouldFocus = true }: ApplyServerErrorsOptions<TFieldValues> = {}
+): boolean {
+  if (!isApiError(error) || error.isCancelled) return false;
+
+  if (!isValidationError(error) || !error.hasFieldErrors) {
+    form.setError(ROOT_SERVER_ERROR, { type: "server", message: fallbackMessage ?? error.message });
+    return true;
+  }
+
+  const unmatched: string[] = [];
+  let focused = false;
+
+  for (const [field, messages] of Object.entries(error.fieldErrors)) {
+    const path = (fieldMap[field] ?? toFormFieldPath(field)) as FieldPath<TFieldValues>;
+
+    // Only fields present in the form's values can display an error
+    if (form.getValues(path) === undefined) {
+      unmatched.push(...messages);
+      continue;
+    }
+
+    form.setError(
+      path,
+      { type: "server", message: messages.join(" ") },
+      { shouldFocus: shouldFocus && !focused }
+    );
+    focused = true;
+  }
+
+  if (unmatched.length > 0) {
+    form.setError(ROOT_SERVER_ERROR, { type: "server", message: unmatched.join(" ") });
+  }
+
+  return true;
+}
@@ -24,3 +24,6 @@ export * from "./feedback";
 
 // UI components
 export * from "./ui";
+
+// Auth components
+export * from "./auth";
@@ -17,9 +17,13 @@ import {
   DropdownMenuLabel,
 } from "@/components/navigation/DropdownMenu";
 import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { OfflineSyncIndicator } from "@/components/ui/OfflineSyncIndicator";
+import { NetworkInspectorToggle } from "@/components/ui/NetworkInspector";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
-import { useAuth, useCanAccessScreen } from "@/hooks/useAuth";
-import type { Screen } from "@/types/auth";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getNavigationRoutes, type NavigationRoute } from "@/routes/paths";
+import { RouteBreadcrumbs } from "@/routes/RouteBreadcrumbs";
 
 // ============================================================================
 // Sidebar Context
@@ -46,82 +50,10 @@ function useSidebar() {
 // Navigation Configuration
 // ============================================================================
 
-interface NavItem {
-  /** Translation key for the label (e.g., "navigation.dashboard") */
-  labelKey: string;
-  href: string;
-  screen: Screen;
-  icon: ReactNode;
-}
+type NavItem = NavigationRoute;
 
-const navigationItems: NavItem[] = [
-  {
-    labelKey: "navigation.dashboard",
-    href: "/dashboard",
-    screen: "DASHBOARD",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <rect x="3" y="3" width="7" height="7" rx="1" />
-        <rect x="14" y="3" width="7" height="7" rx="1" />
-        <rect x="14" y="14" width="7" height="7" rx="1" />
-        <rect x="3" y="14" width="7" height="7" rx="1" />
-      </svg>
-    ),
-  },
-  {
-    labelKey: "navigation.badges",
-    href: "/badges",
-    screen: "BADGE",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <path d="M12 15l-3.5 2 1-4L6 10l4-.5L12 6l2 3.5 4 .5-3.5 3 1 4z" />
-      </svg>
-    ),
-  },
-  {
-    labelKey: "navigation.projects",
-    href: "/projects",
-    screen: "PROJECT",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <path d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
-      </svg>
-    ),
-  },
-  {
-    labelKey: "navigation.users",
-    href: "/users",
-    screen: "USERS",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2" />
-        <circle cx="9" cy="7" r="4" />
-        <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75" />
-      </svg>
-    ),
-  },
-  {
-    labelKey: "navigation.reports",
-    href: "/reports",
-    screen: "REPORTS",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <path d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-      </svg>
-    ),
-  },
-  {
-    labelKey: "navigation.settings",
-    href: "/settings",
-    screen: "SETTINGS",
-    icon: (
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
-        <circle cx="12" cy="12" r="3" />
-        <path d="M19.4 15a1.65 1.65 0 00.33 1.82l.06.06a2 2 0 010 2.83 2 2 0 01-2.83 0l-.06-.06a1.65 1.65 0 00-1.82-.33 1.65 1.65 0 00-1 1.51V21a2 2 0 01-2 2 2 2 0 01-2-2v-.09A1.65 1.65 0 009 19.4a1.65 1.65 0 00-1.82.33l-.06.06a2 2 0 01-2.83 0 2 2 0 010-2.83l.06-.06a1.65 1.65 0 00.33-1.82 1.65 1.65 0 00-1.51-1H3a2 2 0 01-2-2 2 2 0 012-2h.09A1.65 1.65 0 004.6 9a1.65 1.65 0 00-.33-1.82l-.06-.06a2 2 0 010-2.83 2 2 0 012.83 0l.06.06a1.65 1.65 0 001.82.33H9a1.65 1.65 0 001-1.51V3a2 2 0 012-2 2 2 0 012 2v.09a1.65 1.65 0 001 1.51 1.65 1.65 0 001.82-.33l.06-.06a2 2 0 012.83 0 2 2 0 010 2.83l-.06.06a1.65 1.65 0 00-.33 1.82V9a1.65 1.65 0 001.51 1H21a2 2 0 012 2 2 2 0 01-2 2h-.09a1.65 1.65 0 00-1.51 1z" />
-      </svg>
-    ),
-  },
-];
+/** Sidebar items, derived from the route registry (entries with `nav`) */
+const navigationItems: NavItem[] = getNavigationRoutes();
 
 // ============================================================================
 // Theme Toggle Component
@@ -190,7 +122,8 @@ function SidebarNavItem({ item }: SidebarNavItemProps) {
   const { isCollapsed, setMobileOpen } = useSidebar();
   const { t } = useTranslation("common");
   const location = useLocation();
-  const canAccess = useCanAccessScreen(item.screen);
+  const { check } = usePermissions();
+  const canAccess = !item.screen || check({ screen: item.screen });
 
   // Don't render items the user can't access
   if (!canAccess) return null;
@@ -409,11 +342,15 @@ function Header() {
         </svg>
       </button>
 
-      {/* Spacer for desktop */}
-      <div className="hidden md:block" />
+      {/* Breadcrumb trail for the current route (desktop) */}
+      <div className="hidden md:block min-w-0">
+        <RouteBreadcrumbs />
+      </div>
 
       {/* Right side actions */}
       <div className="flex items-center gap-2">
+        <OfflineSyncIndicator />
+        <NetworkInspectorToggle />
         <LanguageSwitcher />
         <ThemeToggle />
         <UserAvatarDropdown />
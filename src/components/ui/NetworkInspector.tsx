@@ -0,0 +1,317 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/overlay/Button";
+import { networkLog, toCurl, type NetworkLogEntry } from "@/api/network-log";
+import { useCopyToClipboard } from "@/hooks/useCopyToClipboard";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { cn } from "@/lib/utils";
+
+/**
+ * Window event that opens or closes the network inspector.
+ */
+export const NETWORK_INSPECTOR_TOGGLE_EVENT = "network-inspector:toggle";
+
+/**
+ * Open or close the network inspector from anywhere.
+ */
+export function toggleNetworkInspector() {
+  window.dispatchEvent(new CustomEvent(NETWORK_INSPECTOR_TOGGLE_EVENT));
+}
+
+/**
+ * Keyboard shortcut that toggles the inspector: Alt+Shift+N
+ */
+function isToggleShortcut(event: KeyboardEvent) {
+  return event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey && event.code === "KeyN";
+}
+
+function statusColor(entry: NetworkLogEntry) {
+  if (entry.state === "pending" || entry.state === "cancelled") return "var(--color-text-muted)";
+  return entry.state === "success" ? "var(--color-success)" : "var(--color-error)";
+}
+
+function statusLabel(entry: NetworkLogEntry) {
+  if (entry.state === "pending") return "…";
+  if (entry.state === "cancelled") return "cancelled";
+  return entry.status === 0 ? "failed" : String(entry.status);
+}
+
+/**
+ * Path and query of a logged URL, for the compact list.
+ */
+function displayPath(url: string) {
+  const { pathname, search } = new URL(url, window.location.origin);
+  return `${pathname}${search}`;
+}
+
+/**
+ * Meta flags that were set on the request, e.g. "disableToast", "retry: 3".
+ */
+function metaFlags(entry: NetworkLogEntry) {
+  return Object.entries(entry.meta ?? {})
+    .filter(([, value]) => value !== undefined && value !== false)
+    .map(([name, value]) => (value === true ? name : `${name}: ${JSON.stringify(value)}`));
+}
+
+function formatBody(body: unknown) {
+  if (body === undefined || body === "") return "—";
+  if (typeof body === "string") {
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return body;
+    }
+  }
+  return JSON.stringify(body, null, 2);
+}
+
+/**
+ * Network Inspector Toggle
+ *
+ * Header button that opens the network inspector. Renders nothing outside development.
+ */
+export function NetworkInspectorToggle({ className }: { className?: string }) {
+  if (!import.meta.env.DEV) return null;
+
+  return (
+    <button
+      onClick={toggleNetworkInspector}
+      className={cn("p-2 rounded-[length:var(--radius-md)] transition-colors", className)}
+      style={{ color: "var(--color-text-secondary)", backgroundColor: "transparent" }}
+      aria-label="Toggle network inspector (Alt+Shift+N)"
+      title="Network inspector (Alt+Shift+N)"
+    >
+      <svg
+        className="w-5 h-5"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+      >
+        <path d="M7 4v16M7 20l-3-3M7 20l3-3M17 20V4M17 4l-3 3M17 4l3 3" />
+      </svg>
+    </button>
+  );
+}
+
+/**
+ * Network Inspector
+ *
+ * Development panel listing every request sent through `apiClient`: method,
+ * URL, params, status, timing, toast/retry meta and whether MSW answered it.
+ * A request can be replayed or copied as a cURL command. Toggle it with
+ * Alt+Shift+N or the NetworkInspectorToggle button; renders nothing outside
+ * development.
+ *
+ * @example
+ * // Once, near the root of the app
+ * {import.meta.env.DEV && <NetworkInspector />}
+ */
+export function NetworkInspector() {
+  const [isOpen, setIsOpen] = useLocalStorage("network-inspector-open", false);
+  const { entries } = useSyncExternalStore(networkLog.subscribe, networkLog.getSnapshot);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const { copy, isSuccess: isCopied } = useCopyToClipboard();
+
+  useEffect(() => {
+    const toggle = () => setIsOpen((open) => !open);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isToggleShortcut(event)) return;
+      event.preventDefault();
+      toggle();
+    };
+
+    window.addEventListener(NETWORK_INSPECTOR_TOGGLE_EVENT, toggle);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener(NETWORK_INSPECTOR_TOGGLE_EVENT, toggle);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [setIsOpen]);
+
+  if (!import.meta.env.DEV || !isOpen) return null;
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? entries.filter((entry) => `${entry.method} ${entry.url}`.toLowerCase().includes(query))
+    : entries;
+  const selected = entries.find((entry) => entry.id === selectedId) ?? null;
+
+  const replay = (entry: NetworkLogEntry) => {
+    networkLog.replay(entry).catch(() => {
+      // The outcome is logged as a new entry
+    });
+  };
+
+  const copyCurl = async (entry: NetworkLogEntry) => {
+    if (!(await copy(toCurl(entry)))) {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  return (
+    <section
+      className="fixed inset-x-0 bottom-0 z-50 flex h-[45vh] flex-col border-t text-[length:var(--text-xs)] shadow-lg"
+      style={{
+        backgroundColor: "var(--color-surface)",
+        borderColor: "var(--color-border)",
+        color: "var(--color-text)",
+      }}
+      aria-label="Network inspector"
+    >
+      <header
+        className="flex items-center gap-2 border-b px-3 py-2"
+        style={{ borderColor: "var(--color-border)" }}
+      >
+        <h2 className="text-[length:var(--text-sm)] font-[number:var(--font-semibold)]">
+          Network
+        </h2>
+        <span style={{ color: "var(--color-text-muted)" }}>{entries.length} requests</span>
+        <input
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder="Filter by method or URL"
+          aria-label="Filter requests"
+          className="ml-auto w-56 rounded-[length:var(--radius-md)] border px-2 py-1"
+          style={{ borderColor: "var(--color-border)", backgroundColor: "var(--color-bg)" }}
+        />
+        <Button size="sm" variant="ghost" onClick={() => networkLog.clear()}>
+          Clear
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close network inspector">
+          ✕
+        </Button>
+      </header>
+
+      <div className="flex min-h-0 flex-1">
+        <ul className="w-1/2 overflow-y-auto border-r" style={{ borderColor: "var(--color-border)" }}>
+          {visible.length === 0 && (
+            <li className="px-3 py-4" style={{ color: "var(--color-text-muted)" }}>
+              No requests yet
+            </li>
+          )}
+          {visible.map((entry) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => setSelectedId(entry.id)}
+                className="flex w-full items-center gap-2 px-3 py-1.5 text-left font-mono"
+                style={{
+                  backgroundColor:
+                    entry.id === selectedId ? "var(--color-surface-hover)" : "transparent",
+                }}
+                aria-current={entry.id === selectedId}
+              >
+                <span className="w-14 shrink-0 font-semibold">{entry.method}</span>
+                <span className="w-16 shrink-0" style={{ color: statusColor(entry) }}>
+                  {statusLabel(entry)}
+                </span>
+                <span className="min-w-0 flex-1 truncate">{displayPath(entry.url)}</span>
+                {entry.mocked && (
+                  <span className="shrink-0" style={{ color: "var(--color-primary)" }}>
+                    MSW
+                  </span>
+                )}
+                {entry.retryCount > 0 && (
+                  <span className="shrink-0" style={{ color: "var(--color-warning)" }}>
+                    retry {entry.retryCount}
+                  </span>
+                )}
+                <span className="w-14 shrink-0 text-right" style={{ color: "var(--color-text-muted)" }}>
+                  {entry.duration !== undefined ? `${entry.duration} ms` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="w-1/2 overflow-y-auto px-3 py-2">
+          {selected ? (
+            <EntryDetails
+              entry={selected}
+              onReplay={() => replay(selected)}
+              onCopyCurl={() => void copyCurl(selected)}
+              isCopied={isCopied}
+            />
+          ) : (
+            <p style={{ color: "var(--color-text-muted)" }}>Select a request to see its details</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+interface EntryDetailsProps {
+  entry: NetworkLogEntry;
+  onReplay: () => void;
+  onCopyCurl: () => void;
+  isCopied: boolean;
+}
+
+function EntryDetails({ entry, onReplay, onCopyCurl, isCopied }: EntryDetailsProps) {
+  const flags = metaFlags(entry);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="break-all font-mono">
+          {entry.method} {entry.url}
+        </p>
+        <div className="flex shrink-0 gap-2">
+          <Button size="sm" variant="outline" onClick={onReplay}>
+            Replay
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCopyCurl}>
+            {isCopied ? "Copied" : "Copy as cURL"}
+          </Button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[8rem_1fr] gap-x-2 gap-y-1">
+        <dt style={{ color: "var(--color-text-muted)" }}>Status</dt>
+        <dd style={{ color: statusColor(entry) }}>
+          {statusLabel(entry)}
+          {entry.error && ` — ${entry.error}`}
+        </dd>
+        <dt style={{ color: "var(--color-text-muted)" }}>Started</dt>
+        <dd>{new Date(entry.startedAt).toLocaleTimeString()}</dd>
+        <dt style={{ color: "var(--color-text-muted)" }}>Duration</dt>
+        <dd>{entry.duration !== undefined ? `${entry.duration} ms` : "pending"}</dd>
+        <dt style={{ color: "var(--color-text-muted)" }}>Served by</dt>
+        <dd>{entry.mocked ? "MSW handler" : "Network"}</dd>
+        <dt style={{ color: "var(--color-text-muted)" }}>Meta</dt>
+        <dd className="font-mono">{flags.length > 0 ? flags.join(", ") : "—"}</dd>
+        {entry.retryCount > 0 && (
+          <>
+            <dt style={{ color: "var(--color-text-muted)" }}>Attempt</dt>
+            <dd>retry {entry.retryCount}</dd>
+          </>
+        )}
+      </dl>
+
+      <DetailsBlock title="Params" value={entry.params} />
+      <DetailsBlock title="Request headers" value={entry.requestHeaders} />
+      <DetailsBlock title="Request body" value={entry.requestBody} />
+      <DetailsBlock title="Response headers" value={entry.responseHeaders} />
+      <DetailsBlock title="Response body" value={entry.responseBody} />
+    </div>
+  );
+}
+
+function DetailsBlock({ title, value }: { title: string; value: unknown }) {
+  return (
+    <details open={title === "Response body"}>
+      <summary className="cursor-pointer font-[number:var(--font-semibold)]">{title}</summary>
+      <pre
+        className="mt-1 max-h-60 overflow-auto rounded-[length:var(--radius-md)] p-2 font-mono"
+        style={{ backgroundColor: "var(--color-bg)" }}
+      >
+        {formatBody(value)}
+      </pre>
+    </details>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/overlay/Popover";
+import { Button } from "@/components/overlay/Button";
+import { OFFLINE_QUEUE_CONFLICT_EVENT, type QueuedMutation } from "@/api/offline-queue";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { cn } from "@/lib/utils";
+
+interface OfflineSyncIndicatorProps {
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Offline Sync Indicator
+ *
+ * Header status for the offline mutation queue. Hidden while online with
+ * nothing queued; otherwise shows the offline state, the number of changes
+ * pending sync, or the number the server rejected. Opens a panel listing the
+ * queued changes with sync, retry and discard actions. Conflicts (409) found
+ * during replay are also announced with a toast.
+ *
+ * @example
+ * <OfflineSyncIndicator />
+ */
+export function OfflineSyncIndicator({ className }: OfflineSyncIndicatorProps) {
+  const { t } = useTranslation("common");
+  const { items, pendingCount, rejected, isSyncing, isOnline, sync, retry, discard } =
+    useOfflineQueue();
+
+  useEffect(() => {
+    const handleConflict = (event: Event) => {
+      const { item } = (event as CustomEvent<{ item: QueuedMutation }>).detail;
+      toast.error(t("offlineSync.conflictToast", { method: item.method, url: item.url }));
+    };
+
+    window.addEventListener(OFFLINE_QUEUE_CONFLICT_EVENT, handleConflict);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CONFLICT_EVENT, handleConflict);
+  }, [t]);
+
+  if (isOnline && items.length === 0) return null;
+
+  const label = !isOnline
+    ? t("offlineSync.offline")
+    : isSyncing
+      ? t("offlineSync.syncing")
+      : rejected.length > 0
+        ? t("offlineSync.rejected", { count: rejected.length })
+        : t("offlineSync.pending", { count: pendingCount });
+  const color =
+    rejected.length > 0
+      ? "var(--color-error)"
+      : !isOnline
+        ? "var(--color-warning)"
+        : "var(--color-text-secondary)";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-2 px-2 py-1 rounded-[length:var(--radius-md)] text-sm font-medium transition-colors",
+            className
+          )}
+          style={{ color, backgroundColor: "transparent" }}
+          aria-label={t("offlineSync.title")}
+        >
+          <CloudIcon className={cn("w-5 h-5", isSyncing && "animate-pulse")} offline={!isOnline} />
+          <span className="hidden sm:inline">{label}</span>
+          {pendingCount > 0 && (
+            <span className="sm:hidden" aria-hidden="true">
+              {pendingCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <p className="text-sm font-semibold">{t("offlineSync.title")}</p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void sync()}
+            disabled={!isOnline || isSyncing || pendingCount === 0}
+          >
+            {t("offlineSync.syncNow")}
+          </Button>
+        </div>
+        {!isOnline && (
+          <p className="text-xs mb-2" style={{ color: "var(--color-text-muted)" }}>
+            {t("offlineSync.offlineDescription")}
+          </p>
+        )}
+        {items.length === 0 ? (
+          <p className="text-sm" style={{ color: "var(--color-text-muted)" }}>
+            {t("offlineSync.empty")}
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className="rounded-[length:var(--radius-md)] border px-3 py-2 text-sm"
+                style={{ borderColor: "var(--color-border)" }}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-xs truncate">
+                    {item.method} {item.url}
+                  </span>
+                  <span
+                    className="text-xs shrink-0"
+                    style={{
+                      color: item.status === "pending" ? "var(--color-text-muted)" : "var(--color-error)",
+                    }}
+                  >
+                    {t(`offlineSync.status.${item.status}`)}
+                  </span>
+                </div>
+                {item.error && (
+                  <p className="text-xs mt-1" style={{ color: "var(--color-text-muted)" }}>
+                    {item.error.message}
+                  </p>
+                )}
+                {item.status !== "pending" && (
+                  <div className="flex justify-end gap-2 mt-2">
+                    <Button size="sm" variant="ghost" onClick={() => void discard(item.id)}>
+                      {t("offlineSync.discard")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => void retry(item.id)}
+                      disabled={!isOnline || isSyncing}
+                    >
+                      {t("offlineSync.retry")}
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CloudIcon({ className, offline }: { className?: string; offline: boolean }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      <path d="M17.5 19H9a7 7 0 1 1 6.71-9h1.79a4.5 4.5 0 1 1 0 9Z" />
+      {offline && <line x1="3" y1="3" x2="21" y2="21" />}
+    </svg>
+  );
+}
+
+export default OfflineSyncIndicator;
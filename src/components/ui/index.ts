@@ -1 +1,8 @@
 export { LanguageSwitcher } from "./LanguageSwitcher";
+export { OfflineSyncIndicator } from "./OfflineSyncIndicator";
+export {
+  NetworkInspector,
+  NetworkInspectorToggle,
+  NETWORK_INSPECTOR_TOGGLE_EVENT,
+  toggleNetworkInspector,
+} from "./NetworkInspector";
@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor, screen } from '@testing-library/react'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import type { ReactNode } from 'react'
+import { AuthProvider } from './AuthContext'
+import { useAuth } from '@/hooks/useAuth'
+import {
+  configureTokenStorage,
+  getAuthToken,
+  refreshAuthToken,
+  setAuthToken,
+} from '@/api/client'
+import { createLocalTokenStorage, createMemoryTokenStorage } from '@/api/token-storage'
+import { AUTH_SYNC_CHANNEL, type AuthSyncMessage } from './auth-sync'
+import type { User } from '@/types/auth'
+
+vi.mock('@/api/client', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/api/client')>()
+  return { ...actual, refreshAuthToken: vi.fn(actual.refreshAuthToken) }
+})
+
+const adminUser: User = {
+  id: 'user-1',
+  email: 'admin@example.com',
+  name: 'Admin User',
+  permissions: [
+    { screen: 'BADGE', privilege: 'VIEW' },
+    { screen: 'BADGE', privilege: 'EDIT' },
+  ],
+}
+
+const server = setupServer(
+  http.get('/api/auth/me', () => HttpResponse.json(adminUser))
+)
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AuthProvider>{children}</AuthProvider>
+)
+
+/**
+ * Render useAuth with a stored session and wait for /auth/me to verify it.
+ */
+async function renderAuthenticated() {
+  localStorage.setItem('auth_token', 'token')
+  localStorage.setItem('auth_user', JSON.stringify(adminUser))
+  const rendered = renderHook(() => useAuth(), { wrapper })
+  await waitFor(() => expect(rendered.result.current.isAuthenticated).toBe(true))
+  return rendered
+}
+
+/**
+ * Another tab's end of the auth sync channel.
+ */
+const otherTab = new BroadcastChannel(AUTH_SYNC_CHANNEL)
+
+/**
+ * Announce an auth change from another tab and wait for it to be delivered.
+ */
+async function announceFromOtherTab(message: AuthSyncMessage) {
+  const delivered = new Promise((resolve) => setTimeout(resolve, 20))
+  otherTab.postMessage(message)
+  await act(() => delivered)
+}
+
+/**
+ * Collect the messages this tab announces.
+ */
+function listenAsOtherTab() {
+  const messages: AuthSyncMessage[] = []
+  const listener = (event: MessageEvent<AuthSyncMessage>) => messages.push(event.data)
+  otherTab.addEventListener('message', listener)
+  return { messages, stop: () => otherTab.removeEventListener('message', listener) }
+}
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+afterAll(() => {
+  server.close()
+  otherTab.close()
+})
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+afterEach(() => {
+  server.resetHandlers()
+  localStorage.clear()
+})
+
+describe('AuthProvider session bootstrap', () => {
+  it('starts signed out without loading when no token is stored', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.isAuthenticated).toBe(false)
+  })
+
+  it('starts loading and does not trust the cached user', () => {
+    localStorage.setItem('auth_token', 'token')
+    localStorage.setItem('auth_user', JSON.stringify(adminUser))
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    expect(result.current.isLoading).toBe(true)
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(result.current.user).toBeNull()
+  })
+
+  it('replaces the cached user with the server response', async () => {
+    const serverUser: User = {
+      ...adminUser,
+      permissions: [{ screen: 'BADGE', privilege: 'VIEW' }],
+    }
+    server.use(http.get('/api/auth/me', () => HttpResponse.json(serverUser)))
+
+    const { result } = await renderAuthenticated()
+
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.user).toEqual(serverUser)
+    expect(result.current.hasPermission('BADGE', 'EDIT')).toBe(false)
+    expect(JSON.parse(localStorage.getItem('auth_user') || '')).toEqual(serverUser)
+  })
+
+  it('logs out when the session cannot be verified', async () => {
+    server.use(
+      http.get('/api/auth/me', () =>
+        HttpResponse.json({ message: 'Server error' }, { status: 500 })
+      )
+    )
+    localStorage.setItem('auth_token', 'token')
+    localStorage.setItem('auth_user', JSON.stringify(adminUser))
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(localStorage.getItem('auth_token')).toBeNull()
+    expect(localStorage.getItem('auth_user')).toBeNull()
+  })
+})
+
+describe('AuthProvider cross-tab sync', () => {
+  it('logs in when another tab logs in', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    expect(result.current.isAuthenticated).toBe(false)
+
+    localStorage.setItem('auth_user', JSON.stringify(adminUser))
+    localStorage.setItem('auth_token', 'token-from-other-tab')
+    await announceFromOtherTab({ type: 'login', userId: adminUser.id })
+
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(result.current.token).toBe('token-from-other-tab')
+    expect(result.current.user).toEqual(adminUser)
+  })
+
+  it('logs out when another tab logs out', async () => {
+    const { result } = await renderAuthenticated()
+
+    localStorage.clear()
+    await announceFromOtherTab({ type: 'logout', userId: adminUser.id })
+
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(result.current.user).toBeNull()
+  })
+
+  it('picks up permission changes made in another tab', async () => {
+    const { result } = await renderAuthenticated()
+    expect(result.current.hasPermission('BADGE', 'EDIT')).toBe(true)
+
+    const downgraded: User = {
+      ...adminUser,
+      permissions: [{ screen: 'BADGE', privilege: 'VIEW' }],
+    }
+    localStorage.setItem('auth_user', JSON.stringify(downgraded))
+    await announceFromOtherTab({ type: 'update', userId: adminUser.id })
+
+    expect(result.current.hasPermission('BADGE', 'EDIT')).toBe(false)
+    expect(result.current.hasPermission('BADGE', 'VIEW')).toBe(true)
+  })
+
+  it('ignores raw storage events', async () => {
+    const { result } = await renderAuthenticated()
+
+    act(() => {
+      localStorage.removeItem('auth_token')
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token', newValue: null }))
+    })
+
+    expect(result.current.isAuthenticated).toBe(true)
+  })
+
+  it('announces login, user updates and logout to other tabs', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    const { messages, stop } = listenAsOtherTab()
+
+    act(() => result.current.login(adminUser, 'token'))
+    act(() => result.current.updateUser({ ...adminUser, name: 'Renamed' }))
+    act(() => result.current.logout())
+    await waitFor(() => expect(messages).toHaveLength(3))
+    stop()
+
+    expect(messages).toEqual([
+      { type: 'login', userId: 'user-1' },
+      { type: 'update', userId: 'user-1' },
+      { type: 'logout', userId: 'user-1' },
+    ])
+  })
+
+  it('updateUser stores the user so other tabs can sync it', async () => {
+    const { result } = await renderAuthenticated()
+
+    act(() => {
+      result.current.updateUser({ ...adminUser, name: 'Renamed' })
+    })
+
+    expect(result.current.user?.name).toBe('Renamed')
+    expect(JSON.parse(localStorage.getItem('auth_user') || '')).toMatchObject({
+      name: 'Renamed',
+    })
+  })
+})
+
+describe('AuthProvider cross-tab sync with tab-scoped tokens', () => {
+  const otherUser: User = { id: 'user-2', email: 'user@example.com', name: 'Other User' }
+
+  beforeEach(() => configureTokenStorage(createMemoryTokenStorage()))
+  afterEach(() => configureTokenStorage(createLocalTokenStorage()))
+
+  function renderSignedIn() {
+    const rendered = renderHook(() => useAuth(), { wrapper })
+    act(() => rendered.result.current.login(adminUser, 'token-a'))
+    return rendered
+  }
+
+  it('keeps its own user when another tab signs in as someone else', async () => {
+    const { result } = renderSignedIn()
+
+    localStorage.setItem('auth_user', JSON.stringify(otherUser))
+    await announceFromOtherTab({ type: 'login', userId: otherUser.id })
+
+    expect(result.current.user).toEqual(adminUser)
+    expect(result.current.token).toBe('token-a')
+    expect(getAuthToken()).toBe('token-a')
+  })
+
+  it('drops its in-memory token when its user logs out in another tab', async () => {
+    const { result } = renderSignedIn()
+
+    localStorage.removeItem('auth_user')
+    await announceFromOtherTab({ type: 'logout', userId: adminUser.id })
+
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(getAuthToken()).toBeNull()
+  })
+
+  it('ignores logouts of other users', async () => {
+    const { result } = renderSignedIn()
+
+    await announceFromOtherTab({ type: 'logout', userId: otherUser.id })
+
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(getAuthToken()).toBe('token-a')
+  })
+
+  it('does not sign in from another tab without a token of its own', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    localStorage.setItem('auth_user', JSON.stringify(adminUser))
+    await announceFromOtherTab({ type: 'login', userId: adminUser.id })
+
+    expect(result.current.isAuthenticated).toBe(false)
+  })
+})
+
+describe('AuthProvider session expiry', () => {
+  const MINUTE = 60 * 1000
+
+  /**
+   * Unsigned JWT that expires the given time from now.
+   */
+  function createToken(expiresIn: number) {
+    const payload = btoa(JSON.stringify({ sub: 'user-1', exp: (Date.now() + expiresIn) / 1000 }))
+    return `header.${payload}.signature`
+  }
+
+  function isWarningShown() {
+    return screen.queryByRole('dialog', { name: 'session.expiring.title' }) !== null
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(refreshAuthToken).mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('warns before the token expires and logs out at expiry', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(5 * MINUTE)))
+
+    act(() => vi.advanceTimersByTime(4 * MINUTE - 1000))
+    expect(isWarningShown()).toBe(false)
+
+    act(() => vi.advanceTimersByTime(1000))
+    expect(isWarningShown()).toBe(true)
+
+    act(() => vi.advanceTimersByTime(MINUTE))
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(localStorage.getItem('auth_token')).toBeNull()
+  })
+
+  it('waits for the connection before ending a session that expires offline', async () => {
+    vi.mocked(refreshAuthToken).mockRejectedValueOnce(new Error('Refresh failed'))
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(5 * MINUTE)))
+
+    act(() => vi.advanceTimersByTime(10 * MINUTE))
+    expect(result.current.isAuthenticated).toBe(true)
+
+    onLine.mockReturnValue(true)
+    await act(async () => {
+      window.dispatchEvent(new Event('online'))
+      await vi.advanceTimersByTimeAsync(0)
+    })
+    expect(refreshAuthToken).toHaveBeenCalled()
+    expect(result.current.isAuthenticated).toBe(false)
+    onLine.mockRestore()
+  })
+
+  it('refreshes the token ahead of expiry when a refresh token is stored', async () => {
+    vi.mocked(refreshAuthToken).mockImplementationOnce(async () => {
+      const token = createToken(60 * MINUTE)
+      setAuthToken(token)
+      window.dispatchEvent(new CustomEvent('auth:token-refreshed', { detail: { token } }))
+      return token
+    })
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(5 * MINUTE), 'refresh-token'))
+
+    await act(() => vi.advanceTimersByTimeAsync(4 * MINUTE))
+    expect(refreshAuthToken).toHaveBeenCalledTimes(1)
+    expect(isWarningShown()).toBe(false)
+
+    await act(() => vi.advanceTimersByTimeAsync(10 * MINUTE))
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(result.current.expiresAt).toBeGreaterThan(Date.now())
+  })
+
+  it('shows the warning when the refresh fails', async () => {
+    vi.mocked(refreshAuthToken).mockRejectedValueOnce(new Error('Refresh failed'))
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(5 * MINUTE), 'refresh-token'))
+
+    await act(() => vi.advanceTimersByTimeAsync(4 * MINUTE))
+    expect(isWarningShown()).toBe(true)
+    expect(result.current.isAuthenticated).toBe(true)
+  })
+
+  it('waits for tokens that expire beyond the longest setTimeout delay', () => {
+    const thirtyDays = 30 * 24 * 60 * MINUTE
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(thirtyDays)))
+
+    act(() => vi.advanceTimersByTime(MINUTE))
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(isWarningShown()).toBe(false)
+
+    act(() => vi.advanceTimersByTime(thirtyDays - 2 * MINUTE))
+    expect(isWarningShown()).toBe(true)
+  })
+
+  it('drops the old timers when the token changes or the user logs out', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper })
+    act(() => result.current.login(adminUser, createToken(5 * MINUTE)))
+    act(() => result.current.login(adminUser, createToken(60 * MINUTE)))
+
+    act(() => vi.advanceTimersByTime(10 * MINUTE))
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(isWarningShown()).toBe(false)
+
+    act(() => result.current.logout())
+    act(() => vi.advanceTimersByTime(60 * MINUTE))
+    expect(isWarningShown()).toBe(false)
+    expect(refreshAuthToken).not.toHaveBeenCalled()
+  })
+})
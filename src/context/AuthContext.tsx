@@ -3,6 +3,8 @@ import {
   useState,
   useEffect,
   useCallback,
+  useMemo,
+  useRef,
   type ReactNode,
 } from "react";
 import type {
@@ -11,17 +13,51 @@ import type {
   Permission,
   Screen,
   Privilege,
+  Role,
 } from "@/types/auth";
-import { getAuthToken, setAuthToken, removeAuthToken } from "@/api/client";
+import {
+  getAuthToken,
+  setAuthToken,
+  removeAuthToken,
+  getRefreshToken,
+  setRefreshToken,
+  removeRefreshToken,
+  refreshAuthToken,
+  getTokenStorage,
+} from "@/api/client";
+import { apiGet } from "@/api/generic-api";
+import { offlineQueue } from "@/api/offline-queue";
+import { getTokenExpiry } from "@/lib/jwt";
+import {
+  UNAUTHENTICATED_STATE,
+  storeUser,
+  removeUser,
+  getStoredUser,
+  getStoredAuthState,
+  markSessionVerified,
+} from "./auth-storage";
+import { broadcastAuthChange, subscribeToAuthChanges } from "./auth-sync";
+import {
+  ROLES,
+  getUserPermissionSet,
+  type PermissionSet,
+} from "@/lib/permissions";
+import { SessionExpiryDialog } from "@/components/feedback/SessionExpiryDialog";
 
 /**
  * Auth context value interface.
  */
 interface AuthContextValue extends AuthState {
-  /** Login with user data and token */
-  login: (user: User, token: string) => void;
+  /** Login with user data, access token and optional refresh token */
+  login: (user: User, token: string, refreshToken?: string) => void;
   /** Logout and clear authentication */
   logout: () => void;
+  /** Replace the current user's data (e.g. after a profile or permission change) */
+  updateUser: (user: User) => void;
+  /** Extend the session by refreshing the access token; logs out if it fails */
+  refreshSession: () => Promise<void>;
+  /** The user's effective permissions (roles, wildcards and implications applied) */
+  permissionSet: PermissionSet;
   /** Check if user has a specific permission */
   hasPermission: (screen: Screen, privilege: Privilege) => boolean;
   /** Check if user has any permission for a screen */
@@ -36,91 +72,89 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 export { AuthContext };
 
 /**
- * Storage key for user data.
- */
-const USER_DATA_KEY = "auth_user";
-
-/**
- * Get stored user data from localStorage.
- */
-const getStoredUser = (): User | null => {
-  if (typeof window === "undefined") return null;
-  const userData = localStorage.getItem(USER_DATA_KEY);
-  if (!userData) return null;
-  try {
-    return JSON.parse(userData) as User;
-  } catch {
-    return null;
-  }
-};
-
-/**
- * Store user data in localStorage.
+ * Props for the AuthProvider component.
  */
-const storeUser = (user: User): void => {
-  if (typeof window !== "undefined") {
-    localStorage.setItem(USER_DATA_KEY, JSON.stringify(user));
-  }
-};
+interface AuthProviderProps {
+  children: ReactNode;
+  /**
+   * How long before token expiry to refresh the token, in ms (default: 60000).
+   * Without a refresh token, or when the refresh fails, the session warning is shown instead
+   */
+  sessionWarningLeadTime?: number;
+  /** Role definitions used to expand `user.roles` (default: ROLES from lib/permissions) */
+  roles?: Record<string, Role>;
+}
 
-/**
- * Remove user data from localStorage.
- */
-const removeUser = (): void => {
-  if (typeof window !== "undefined") {
-    localStorage.removeItem(USER_DATA_KEY);
-  }
-};
+// setTimeout delays are 32-bit signed ints; longer ones overflow and fire at once
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
- * Props for the AuthProvider component.
+ * Run a callback at a point in time, however far away. Delays longer than
+ * setTimeout allows are waited out in chunks.
+ *
+ * @returns Function that cancels the timer
  */
-interface AuthProviderProps {
-  children: ReactNode;
+function scheduleAt(time: number, callback: () => void): () => void {
+  let timer: number;
+  const arm = () => {
+    const delay = Math.max(0, time - Date.now());
+    timer =
+      delay > MAX_TIMER_DELAY
+        ? window.setTimeout(arm, MAX_TIMER_DELAY)
+        : window.setTimeout(callback, delay);
+  };
+  arm();
+  return () => window.clearTimeout(timer);
 }
 
 /**
- * Get the initial auth state from storage.
+ * Get the initial auth state on app start.
+ * A stored token is not trusted until /auth/me confirms it, so the provider
+ * starts loading and the cached user (and its permissions) is not exposed.
  */
 function getInitialAuthState(): AuthState {
   const token = getAuthToken();
-  const user = getStoredUser();
 
-  if (token && user) {
+  // With cookie-managed tokens there is nothing to check locally, so always
+  // ask the server whether a session exists
+  if (token || !getTokenStorage().isAccessible) {
     return {
-      user,
+      ...UNAUTHENTICATED_STATE,
       token,
-      isAuthenticated: true,
-      isLoading: false,
+      isLoading: true,
     };
   }
 
-  return {
-    user: null,
-    token: null,
-    isAuthenticated: false,
-    isLoading: false,
-  };
+  return UNAUTHENTICATED_STATE;
 }
 
 /**
  * Authentication provider component.
  * Manages authentication state and provides auth utilities.
  */
-export function AuthProvider({ children }: AuthProviderProps) {
+export function AuthProvider({
+  children,
+  sessionWarningLeadTime = 60 * 1000,
+  roles = ROLES,
+}: AuthProviderProps) {
   const [state, setState] = useState<AuthState>(getInitialAuthState);
+  // Expiry time the warning dialog is currently shown for (null when hidden)
+  const [warningExpiresAt, setWarningExpiresAt] = useState<number | null>(null);
+  const [isRefreshingSession, setIsRefreshingSession] = useState(false);
+  // Signed-in user's id, for announcing changes to other tabs
+  const userIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    userIdRef.current = state.user?.id ?? null;
+  }, [state.user]);
 
   // Listen for unauthorized events (401 from API)
   useEffect(() => {
     const handleUnauthorized = () => {
       removeAuthToken();
+      removeRefreshToken();
       removeUser();
-      setState({
-        user: null,
-        token: null,
-        isAuthenticated: false,
-        isLoading: false,
-      });
+      setState(UNAUTHENTICATED_STATE);
+      broadcastAuthChange({ type: "logout", userId: userIdRef.current });
     };
 
     window.addEventListener("auth:unauthorized", handleUnauthorized);
@@ -129,66 +163,234 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
-  const login = useCallback((user: User, token: string) => {
+  // Sync login, logout and user updates announced by other tabs
+  useEffect(
+    () =>
+      subscribeToAuthChanges((message) => {
+        // Shared tokens: storage holds the one session of every tab
+        if (getTokenStorage().isShared) {
+          setState(getStoredAuthState());
+          return;
+        }
+
+        // Tab-scoped tokens: follow only this tab's own user, so its token is
+        // never paired with someone else's user data
+        if (message.userId === null || message.userId !== userIdRef.current) return;
+        if (message.type === "logout") {
+          removeAuthToken();
+          removeRefreshToken();
+          setState(UNAUTHENTICATED_STATE);
+          return;
+        }
+        const user = getStoredUser();
+        if (user?.id === message.userId) {
+          setState((prev) => (prev.isAuthenticated ? { ...prev, user } : prev));
+        }
+      }),
+    []
+  );
+
+  // Keep the token in state in sync with silent refreshes done by the API client
+  useEffect(() => {
+    const handleTokenRefreshed = (event: Event) => {
+      const { token } = (event as CustomEvent<{ token: string }>).detail;
+      setState((prev) =>
+        prev.isAuthenticated
+          ? { ...prev, token, expiresAt: getTokenExpiry(token) }
+          : prev
+      );
+      if (userIdRef.current) {
+        broadcastAuthChange({ type: "update", userId: userIdRef.current });
+      }
+    };
+
+    window.addEventListener("auth:token-refreshed", handleTokenRefreshed);
+    return () => {
+      window.removeEventListener("auth:token-refreshed", handleTokenRefreshed);
+    };
+  }, []);
+
+  const login = useCallback((user: User, token: string, refreshToken?: string) => {
     setAuthToken(token);
+    if (refreshToken) {
+      setRefreshToken(refreshToken);
+    } else {
+      removeRefreshToken();
+    }
     storeUser(user);
     setState({
       user,
       token,
       isAuthenticated: true,
       isLoading: false,
+      expiresAt: getTokenExpiry(token),
     });
+    broadcastAuthChange({ type: "login", userId: user.id });
   }, []);
 
   const logout = useCallback(() => {
     removeAuthToken();
+    removeRefreshToken();
     removeUser();
-    setState({
-      user: null,
-      token: null,
-      isAuthenticated: false,
-      isLoading: false,
-    });
+    setState(UNAUTHENTICATED_STATE);
+    broadcastAuthChange({ type: "logout", userId: userIdRef.current });
+  }, []);
+
+  // Verify a stored token against the server on app start and replace the
+  // cached user with the server's answer. Any failure is treated as a logout;
+  // a 401 is first retried by the API client with a token refresh.
+  const { isLoading } = state;
+  useEffect(() => {
+    if (!isLoading) return;
+
+    let cancelled = false;
+    apiGet<User>("/auth/me", undefined, { meta: { disableToast: true } })
+      .then((user) => {
+        if (cancelled) return;
+        const token = getAuthToken();
+        if (!token && getTokenStorage().isAccessible) {
+          logout();
+          return;
+        }
+        storeUser(user);
+        setState({
+          user,
+          token,
+          isAuthenticated: true,
+          isLoading: false,
+          expiresAt: getTokenExpiry(token),
+        });
+        broadcastAuthChange({ type: "update", userId: user.id });
+      })
+      .catch(() => {
+        if (!cancelled) logout();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, logout]);
+
+  // Release route loaders waiting for the stored session to be verified
+  useEffect(() => {
+    if (!isLoading) markSessionVerified();
+  }, [isLoading]);
+
+  // Scope queued offline mutations to the verified user: another user's login
+  // drops them, a logout holds them back until the same user signs in again
+  const userId = state.user?.id ?? null;
+  useEffect(() => {
+    if (!isLoading) void offlineQueue.setUser(userId);
+  }, [isLoading, userId]);
+
+  const updateUser = useCallback((user: User) => {
+    if (!getAuthToken() && getTokenStorage().isAccessible) return;
+    storeUser(user);
+    setState((prev) => (prev.isAuthenticated ? { ...prev, user } : prev));
+    broadcastAuthChange({ type: "update", userId: user.id });
   }, []);
 
+  const refreshSession = useCallback(async () => {
+    setIsRefreshingSession(true);
+    try {
+      // The auth:token-refreshed listener picks up the new token and expiry
+      await refreshAuthToken();
+    } catch {
+      logout();
+    } finally {
+      setIsRefreshingSession(false);
+    }
+  }, [logout]);
+
+  // Shortly before the token expires, refresh it silently when a refresh token
+  // is available; without one, or when the refresh fails, warn the user.
+  // The session is logged out once the token has expired, unless the browser
+  // is offline: then it waits for the connection and tries a refresh first, so
+  // the user's queued offline mutations can still be replayed. Tokens that are
+  // already expired are left to the API client's 401 refresh.
+  const { isAuthenticated, expiresAt } = state;
+  useEffect(() => {
+    if (!isAuthenticated || !expiresAt || expiresAt <= Date.now()) return;
+
+    let cancelled = false;
+    const showWarning = () => setWarningExpiresAt(expiresAt);
+
+    const cancelRefresh = scheduleAt(expiresAt - sessionWarningLeadTime, () => {
+      // With cookie-managed tokens the server holds the refresh token
+      if (!getRefreshToken() && getTokenStorage().isAccessible) {
+        showWarning();
+        return;
+      }
+      // On success the auth:token-refreshed listener sets the new expiry,
+      // which schedules the next refresh
+      refreshAuthToken().catch(() => {
+        if (!cancelled) showWarning();
+      });
+    });
+    const handleOnline = () => {
+      refreshAuthToken().catch(() => {
+        if (!cancelled) logout();
+      });
+    };
+    const cancelExpiry = scheduleAt(expiresAt, () => {
+      if (navigator.onLine) logout();
+      else window.addEventListener("online", handleOnline, { once: true });
+    });
+
+    return () => {
+      cancelled = true;
+      cancelRefresh();
+      cancelExpiry();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [isAuthenticated, expiresAt, sessionWarningLeadTime, logout]);
+
+  // Expand roles, wildcards and privilege implications once per user
+  const permissionSet = useMemo(
+    () => getUserPermissionSet(state.user, roles),
+    [state.user, roles]
+  );
+
   const hasPermission = useCallback(
-    (screen: Screen, privilege: Privilege): boolean => {
-      if (!state.user) return false;
-      return state.user.permissions.some(
-        (p) => p.screen === screen && p.privilege === privilege
-      );
-    },
-    [state.user]
+    (screen: Screen, privilege: Privilege): boolean =>
+      permissionSet.has(screen, privilege),
+    [permissionSet]
   );
 
   const hasAnyPermissionForScreen = useCallback(
-    (screen: Screen): boolean => {
-      if (!state.user) return false;
-      return state.user.permissions.some((p) => p.screen === screen);
-    },
-    [state.user]
+    (screen: Screen): boolean => permissionSet.hasAnyForScreen(screen),
+    [permissionSet]
   );
 
   const hasAnyPermission = useCallback(
-    (permissions: Permission[]): boolean => {
-      if (!state.user) return false;
-      return permissions.some((perm) =>
-        state.user!.permissions.some(
-          (p) => p.screen === perm.screen && p.privilege === perm.privilege
-        )
-      );
-    },
-    [state.user]
+    (permissions: Permission[]): boolean =>
+      permissions.some((p) => permissionSet.has(p.screen, p.privilege)),
+    [permissionSet]
   );
 
   const value: AuthContextValue = {
     ...state,
     login,
     logout,
+    updateUser,
+    refreshSession,
+    permissionSet,
     hasPermission,
     hasAnyPermissionForScreen,
     hasAnyPermission,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <SessionExpiryDialog
+        open={state.isAuthenticated && warningExpiresAt === state.expiresAt}
+        expiresAt={state.expiresAt}
+        onStaySignedIn={refreshSession}
+        onLogout={logout}
+        onDismiss={() => setWarningExpiresAt(null)}
+        isRefreshing={isRefreshingSession}
+      />
+    </AuthContext.Provider>
+  );
 }
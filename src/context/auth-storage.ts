@@ -0,0 +1,101 @@
+import type { AuthState, User } from "@/types/auth";
+import { getAuthToken, getTokenStorage } from "@/api/client";
+import { getTokenExpiry } from "@/lib/jwt";
+
+/**
+ * Storage key for user data.
+ */
+export const USER_DATA_KEY = "auth_user";
+
+/**
+ * Get stored user data from localStorage.
+ */
+export const getStoredUser = (): User | null => {
+  if (typeof window === "undefined") return null;
+  const userData = localStorage.getItem(USER_DATA_KEY);
+  if (!userData) return null;
+  try {
+    return JSON.parse(userData) as User;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store user data in localStorage.
+ */
+export const storeUser = (user: User): void => {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(USER_DATA_KEY, JSON.stringify(user));
+  }
+};
+
+/**
+ * Remove user data from localStorage.
+ */
+export const removeUser = (): void => {
+  if (typeof window !== "undefined") {
+    localStorage.removeItem(USER_DATA_KEY);
+  }
+};
+
+/**
+ * Auth state for a signed-out user.
+ */
+export const UNAUTHENTICATED_STATE: AuthState = {
+  user: null,
+  token: null,
+  isAuthenticated: false,
+  isLoading: false,
+  expiresAt: null,
+};
+
+/**
+ * Read the auth state from storage.
+ * Used to re-sync when another tab changes it, and by route loaders
+ * that run outside the React tree.
+ */
+export function getStoredAuthState(): AuthState {
+  const token = getAuthToken();
+  const user = getStoredUser();
+
+  // Cookie-managed tokens are invisible to JS; the stored user marks the session
+  if (user && (token || !getTokenStorage().isAccessible)) {
+    return {
+      user,
+      token,
+      isAuthenticated: true,
+      isLoading: false,
+      expiresAt: getTokenExpiry(token),
+    };
+  }
+
+  return UNAUTHENTICATED_STATE;
+}
+
+// Whether AuthProvider has checked the session stored on page load with /auth/me
+let isSessionVerified = false;
+const verificationWaiters = new Set<() => void>();
+
+/**
+ * Mark the stored session as settled: confirmed by the server, replaced by a
+ * login or cleared. Called by AuthProvider once it stops loading.
+ */
+export function markSessionVerified(): void {
+  isSessionVerified = true;
+  verificationWaiters.forEach((resolve) => resolve());
+  verificationWaiters.clear();
+}
+
+/**
+ * Read the auth state from storage for route loaders. A session left in
+ * storage by an earlier visit is pending until AuthProvider has verified it,
+ * so this waits rather than trusting the cached user and its permissions.
+ * The router must be rendered inside AuthProvider.
+ */
+export async function getVerifiedAuthState(): Promise<AuthState> {
+  if (!isSessionVerified && getStoredAuthState().isAuthenticated) {
+    await new Promise<void>((resolve) => verificationWaiters.add(resolve));
+  }
+  return getStoredAuthState();
+}
@@ -0,0 +1,46 @@
+/**
+ * Name of the BroadcastChannel auth changes are announced on.
+ */
+export const AUTH_SYNC_CHANNEL = "auth";
+
+/**
+ * Auth change announced to the other tabs.
+ * - `login` - a user signed in
+ * - `logout` - the user signed out (or their session was rejected)
+ * - `update` - the user's data or tokens changed
+ */
+export type AuthSyncMessage =
+  | { type: "login"; userId: string }
+  | { type: "logout"; userId: string | null }
+  | { type: "update"; userId: string };
+
+let channel: BroadcastChannel | null = null;
+
+// One channel per tab: a BroadcastChannel never receives its own messages,
+// so a tab doesn't react to the changes it announced itself
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  channel ??= new BroadcastChannel(AUTH_SYNC_CHANNEL);
+  return channel;
+}
+
+/**
+ * Announce an auth change to the other tabs.
+ */
+export function broadcastAuthChange(message: AuthSyncMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Listen for auth changes announced by other tabs.
+ *
+ * @returns Function that stops listening
+ */
+export function subscribeToAuthChanges(listener: (message: AuthSyncMessage) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const handleMessage = (event: MessageEvent<AuthSyncMessage>) => listener(event.data);
+  current.addEventListener("message", handleMessage);
+  return () => current.removeEventListener("message", handleMessage);
+}
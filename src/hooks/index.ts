@@ -1,11 +1,24 @@
-export { useFetch, type UseFetchOptions } from "./useFetch";
+export { useFetch, fetchQueryOptions, type UseFetchOptions } from "./useFetch";
+export {
+  useInfiniteFetch,
+  infiniteFetchQueryOptions,
+  pageNumberPagination,
+  cursorPagination,
+  type UseInfiniteFetchOptions,
+  type PaginationAdapter,
+  type PageNumberResponse,
+  type CursorResponse,
+} from "./useInfiniteFetch";
 export {
   useGenericMutation,
   type MutationMethod,
   type MutationVariables,
   type UseGenericMutationOptions,
 } from "./useGenericMutation";
-export { useAuth, useCanAccessScreen, useHasPermission } from "./useAuth";
+export { useAuth, useCanAccessScreen, useCurrentUserId, useHasPermission } from "./useAuth";
+export { useLogin, type UseLoginOptions } from "./useLogin";
+export { usePermissions } from "./usePermissions";
+export { useOfflineQueue } from "./useOfflineQueue";
 export { useDebounce } from "./useDebounce";
 export { useLocalStorage } from "./useLocalStorage";
 export { useOnClickOutside } from "./useOnClickOutside";
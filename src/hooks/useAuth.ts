@@ -14,6 +14,15 @@ export function useAuth() {
   return context;
 }
 
+/**
+ * Id of the signed-in user, or null when signed out.
+ * Unlike useAuth it also works outside an AuthProvider (always null there),
+ * so shared components can keep data per user without requiring auth.
+ */
+export function useCurrentUserId(): string | null {
+  return useContext(AuthContext)?.user?.id ?? null;
+}
+
 /**
  * Hook to check if the current user can access a specific screen.
  * Useful for conditionally rendering navigation items.
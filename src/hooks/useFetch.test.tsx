@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { setupServer } from 'msw/node'
+import { renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { apiClient } from '@/api/client'
+import { useFetch } from './useFetch'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const server = setupServer()
+
+function createWrapper(queryClient: QueryClient) {
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+describe('useFetch', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.restoreAllMocks()
+  })
+
+  it('aborts the stale request when the query key changes', async () => {
+    server.use(
+      http.get('/api/badges', async ({ request }) => {
+        const search = new URL(request.url).searchParams.get('search') ?? ''
+        await delay(search === 'g' ? 100 : 10)
+        return HttpResponse.json({ search })
+      })
+    )
+    const getSpy = vi.spyOn(apiClient, 'get')
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+
+    const { result, rerender } = renderHook(
+      ({ search }) => useFetch<{ search: string }>(['badges', search], '/badges', { params: { search } }),
+      { wrapper: createWrapper(queryClient), initialProps: { search: 'g' } }
+    )
+    await waitFor(() => expect(getSpy).toHaveBeenCalledTimes(1))
+    rerender({ search: 'gold' })
+
+    await waitFor(() => expect(result.current.data).toEqual({ search: 'gold' }))
+
+    const [[, staleConfig], [, currentConfig]] = getSpy.mock.calls
+    expect(staleConfig?.signal?.aborted).toBe(true)
+    expect(currentConfig?.signal?.aborted).toBe(false)
+    expect(queryClient.getQueryData(['badges', 'g'])).toBeUndefined()
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+})
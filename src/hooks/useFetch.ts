@@ -4,13 +4,16 @@ import {
   type QueryKey,
 } from "@tanstack/react-query";
 import { apiGet } from "@/api/generic-api";
+import type { ApiError } from "@/api/errors";
+import type { ResponseValidationOptions } from "@/api/validation";
 import type { AxiosRequestConfig } from "axios";
 
 /**
  * Options for the useFetch hook.
  */
 export interface UseFetchOptions<T>
-  extends Omit<UseQueryOptions<T, Error>, "queryKey" | "queryFn"> {
+  extends Omit<UseQueryOptions<T, ApiError>, "queryKey" | "queryFn">,
+    ResponseValidationOptions<T> {
   /** Query parameters to pass to the API */
   params?: Record<string, unknown>;
   /** Axios config for custom headers or token override */
@@ -23,7 +26,7 @@ export interface UseFetchOptions<T>
  * @param key - The query key for caching (can be string or array)
  * @param url - The API endpoint URL
  * @param options - Additional options including params, axiosConfig, and useQuery options
- * @returns useQuery result with typed data
+ * @returns useQuery result with typed data; `error` is an ApiError
  *
  * @example
  * // Basic usage
@@ -38,6 +41,12 @@ export interface UseFetchOptions<T>
  * );
  *
  * @example
+ * // Validate the response - a mismatch rejects with ResponseValidationError
+ * const { data } = useFetch(['user', userId], `/users/${userId}`, {
+ *   schema: userSchema,
+ * });
+ *
+ * @example
  * // With custom token
  * const { data } = useFetch<Data>(
  *   'protected-data',
@@ -66,11 +75,34 @@ export function useFetch<T>(
   url: string,
   options?: UseFetchOptions<T>
 ) {
-  const { params, axiosConfig, ...queryOptions } = options ?? {};
+  return useQuery<T, ApiError>(fetchQueryOptions<T>(key, url, options));
+}
 
-  return useQuery<T, Error>({
-    queryKey: Array.isArray(key) ? key : [key],
-    queryFn: () => apiGet<T>(url, params, axiosConfig),
+/**
+ * Build the query options useFetch uses, for reuse outside components.
+ * Route loaders pass the result to `queryClient.ensureQueryData` so the page's
+ * useFetch call with the same arguments reads from a warm cache.
+ *
+ * @example
+ * // In a route loader
+ * await queryClient.ensureQueryData(
+ *   fetchQueryOptions<User[]>(['users', { status: 'active' }], '/users', {
+ *     params: { status: 'active' },
+ *   })
+ * );
+ */
+export function fetchQueryOptions<T>(
+  key: QueryKey,
+  url: string,
+  options?: UseFetchOptions<T>
+) {
+  const { params, axiosConfig, schema, stripUnknown, ...queryOptions } = options ?? {};
+
+  return {
     ...queryOptions,
-  });
+    queryKey: Array.isArray(key) ? key : [key],
+    // React Query aborts the signal when the query is cancelled or its key changes
+    queryFn: ({ signal }) =>
+      apiGet<T>(url, params, { signal, ...axiosConfig, schema, stripUnknown }),
+  } satisfies UseQueryOptions<T, ApiError>;
 }
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { offlineQueue } from '@/api/offline-queue'
+import { replaceById } from '@/api/optimistic'
+import { queryClient as appQueryClient } from '@/lib/query-client'
+import { useGenericMutation } from './useGenericMutation'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const server = setupServer()
+
+function createWrapper(queryClient: QueryClient) {
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+describe('useGenericMutation offline mode', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(async () => {
+    server.resetHandlers()
+    vi.restoreAllMocks()
+    await Promise.all(offlineQueue.getSnapshot().items.map(({ id }) => offlineQueue.discard(id)))
+  })
+
+  function renderCreateBadge(offline: boolean) {
+    const onSuccess = vi.fn()
+    const onQueued = vi.fn()
+    const onError = vi.fn()
+    const { result } = renderHook(
+      () =>
+        useGenericMutation<{ id: string }, { name: string }>({
+          method: 'POST',
+          url: '/badges',
+          disableToast: true,
+          offline,
+          onSuccess,
+          onQueued,
+          onError,
+        }),
+      { wrapper: createWrapper(new QueryClient()) }
+    )
+    return { result, onSuccess, onQueued, onError }
+  }
+
+  it('queues the mutation while the browser is offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    const { result, onSuccess, onQueued } = renderCreateBadge(true)
+
+    act(() => result.current.mutate({ data: { name: 'Gold' } }))
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(result.current.data).toBeUndefined()
+    expect(onSuccess).not.toHaveBeenCalled()
+    expect(onQueued).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'POST', url: '/badges', data: { name: 'Gold' } }),
+      { data: { name: 'Gold' } }
+    )
+    expect(offlineQueue.getSnapshot().items).toHaveLength(1)
+  })
+
+  it('queues the mutation when the request gets no response', async () => {
+    server.use(http.post('/api/badges', () => HttpResponse.error()))
+    const { result, onQueued } = renderCreateBadge(true)
+
+    act(() => result.current.mutate({ data: { name: 'Gold' } }))
+
+    await waitFor(() => expect(onQueued).toHaveBeenCalled())
+    expect(offlineQueue.getSnapshot().items).toHaveLength(1)
+  })
+
+  it('refetches the optimistically patched queries once the queue has replayed the mutation', async () => {
+    server.use(http.patch('/api/badges/1', () => HttpResponse.json({ message: 'Changed' }, { status: 409 })))
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    appQueryClient.setQueryData(['badges'], { data: [{ id: '1', status: 'active' }], meta: { total: 1 } })
+    const { result } = renderHook(
+      () =>
+        useGenericMutation<{ id: string }, { status: string }>({
+          method: 'PATCH',
+          url: '/badges',
+          disableToast: true,
+          offline: true,
+          optimistic: {
+            queryKey: ['badges'],
+            update: replaceById(({ urlParams = '', data }) => ({ id: urlParams.slice(1), ...data })),
+          },
+        }),
+      { wrapper: createWrapper(appQueryClient) }
+    )
+
+    act(() => result.current.mutate({ urlParams: '/1', data: { status: 'archived' } }))
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(offlineQueue.getSnapshot().items[0].optimisticKeys).toEqual([['badges']])
+    expect(appQueryClient.getQueryState(['badges'])?.isInvalidated).toBe(false)
+
+    onLine.mockReturnValue(true)
+    await offlineQueue.replay()
+
+    expect(offlineQueue.getSnapshot().items[0].status).toBe('conflict')
+    expect(appQueryClient.getQueryState(['badges'])?.isInvalidated).toBe(true)
+    appQueryClient.clear()
+  })
+
+  it('fails as usual without offline mode or for server errors', async () => {
+    server.use(http.post('/api/badges', () => HttpResponse.error()))
+    const plain = renderCreateBadge(false)
+    act(() => plain.result.current.mutate({ data: { name: 'Gold' } }))
+    await waitFor(() => expect(plain.onError).toHaveBeenCalled())
+
+    server.use(http.post('/api/badges', () => HttpResponse.json({ message: 'Nope' }, { status: 400 })))
+    const offline = renderCreateBadge(true)
+    act(() => offline.result.current.mutate({ data: { name: 'Gold' } }))
+    await waitFor(() => expect(offline.onError).toHaveBeenCalled())
+
+    expect(plain.onQueued).not.toHaveBeenCalled()
+    expect(offline.onQueued).not.toHaveBeenCalled()
+    expect(offlineQueue.getSnapshot().items).toHaveLength(0)
+  })
+})
+
+describe('useGenericMutation optimistic updates', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.clearAllMocks()
+  })
+
+  const badges = {
+    data: [
+      { id: '1', status: 'active' },
+      { id: '2', status: 'pending' },
+    ],
+    meta: { total: 2 },
+  }
+
+  function renderSetStatus(queryClient: QueryClient) {
+    const onError = vi.fn()
+    const { result } = renderHook(
+      () =>
+        useGenericMutation<{ id: string }, { status: string }>({
+          method: 'PATCH',
+          url: '/badges',
+          rollbackMessage: 'Reverted',
+          optimistic: {
+            queryKey: ['badges'],
+            update: replaceById(({ urlParams = '', data }) => ({ id: urlParams.slice(1), ...data })),
+          },
+          onError,
+        }),
+      { wrapper: createWrapper(queryClient) }
+    )
+    return { result, onError }
+  }
+
+  it('patches the cache before the response arrives', async () => {
+    let respond: () => void = () => {}
+    server.use(
+      http.patch('/api/badges/:id', async () => {
+        await new Promise<void>((resolve) => (respond = resolve))
+        return HttpResponse.json({ id: '2', status: 'inactive' })
+      })
+    )
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(['badges', { page: 1 }], badges)
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries')
+    const { result } = renderSetStatus(queryClient)
+
+    act(() => result.current.mutate({ urlParams: '/2', data: { status: 'inactive' } }))
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData(['badges', { page: 1 }])).toEqual({
+        ...badges,
+        data: [badges.data[0], { id: '2', status: 'inactive' }],
+      })
+    )
+    expect(result.current.isPending).toBe(true)
+
+    respond()
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ['badges'] })
+  })
+
+  it('rolls back and shows a toast when the mutation fails', async () => {
+    server.use(
+      http.patch('/api/badges/:id', () =>
+        HttpResponse.json({ message: 'Badge is locked' }, { status: 409 })
+      )
+    )
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(['badges', { page: 1 }], badges)
+    const { result, onError } = renderSetStatus(queryClient)
+
+    act(() => result.current.mutate({ urlParams: '/2', data: { status: 'inactive' } }))
+
+    await waitFor(() => expect(onError).toHaveBeenCalled())
+    expect(queryClient.getQueryData(['badges', { page: 1 }])).toEqual(badges)
+    expect(toast.error).toHaveBeenCalledWith('Reverted')
+  })
+})
+
+describe('useGenericMutation toast meta', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.clearAllMocks()
+  })
+
+  it('keeps the toast settings of axiosConfig.meta when no toast options are given', async () => {
+    server.use(http.post('/api/badges', () => HttpResponse.json({ id: '1' })))
+    const { result } = renderHook(
+      () =>
+        useGenericMutation<{ id: string }, { name: string }>({
+          method: 'POST',
+          url: '/badges',
+          axiosConfig: { meta: { successToast: true, successMessage: 'Badge saved' } },
+        }),
+      { wrapper: createWrapper(new QueryClient()) }
+    )
+
+    act(() => result.current.mutate({ data: { name: 'Gold' } }))
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(toast.success).toHaveBeenCalledWith('Badge saved')
+  })
+})
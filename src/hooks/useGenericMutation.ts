@@ -1,11 +1,29 @@
+import { useState } from "react";
 import {
   useMutation,
   type UseMutationOptions,
   useQueryClient,
 } from "@tanstack/react-query";
-import { apiPost, apiPut, apiPatch, apiDelete } from "@/api/generic-api";
+import {
+  apiPost,
+  apiPut,
+  apiPatch,
+  apiDelete,
+  type ApiRequestConfig,
+} from "@/api/generic-api";
+import type { ResponseValidationOptions } from "@/api/validation";
 import type { AxiosRequestConfig } from "axios";
+import { toast } from "sonner";
 import type { ApiRequestMeta } from "@/api/client";
+import { isApiError, type ApiError } from "@/api/errors";
+import { offlineQueue, type QueuedMutation } from "@/api/offline-queue";
+import type { RetryOption } from "@/api/retry";
+import {
+  applyOptimisticUpdates,
+  rollbackOptimisticUpdates,
+  type OptimisticSnapshot,
+  type OptimisticUpdate,
+} from "@/api/optimistic";
 
 /**
  * HTTP methods supported by the generic mutation hook.
@@ -27,9 +45,10 @@ export interface MutationVariables<D = unknown> {
  */
 export interface UseGenericMutationOptions<T, D = unknown>
   extends Omit<
-    UseMutationOptions<T, Error, MutationVariables<D>>,
-    "mutationFn" | "onSettled"
-  > {
+      UseMutationOptions<T, ApiError, MutationVariables<D>>,
+      "mutationFn" | "onSettled"
+    >,
+    ResponseValidationOptions<T> {
   /** HTTP method to use */
   method: MutationMethod;
   /** Base URL for the endpoint */
@@ -41,7 +60,7 @@ export interface UseGenericMutationOptions<T, D = unknown>
   /** Callback when mutation settles (success or error) */
   onSettled?: (
     data: T | undefined,
-    error: Error | null,
+    error: ApiError | null,
     variables: MutationVariables<D>
   ) => void;
   /** Disable automatic toast notifications for this mutation */
@@ -50,13 +69,36 @@ export interface UseGenericMutationOptions<T, D = unknown>
   successToast?: boolean;
   /** Custom success message for toast */
   successMessage?: string;
+  /**
+   * Retry transient request failures (5xx gateway errors, network errors) with backoff.
+   * POST/PATCH requests get an Idempotency-Key header. Unlike React Query's `retry`,
+   * this retries inside the request, so toasts and callbacks only see the final result.
+   */
+  retryPolicy?: RetryOption;
+  /**
+   * Queue the mutation in the offline queue instead of failing when the browser is
+   * offline or the request gets no response. Queued mutations are replayed in order
+   * on reconnect. A queued mutation resolves with `undefined` data and calls
+   * `onQueued` instead of `onSuccess`.
+   */
+  offline?: boolean;
+  /** Callback when the mutation was queued for replay instead of sent */
+  onQueued?: (item: QueuedMutation, variables: MutationVariables<D>) => void;
+  /**
+   * Patch cached queries as soon as the mutation starts instead of waiting for the
+   * response. The previous values are restored if the mutation fails, and the
+   * patched queries are refetched once it settles.
+   */
+  optimistic?: OptimisticUpdate<MutationVariables<D>> | OptimisticUpdate<MutationVariables<D>>[];
+  /** Toast shown when a failed mutation rolls back its optimistic update */
+  rollbackMessage?: string;
 }
 
 /**
  * Generic mutation hook that wraps useMutation for POST/PUT/PATCH/DELETE operations.
  *
  * @param options - Configuration options for the mutation
- * @returns useMutation result with typed data
+ * @returns useMutation result with typed data; `error` is an ApiError
  *
  * @example
  * // Create a new user (POST)
@@ -95,6 +137,43 @@ export interface UseGenericMutationOptions<T, D = unknown>
  * deleteUser.mutate({ urlParams: '/123' });
  *
  * @example
+ * // Validate the response body
+ * const createBadge = useGenericMutation({
+ *   method: 'POST',
+ *   url: '/badges',
+ *   schema: badgeSchema,
+ * });
+ *
+ * @example
+ * // Retry flaky gateway errors - the POST carries an Idempotency-Key
+ * const createOrder = useGenericMutation<Order, CreateOrderDto>({
+ *   method: 'POST',
+ *   url: '/orders',
+ *   retryPolicy: { attempts: 3, retryOn: [502, 503, 504] },
+ * });
+ *
+ * @example
+ * // Keep working offline - the PUT is queued and replayed on reconnect
+ * const updateBadge = useGenericMutation<Badge, UpdateBadgeDto>({
+ *   method: 'PUT',
+ *   url: '/badges',
+ *   invalidateKeys: [['badges']],
+ *   offline: true,
+ *   onQueued: () => toast.info('Saved offline - will sync when back online'),
+ * });
+ *
+ * @example
+ * // Toggle a badge in the cached list right away - rolled back if the PATCH fails
+ * const setStatus = useGenericMutation<Badge, Pick<Badge, 'status'>>({
+ *   method: 'PATCH',
+ *   url: '/badges',
+ *   optimistic: {
+ *     queryKey: ['badges'],
+ *     update: replaceById(({ urlParams = '', data }) => ({ id: urlParams.slice(1), ...data })),
+ *   },
+ * });
+ *
+ * @example
  * // With custom token
  * const mutation = useGenericMutation<Data>({
  *   method: 'POST',
@@ -112,30 +191,49 @@ export function useGenericMutation<T, D = unknown>(
     url,
     invalidateKeys,
     axiosConfig,
+    onMutate: userOnMutate,
+    onSuccess: userOnSuccess,
+    onError: userOnError,
     onSettled: userOnSettled,
+    offline,
+    onQueued,
+    optimistic,
+    rollbackMessage = "Your change could not be saved and has been undone",
     disableToast,
     successToast,
     successMessage,
+    retryPolicy,
+    schema,
+    stripUnknown,
     ...mutationOptions
   } = options;
   const queryClient = useQueryClient();
+  // Mutations that were queued instead of sent, by their variables
+  const [queuedItems] = useState(() => new WeakMap<MutationVariables<D>, QueuedMutation>());
+  // Cache values replaced by optimistic updates, by the variables of the running mutation
+  const [snapshots] = useState(() => new WeakMap<MutationVariables<D>, OptimisticSnapshot>());
+  const optimisticUpdates = optimistic ? [optimistic].flat() : [];
 
-  // Build axios config with toast meta
-  const buildAxiosConfig = (): AxiosRequestConfig => {
+  // Build axios config with toast meta; only options that were given
+  // override the settings in axiosConfig.meta
+  const buildAxiosConfig = (): ApiRequestConfig<T> => {
     const meta: ApiRequestMeta = {
-      disableToast,
-      successToast,
-      successMessage,
+      ...axiosConfig?.meta,
+      ...(retryPolicy !== undefined && { retry: retryPolicy }),
+      ...(disableToast !== undefined && { disableToast }),
+      ...(successToast !== undefined && { successToast }),
+      ...(successMessage !== undefined && { successMessage }),
     };
 
     return {
       ...axiosConfig,
       meta,
+      schema,
+      stripUnknown,
     };
   };
 
-  const mutationFn = async (variables: MutationVariables<D>): Promise<T> => {
-    const fullUrl = variables.urlParams ? `${url}${variables.urlParams}` : url;
+  const send = (fullUrl: string, variables: MutationVariables<D>): Promise<T> => {
     const config = buildAxiosConfig();
 
     switch (method) {
@@ -152,14 +250,83 @@ export function useGenericMutation<T, D = unknown>(
     }
   };
 
-  return useMutation<T, Error, MutationVariables<D>>({
+  const enqueue = async (fullUrl: string, variables: MutationVariables<D>): Promise<T> => {
+    const item = await offlineQueue.enqueue({
+      method,
+      url: fullUrl,
+      data: variables.data,
+      invalidateKeys,
+      // Refetched by the queue once the server has the final say
+      ...(optimisticUpdates.length > 0 && {
+        optimisticKeys: optimisticUpdates.map(({ queryKey }) => queryKey),
+      }),
+    });
+    queuedItems.set(variables, item);
+    return undefined as T;
+  };
+
+  const mutationFn = async (variables: MutationVariables<D>): Promise<T> => {
+    const fullUrl = variables.urlParams ? `${url}${variables.urlParams}` : url;
+
+    if (offline && !navigator.onLine) {
+      return enqueue(fullUrl, variables);
+    }
+
+    try {
+      return await send(fullUrl, variables);
+    } catch (error) {
+      // The connection dropped mid-request - queue it rather than fail
+      if (offline && isApiError(error) && error.isNetworkError) {
+        return enqueue(fullUrl, variables);
+      }
+      throw error;
+    }
+  };
+
+  return useMutation<T, ApiError, MutationVariables<D>>({
     mutationFn,
     ...mutationOptions,
+    onMutate: async (variables, ...rest) => {
+      if (optimisticUpdates.length > 0) {
+        snapshots.set(
+          variables,
+          await applyOptimisticUpdates(queryClient, optimisticUpdates, variables)
+        );
+      }
+      return userOnMutate?.(variables, ...rest);
+    },
+    onSuccess: (data, variables, ...rest) => {
+      const queued = queuedItems.get(variables);
+      if (queued) {
+        onQueued?.(queued, variables);
+        return;
+      }
+      return userOnSuccess?.(data, variables, ...rest);
+    },
+    onError: (error, variables, ...rest) => {
+      const snapshot = snapshots.get(variables);
+      if (snapshot) {
+        rollbackOptimisticUpdates(queryClient, snapshot);
+        if (!disableToast && !error.isCancelled) {
+          toast.error(rollbackMessage);
+        }
+      }
+      return userOnError?.(error, variables, ...rest);
+    },
     onSettled: (data, error, variables) => {
-      // Invalidate specified query keys on success
-      if (!error && invalidateKeys) {
-        invalidateKeys.forEach((key) => {
-          queryClient.invalidateQueries({ queryKey: key });
+      snapshots.delete(variables);
+      // Queued mutations keep their optimistic value until the queue replays
+      // them; it then invalidates these keys (see offlineQueue)
+      if (!queuedItems.has(variables)) {
+        // Invalidate specified query keys on success
+        if (!error) {
+          invalidateKeys?.forEach((key) => {
+            queryClient.invalidateQueries({ queryKey: key });
+          });
+        }
+        // Refetch optimistically patched queries to pick up the server's version
+        optimisticUpdates.forEach(({ queryKey }) => {
+          queryClient.invalidateQueries({ queryKey });
         });
       }
       // Call user's onSettled if provided
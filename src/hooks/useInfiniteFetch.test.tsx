@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { cursorPagination, pageNumberPagination, useInfiniteFetch } from './useInfiniteFetch'
+
+const server = setupServer()
+
+function createWrapper() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+}
+
+const letters = ['a', 'b', 'c', 'd', 'e']
+
+describe('useInfiniteFetch', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => server.resetHandlers())
+
+  it('pages through a page-number backend', async () => {
+    const requests: string[] = []
+    server.use(
+      http.get('/api/letters', ({ request }) => {
+        const params = new URL(request.url).searchParams
+        requests.push(params.toString())
+        const page = Number(params.get('page'))
+        const limit = Number(params.get('limit'))
+        return HttpResponse.json({
+          data: letters.slice((page - 1) * limit, page * limit),
+          meta: { page, totalPages: Math.ceil(letters.length / limit) },
+        })
+      })
+    )
+    const adapter = pageNumberPagination<string>({ limit: 2 })
+
+    const { result } = renderHook(
+      () => useInfiniteFetch(['letters'], '/letters', { adapter, params: { sort: 'asc' } }),
+      { wrapper: createWrapper() }
+    )
+
+    await waitFor(() => expect(result.current.items).toEqual(['a', 'b']))
+    await act(() => result.current.fetchNextPage())
+    await act(() => result.current.fetchNextPage())
+
+    expect(result.current.items).toEqual(letters)
+    expect(result.current.hasNextPage).toBe(false)
+    expect(requests).toEqual([
+      'sort=asc&page=1&limit=2',
+      'sort=asc&page=2&limit=2',
+      'sort=asc&page=3&limit=2',
+    ])
+  })
+
+  it('pages through a cursor backend', async () => {
+    server.use(
+      http.get('/api/activity', ({ request }) => {
+        const start = Number(new URL(request.url).searchParams.get('cursor') ?? 0)
+        const end = start + 3
+        return HttpResponse.json({
+          data: letters.slice(start, end),
+          meta: { nextCursor: end < letters.length ? String(end) : null },
+        })
+      })
+    )
+    const adapter = cursorPagination<string>({ limit: 3 })
+
+    const { result } = renderHook(() => useInfiniteFetch(['activity'], '/activity', { adapter }), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.items).toEqual(['a', 'b', 'c']))
+    expect(result.current.hasNextPage).toBe(true)
+
+    await act(() => result.current.fetchNextPage())
+
+    expect(result.current.items).toEqual(letters)
+    expect(result.current.hasNextPage).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+import { useMemo } from "react";
+import {
+  useInfiniteQuery,
+  type InfiniteData,
+  type QueryFunctionContext,
+  type QueryKey,
+  type UseInfiniteQueryOptions,
+} from "@tanstack/react-query";
+import { apiGet } from "@/api/generic-api";
+import type { ApiError } from "@/api/errors";
+import type { ResponseValidationOptions } from "@/api/validation";
+import type { AxiosRequestConfig } from "axios";
+
+/**
+ * Describes how a backend pages its results: which query params request a page,
+ * where the next page starts, and where the items of a page are.
+ */
+export interface PaginationAdapter<TPage, TItem, TPageParam> {
+  /** Page param of the first page */
+  initialPageParam: TPageParam;
+  /** Query params that request the page */
+  getParams: (pageParam: TPageParam) => Record<string, unknown>;
+  /** Page param of the page after `lastPage`; `undefined` or `null` when there is none */
+  getNextPageParam: (lastPage: TPage, allPages: TPage[]) => TPageParam | undefined | null;
+  /** Items contained in a page */
+  getItems: (page: TPage) => TItem[];
+}
+
+/**
+ * Page-number response, e.g. `/api/badges`.
+ */
+export interface PageNumberResponse<TItem> {
+  data: TItem[];
+  meta: { page: number; totalPages: number };
+}
+
+/**
+ * Cursor response: `meta.nextCursor` is empty on the last page.
+ */
+export interface CursorResponse<TItem> {
+  data: TItem[];
+  meta: { nextCursor?: string | null };
+}
+
+/**
+ * Adapter for backends paged by page number, returning `{ data, meta: { page, totalPages } }`.
+ *
+ * @param options.limit - Page size sent with every request (default: 20)
+ * @param options.pageParam - Name of the page query param (default: "page")
+ * @param options.limitParam - Name of the page size query param (default: "limit")
+ */
+export function pageNumberPagination<TItem>({
+  limit = 20,
+  pageParam = "page",
+  limitParam = "limit",
+}: { limit?: number; pageParam?: string; limitParam?: string } = {}): PaginationAdapter<
+  PageNumberResponse<TItem>,
+  TItem,
+  number
+> {
+  return {
+    initialPageParam: 1,
+    getParams: (page) => ({ [pageParam]: page, [limitParam]: limit }),
+    getNextPageParam: ({ meta }) => (meta.page < meta.totalPages ? meta.page + 1 : undefined),
+    getItems: (page) => page.data,
+  };
+}
+
+/**
+ * Adapter for backends paged by an opaque cursor, returning `{ data, meta: { nextCursor } }`.
+ * The first page is requested without a cursor.
+ *
+ * @param options.limit - Page size sent with every request (default: 20)
+ * @param options.cursorParam - Name of the cursor query param (default: "cursor")
+ * @param options.limitParam - Name of the page size query param (default: "limit")
+ */
+export function cursorPagination<TItem>({
+  limit = 20,
+  cursorParam = "cursor",
+  limitParam = "limit",
+}: { limit?: number; cursorParam?: string; limitParam?: string } = {}): PaginationAdapter<
+  CursorResponse<TItem>,
+  TItem,
+  string | null
+> {
+  return {
+    initialPageParam: null,
+    getParams: (cursor) => ({ [cursorParam]: cursor ?? undefined, [limitParam]: limit }),
+    getNextPageParam: ({ meta }) => meta.nextCursor || undefined,
+    getItems: (page) => page.data,
+  };
+}
+
+/**
+ * Options for the useInfiniteFetch hook.
+ */
+export interface UseInfiniteFetchOptions<TPage, TItem, TPageParam>
+  extends Omit<
+      UseInfiniteQueryOptions<TPage, ApiError, InfiniteData<TPage, TPageParam>, QueryKey, TPageParam>,
+      "queryKey" | "queryFn" | "initialPageParam" | "getNextPageParam"
+    >,
+    ResponseValidationOptions<TPage> {
+  /** How the backend pages its results */
+  adapter: PaginationAdapter<TPage, TItem, TPageParam>;
+  /** Query parameters sent with every page, merged under the adapter's page params */
+  params?: Record<string, unknown>;
+  /** Axios config for custom headers or token override */
+  axiosConfig?: AxiosRequestConfig;
+}
+
+/**
+ * Build the query options useInfiniteFetch uses, for reuse outside components.
+ * Route loaders pass the result to `queryClient.prefetchInfiniteQuery`.
+ */
+export function infiniteFetchQueryOptions<TPage, TItem, TPageParam>(
+  key: QueryKey,
+  url: string,
+  options: UseInfiniteFetchOptions<TPage, TItem, TPageParam>
+) {
+  const { adapter, params, axiosConfig, schema, stripUnknown, ...queryOptions } = options;
+
+  return {
+    ...queryOptions,
+    queryKey: Array.isArray(key) ? key : [key],
+    initialPageParam: adapter.initialPageParam,
+    getNextPageParam: (lastPage: TPage, allPages: TPage[]) =>
+      adapter.getNextPageParam(lastPage, allPages) ?? undefined,
+    queryFn: ({ pageParam, signal }: QueryFunctionContext<QueryKey, TPageParam>) =>
+      apiGet<TPage>(
+        url,
+        { ...params, ...adapter.getParams(pageParam as TPageParam) },
+        { signal, ...axiosConfig, schema, stripUnknown }
+      ),
+  } satisfies UseInfiniteQueryOptions<
+    TPage,
+    ApiError,
+    InfiniteData<TPage, TPageParam>,
+    QueryKey,
+    TPageParam
+  >;
+}
+
+/**
+ * Infinite fetch hook that wraps useInfiniteQuery with apiGet.
+ * Page-number and cursor backends are supported through adapters.
+ *
+ * @param key - The query key for caching (can be string or array)
+ * @param url - The API endpoint URL
+ * @param options - Pagination adapter plus params, axiosConfig and useInfiniteQuery options
+ * @returns useInfiniteQuery result plus `items`, the items of all loaded pages in order
+ *
+ * @example
+ * // Page-number backend ({ data, meta: { page, totalPages } })
+ * // Adapters are created outside components so `items` stays stable
+ * const badgesAdapter = pageNumberPagination<Badge>({ limit: 20 });
+ *
+ * const { items, hasNextPage, fetchNextPage } = useInfiniteFetch(['badges', 'feed'], '/badges', {
+ *   adapter: badgesAdapter,
+ * });
+ *
+ * @example
+ * // Cursor backend ({ data, meta: { nextCursor } })
+ * const { items } = useInfiniteFetch(['activity', userId], `/users/${userId}/activity`, {
+ *   adapter: cursorPagination<ActivityEntry>(),
+ *   params: { type: 'login' },
+ * });
+ */
+export function useInfiniteFetch<TPage, TItem, TPageParam>(
+  key: QueryKey,
+  url: string,
+  options: UseInfiniteFetchOptions<TPage, TItem, TPageParam>
+) {
+  const query = useInfiniteQuery(infiniteFetchQueryOptions(key, url, options));
+  const { getItems } = options.adapter;
+  const pages = query.data?.pages;
+
+  const items = useMemo(() => pages?.flatMap((page) => getItems(page)) ?? [], [pages, getItems]);
+
+  return { ...query, items };
+}
@@ -235,6 +235,30 @@ describe('useLocalStorage', () => {
     })
   })
 
+  describe('Without a key', () => {
+    it('keeps the value in memory and never touches localStorage', () => {
+      localStorage.setItem('null', JSON.stringify('stored-value'))
+      const { result } = renderHook(() => useLocalStorage<string>(null, 'initial'))
+      expect(result.current[0]).toBe('initial')
+
+      act(() => {
+        result.current[1]('updated')
+      })
+      expect(result.current[0]).toBe('updated')
+
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: null, newValue: null }))
+      })
+      expect(result.current[0]).toBe('updated')
+
+      act(() => {
+        result.current[2]()
+      })
+      expect(result.current[0]).toBe('initial')
+      expect(localStorage.length).toBe(1)
+    })
+  })
+
   describe('Type Safety', () => {
     it('works with boolean values', () => {
       const { result } = renderHook(() => useLocalStorage('bool-key', false))
@@ -4,7 +4,7 @@ import { useState, useCallback, useEffect } from "react";
  * A typed hook for persisting state in localStorage.
  * Useful for sidebar state, user preferences, etc.
  *
- * @param key - The localStorage key
+ * @param key - The localStorage key; null keeps the value in memory only
  * @param initialValue - The initial value if no stored value exists
  * @returns A tuple of [value, setValue, removeValue]
  *
@@ -24,12 +24,12 @@ import { useState, useCallback, useEffect } from "react";
  * });
  */
 export function useLocalStorage<T>(
-  key: string,
+  key: string | null,
   initialValue: T
 ): [T, (value: T | ((prev: T) => T)) => void, () => void] {
   // Get stored value or use initial value
   const readValue = useCallback((): T => {
-    if (typeof window === "undefined") {
+    if (typeof window === "undefined" || key === null) {
       return initialValue;
     }
 
@@ -54,7 +54,7 @@ export function useLocalStorage<T>(
 
         setStoredValue(valueToStore);
 
-        if (typeof window !== "undefined") {
+        if (typeof window !== "undefined" && key !== null) {
           window.localStorage.setItem(key, JSON.stringify(valueToStore));
           // Dispatch a custom event for other tabs/components to sync
           window.dispatchEvent(
@@ -74,9 +74,9 @@ export function useLocalStorage<T>(
   // Remove value from localStorage
   const removeValue = useCallback(() => {
     try {
-      if (typeof window !== "undefined") {
+      setStoredValue(initialValue);
+      if (typeof window !== "undefined" && key !== null) {
         window.localStorage.removeItem(key);
-        setStoredValue(initialValue);
         window.dispatchEvent(
           new StorageEvent("storage", {
             key,
@@ -91,6 +91,8 @@ export function useLocalStorage<T>(
 
   // Listen for changes in other tabs/windows
   useEffect(() => {
+    if (key === null) return;
+
     const handleStorageChange = (event: StorageEvent) => {
       if (event.key === key && event.newValue !== null) {
         try {
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { AuthProvider } from '@/context/AuthContext'
+import { useAuth } from './useAuth'
+import { useLogin } from './useLogin'
+import type { AuthResponse } from '@/types/auth'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+const response: AuthResponse = {
+  user: { id: 'user-1', email: 'admin@example.com', name: 'Admin User' },
+  token: 'access-token',
+  refreshToken: 'refresh-token',
+}
+
+const refresh = vi.fn()
+
+const server = setupServer(
+  http.post('/api/auth/login', async ({ request }) => {
+    const { email } = (await request.json()) as { email: string }
+    if (email === response.user.email) return HttpResponse.json(response)
+    return HttpResponse.json(
+      { message: 'Invalid email or password', code: 'INVALID_CREDENTIALS' },
+      { status: 401 }
+    )
+  }),
+  http.post('/api/auth/refresh', () => {
+    refresh()
+    return HttpResponse.json(response)
+  })
+)
+
+function renderLogin() {
+  const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } })
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>{children}</AuthProvider>
+    </QueryClientProvider>
+  )
+  return renderHook(() => ({ auth: useAuth(), login: useLogin() }), { wrapper })
+}
+
+describe('useLogin', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    vi.clearAllMocks()
+    localStorage.clear()
+  })
+
+  it('stores the session on success', async () => {
+    const { result } = renderLogin()
+
+    act(() => result.current.login.mutate({ email: 'admin@example.com', password: 'secret' }))
+
+    await waitFor(() => expect(result.current.auth.isAuthenticated).toBe(true))
+    expect(result.current.auth.user).toEqual(response.user)
+    expect(localStorage.getItem('auth_token')).toBe('access-token')
+  })
+
+  it('rejects bad credentials with INVALID_CREDENTIALS, without refreshing or toasting', async () => {
+    const { result } = renderLogin()
+
+    act(() => result.current.login.mutate({ email: 'nobody@example.com', password: 'wrong' }))
+
+    await waitFor(() => expect(result.current.login.isError).toBe(true))
+    expect(result.current.login.error?.code).toBe('INVALID_CREDENTIALS')
+    expect(result.current.auth.isAuthenticated).toBe(false)
+    expect(refresh).not.toHaveBeenCalled()
+    expect(toast.error).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,47 @@
+import { useMutation, type UseMutationOptions } from "@tanstack/react-query";
+import { apiPost } from "@/api/generic-api";
+import type { ApiError } from "@/api/errors";
+import { useAuth } from "./useAuth";
+import type { AuthResponse, LoginCredentials } from "@/types/auth";
+
+/**
+ * Options for the useLogin hook.
+ */
+export type UseLoginOptions = Omit<
+  UseMutationOptions<AuthResponse, ApiError, LoginCredentials>,
+  "mutationFn"
+>;
+
+/**
+ * Mutation hook that posts credentials to /auth/login and stores the session
+ * in AuthContext on success.
+ *
+ * The request opts out of the automatic token refresh and global toasts, so
+ * a 401 for bad credentials can be handled inline by the caller.
+ *
+ * @param options - Additional useMutation options
+ * @returns useMutation result
+ *
+ * @example
+ * const loginMutation = useLogin({
+ *   onSuccess: () => navigate('/dashboard'),
+ * });
+ *
+ * loginMutation.mutate({ email, password });
+ */
+export function useLogin(options?: UseLoginOptions) {
+  const { login } = useAuth();
+  const { onSuccess: userOnSuccess, ...mutationOptions } = options ?? {};
+
+  return useMutation<AuthResponse, ApiError, LoginCredentials>({
+    mutationFn: (credentials) =>
+      apiPost<AuthResponse, LoginCredentials>("/auth/login", credentials, {
+        meta: { skipAuthRefresh: true, disableToast: true },
+      }),
+    ...mutationOptions,
+    onSuccess: (response, ...rest) => {
+      login(response.user, response.token, response.refreshToken);
+      return userOnSuccess?.(response, ...rest);
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from "react";
+import { offlineQueue, type QueuedMutation } from "@/api/offline-queue";
+
+/**
+ * Return type for the useOfflineQueue hook.
+ */
+interface UseOfflineQueueReturn {
+  /** Queued mutations in replay order */
+  items: readonly QueuedMutation[];
+  /** Items waiting to be sent */
+  pendingCount: number;
+  /** Items the server rejected (409 conflicts and other failures) */
+  rejected: QueuedMutation[];
+  /** A replay is running */
+  isSyncing: boolean;
+  /** The browser reports a network connection */
+  isOnline: boolean;
+  /** Replay pending items now */
+  sync: () => Promise<void>;
+  /** Send a rejected item again */
+  retry: (id: string) => Promise<void>;
+  /** Drop an item without sending it */
+  discard: (id: string) => Promise<void>;
+}
+
+/**
+ * Subscribe to the browser's online/offline events.
+ */
+function subscribeToConnection(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+/**
+ * State and actions of the offline mutation queue, plus the connection status.
+ *
+ * @returns Queued items, counts, sync status and queue actions
+ *
+ * @example
+ * function SyncStatus() {
+ *   const { pendingCount, isOnline } = useOfflineQueue();
+ *
+ *   if (isOnline && pendingCount === 0) return null;
+ *   return <span>{pendingCount} pending sync</span>;
+ * }
+ */
+export function useOfflineQueue(): UseOfflineQueueReturn {
+  const { items, isSyncing } = useSyncExternalStore(
+    offlineQueue.subscribe,
+    offlineQueue.getSnapshot
+  );
+  const isOnline = useSyncExternalStore(subscribeToConnection, () => navigator.onLine);
+
+  return {
+    items,
+    pendingCount: items.filter((item) => item.status === "pending").length,
+    rejected: items.filter((item) => item.status !== "pending"),
+    isSyncing,
+    isOnline,
+    sync: offlineQueue.replay,
+    retry: offlineQueue.retry,
+    discard: offlineQueue.discard,
+  };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useMemo } from "react";
+import { useAuth } from "./useAuth";
+import {
+  checkPermission,
+  getMissingPermissions,
+  type PermissionRequirement,
+} from "@/lib/permissions";
+import type { PermissionPattern, Privilege, Screen } from "@/types/auth";
+
+/**
+ * Hook for element-level permission checks.
+ * All checks return false while auth status is loading.
+ *
+ * @returns Permission check helpers
+ *
+ * @example
+ * const { can, check } = usePermissions();
+ *
+ * const canEdit = can("BADGE", "EDIT");
+ * const canManage = check({
+ *   screen: "BADGE",
+ *   privileges: ["EDIT", "DELETE"],
+ *   mode: "all",
+ * });
+ */
+export function usePermissions() {
+  const { permissionSet, isLoading } = useAuth();
+
+  /** Check a single screen + privilege */
+  const can = useCallback(
+    (screen: Screen, privilege: Privilege): boolean =>
+      !isLoading && permissionSet.has(screen, privilege),
+    [permissionSet, isLoading]
+  );
+
+  /** Check a requirement with AND/OR privilege composition */
+  const check = useCallback(
+    (requirement: PermissionRequirement): boolean =>
+      !isLoading && checkPermission(permissionSet, requirement),
+    [permissionSet, isLoading]
+  );
+
+  /** List the permissions a requirement asks for that the user lacks */
+  const getMissing = useCallback(
+    (requirement: PermissionRequirement): PermissionPattern[] =>
+      getMissingPermissions(permissionSet, requirement),
+    [permissionSet]
+  );
+
+  return useMemo(
+    () => ({ can, check, getMissing, isLoading }),
+    [can, check, getMissing, isLoading]
+  );
+}
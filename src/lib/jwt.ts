@@ -0,0 +1,41 @@
+/**
+ * Standard JWT claims used by the client.
+ */
+export interface JwtPayload {
+  sub?: string;
+  iat?: number;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ * Verification is the server's job; the client only reads claims such as `exp`.
+ *
+ * @returns The decoded payload, or null if the token is malformed
+ */
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    // JWTs use base64url - convert to base64 and restore padding for atob
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const decoded = JSON.parse(atob(padded)) as unknown;
+    return decoded && typeof decoded === "object" ? (decoded as JwtPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the expiry time of a JWT in milliseconds since the epoch.
+ *
+ * @returns The `exp` claim converted to ms, or null if the token has none
+ */
+export function getTokenExpiry(token: string | null): number | null {
+  if (!token) return null;
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createPermissionSet,
+  expandRoles,
+  getUserPermissionSet,
+} from './permissions'
+import type { Role, User } from '@/types/auth'
+
+const baseUser: User = {
+  id: 'user-1',
+  email: 'user@example.com',
+  name: 'Test User',
+}
+
+describe('createPermissionSet', () => {
+  it('matches explicit permission pairs', () => {
+    const set = createPermissionSet([{ screen: 'BADGE', privilege: 'CREATE' }])
+
+    expect(set.has('BADGE', 'CREATE')).toBe(true)
+    expect(set.has('BADGE', 'DELETE')).toBe(false)
+    expect(set.has('PROJECT', 'CREATE')).toBe(false)
+  })
+
+  it('matches SCREEN:PRIVILEGE patterns', () => {
+    const set = createPermissionSet(['PROJECT:DELETE'])
+
+    expect(set.has('PROJECT', 'DELETE')).toBe(true)
+    expect(set.has('BADGE', 'DELETE')).toBe(false)
+  })
+
+  it('supports privilege wildcards', () => {
+    const set = createPermissionSet(['BADGE:*'])
+
+    expect(set.has('BADGE', 'DELETE')).toBe(true)
+    expect(set.has('BADGE', 'CONFIGURE')).toBe(true)
+    expect(set.has('USERS', 'VIEW')).toBe(false)
+  })
+
+  it('supports screen wildcards', () => {
+    const set = createPermissionSet(['*:VIEW'])
+
+    expect(set.has('USERS', 'VIEW')).toBe(true)
+    expect(set.has('SETTINGS', 'VIEW')).toBe(true)
+    expect(set.has('USERS', 'EDIT')).toBe(false)
+  })
+
+  it('applies privilege implications', () => {
+    const set = createPermissionSet(['BADGE:EDIT'])
+
+    expect(set.has('BADGE', 'VIEW')).toBe(true)
+    expect(set.has('BADGE', 'DELETE')).toBe(false)
+  })
+
+  it('reports any access for a screen', () => {
+    const set = createPermissionSet(['BADGE:VIEW', '*:CONFIGURE'])
+
+    expect(set.hasAnyForScreen('BADGE')).toBe(true)
+    expect(set.hasAnyForScreen('SETTINGS')).toBe(true)
+  })
+
+  it('grants nothing when empty', () => {
+    const set = createPermissionSet([])
+
+    expect(set.has('DASHBOARD', 'VIEW')).toBe(false)
+    expect(set.hasAnyForScreen('DASHBOARD')).toBe(false)
+  })
+})
+
+describe('expandRoles', () => {
+  const roles: Record<string, Role> = {
+    VIEWER: { name: 'VIEWER', permissions: ['*:VIEW'] },
+    EDITOR: { name: 'EDITOR', permissions: ['BADGE:EDIT'], inherits: ['VIEWER'] },
+    LOOP_A: { name: 'LOOP_A', permissions: ['BADGE:VIEW'], inherits: ['LOOP_B'] },
+    LOOP_B: { name: 'LOOP_B', permissions: ['PROJECT:VIEW'], inherits: ['LOOP_A'] },
+  }
+
+  it('includes inherited role permissions', () => {
+    expect(expandRoles(['EDITOR'], roles)).toEqual(['BADGE:EDIT', '*:VIEW'])
+  })
+
+  it('ignores unknown roles', () => {
+    expect(expandRoles(['UNKNOWN'], roles)).toEqual([])
+  })
+
+  it('handles inheritance cycles', () => {
+    expect(expandRoles(['LOOP_A'], roles)).toEqual(['BADGE:VIEW', 'PROJECT:VIEW'])
+  })
+})
+
+describe('getUserPermissionSet', () => {
+  it('combines roles and explicit permissions', () => {
+    const set = getUserPermissionSet({
+      ...baseUser,
+      roles: ['USER'],
+      permissions: [{ screen: 'REPORTS', privilege: 'VIEW' }],
+    })
+
+    expect(set.has('BADGE', 'VIEW')).toBe(true)
+    expect(set.has('REPORTS', 'VIEW')).toBe(true)
+    expect(set.has('BADGE', 'EDIT')).toBe(false)
+  })
+
+  it('grants everything to ADMIN', () => {
+    const set = getUserPermissionSet({ ...baseUser, roles: ['ADMIN'] })
+
+    expect(set.has('SETTINGS', 'CONFIGURE')).toBe(true)
+    expect(set.has('USERS', 'DELETE')).toBe(true)
+  })
+
+  it('grants nothing without a user', () => {
+    expect(getUserPermissionSet(null).has('DASHBOARD', 'VIEW')).toBe(false)
+  })
+})
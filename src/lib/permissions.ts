@@ -0,0 +1,217 @@
+import type {
+  Screen,
+  Privilege,
+  PermissionGrant,
+  PermissionPattern,
+  Role,
+  User,
+} from "@/types/auth";
+
+/**
+ * Privileges that imply other privileges.
+ * A user who can edit a screen can also view it, and so on.
+ * Implications are transitive.
+ */
+export const PRIVILEGE_IMPLICATIONS: Record<Privilege, Privilege[]> = {
+  VIEW: [],
+  CREATE: ["VIEW"],
+  EDIT: ["VIEW"],
+  DELETE: ["VIEW"],
+  CONFIGURE: ["VIEW"],
+};
+
+/**
+ * Role definitions known to the client.
+ * Backends send role names on the user; add new roles here as the application grows.
+ */
+export const ROLES: Record<string, Role> = {
+  ADMIN: {
+    name: "ADMIN",
+    description: "Full access to every screen",
+    permissions: ["*:*"],
+  },
+  USER: {
+    name: "USER",
+    description: "Read-only access to badges and the dashboard",
+    permissions: ["BADGE:VIEW", "DASHBOARD:VIEW"],
+  },
+  BADGE_MANAGER: {
+    name: "BADGE_MANAGER",
+    description: "Manages badges on top of regular user access",
+    permissions: ["BADGE:*"],
+    inherits: ["USER"],
+  },
+};
+
+/**
+ * A grant normalized to a screen/privilege pair where either side may be a wildcard.
+ */
+interface NormalizedGrant {
+  screen: Screen | "*";
+  privilege: Privilege | "*";
+}
+
+/**
+ * Compiled set of permissions with fast lookups.
+ */
+export interface PermissionSet {
+  /** Check a specific screen + privilege, honouring wildcards and implications */
+  has: (screen: Screen, privilege: Privilege) => boolean;
+  /** Check whether any privilege is granted for a screen */
+  hasAnyForScreen: (screen: Screen) => boolean;
+}
+
+/**
+ * Normalize a permission pair or "SCREEN:PRIVILEGE" pattern.
+ */
+function normalizeGrant(grant: PermissionGrant): NormalizedGrant {
+  if (typeof grant !== "string") return grant;
+  const [screen, privilege] = grant.split(":") as [
+    NormalizedGrant["screen"],
+    NormalizedGrant["privilege"],
+  ];
+  return { screen, privilege };
+}
+
+/**
+ * Check whether a granted privilege covers a required one, following implications.
+ */
+function privilegeCovers(
+  granted: Privilege | "*",
+  required: Privilege,
+  visited: Set<Privilege> = new Set()
+): boolean {
+  if (granted === "*" || granted === required) return true;
+  if (visited.has(granted)) return false;
+  visited.add(granted);
+  return PRIVILEGE_IMPLICATIONS[granted].some((implied) =>
+    privilegeCovers(implied, required, visited)
+  );
+}
+
+/**
+ * Expand role names into their permission grants, including inherited roles.
+ * Unknown role names are ignored.
+ *
+ * @example
+ * expandRoles(["BADGE_MANAGER"]);
+ * // ["BADGE:*", "BADGE:VIEW", "DASHBOARD:VIEW"]
+ */
+export function expandRoles(
+  roleNames: string[],
+  roles: Record<string, Role> = ROLES
+): PermissionGrant[] {
+  const grants: PermissionGrant[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    const role = roles[name];
+    if (!role || visited.has(name)) return;
+    visited.add(name);
+    grants.push(...role.permissions);
+    role.inherits?.forEach(visit);
+  };
+
+  roleNames.forEach(visit);
+  return grants;
+}
+
+/**
+ * Compile permission grants into a PermissionSet.
+ *
+ * @example
+ * const set = createPermissionSet(["BADGE:EDIT", "*:VIEW"]);
+ * set.has("BADGE", "VIEW"); // true - EDIT implies VIEW
+ * set.has("USERS", "VIEW"); // true - *:VIEW
+ * set.has("USERS", "EDIT"); // false
+ */
+export function createPermissionSet(grants: PermissionGrant[]): PermissionSet {
+  const normalized = grants.map(normalizeGrant);
+
+  return {
+    has: (screen, privilege) =>
+      normalized.some(
+        (grant) =>
+          (grant.screen === "*" || grant.screen === screen) &&
+          privilegeCovers(grant.privilege, privilege)
+      ),
+    hasAnyForScreen: (screen) =>
+      normalized.some((grant) => grant.screen === "*" || grant.screen === screen),
+  };
+}
+
+/**
+ * Build the effective PermissionSet for a user from their roles and explicit permissions.
+ */
+export function getUserPermissionSet(
+  user: User | null,
+  roles: Record<string, Role> = ROLES
+): PermissionSet {
+  if (!user) return createPermissionSet([]);
+  return createPermissionSet([
+    ...expandRoles(user.roles ?? [], roles),
+    ...(user.permissions ?? []),
+  ]);
+}
+
+/**
+ * How multiple privileges in a requirement are combined.
+ * "all" requires every privilege (AND), "any" requires at least one (OR).
+ */
+export type PermissionMatchMode = "all" | "any";
+
+/**
+ * A permission check on a single screen.
+ * With no privileges, any access to the screen satisfies the requirement.
+ */
+export interface PermissionRequirement {
+  /** The screen to check */
+  screen: Screen;
+  /** Single required privilege */
+  privilege?: Privilege;
+  /** Multiple privileges, combined according to `mode` */
+  privileges?: Privilege[];
+  /** How to combine privileges (default: "any") */
+  mode?: PermissionMatchMode;
+}
+
+/**
+ * Collect the privileges named by a requirement.
+ */
+function getRequiredPrivileges({ privilege, privileges }: PermissionRequirement): Privilege[] {
+  return [...(privilege ? [privilege] : []), ...(privileges ?? [])];
+}
+
+/**
+ * Check a requirement against a PermissionSet.
+ *
+ * @example
+ * checkPermission(set, { screen: "BADGE", privileges: ["EDIT", "DELETE"], mode: "all" });
+ */
+export function checkPermission(
+  set: PermissionSet,
+  requirement: PermissionRequirement
+): boolean {
+  const { screen, mode = "any" } = requirement;
+  const required = getRequiredPrivileges(requirement);
+
+  if (required.length === 0) return set.hasAnyForScreen(screen);
+
+  return mode === "all"
+    ? required.every((p) => set.has(screen, p))
+    : required.some((p) => set.has(screen, p));
+}
+
+/**
+ * List the permissions a requirement asks for that the set does not grant.
+ * Useful for explaining why an action is unavailable.
+ */
+export function getMissingPermissions(
+  set: PermissionSet,
+  requirement: PermissionRequirement
+): PermissionPattern[] {
+  const { screen } = requirement;
+  return getRequiredPrivileges(requirement)
+    .filter((p) => !set.has(screen, p))
+    .map((p) => `${screen}:${p}` as const);
+}
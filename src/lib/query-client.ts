@@ -0,0 +1,16 @@
+import { QueryClient } from "@tanstack/react-query";
+
+/**
+ * Shared QueryClient.
+ * Exported as a module so route loaders can prefetch into the same cache the pages read from.
+ */
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      gcTime: 10 * 60 * 1000, // 10 minutes
+      retry: 1,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
@@ -3,6 +3,8 @@ import { createRoot } from 'react-dom/client'
 import '@/index.css'
 import '@/lib/i18n' // Initialize i18n before rendering
 import App from '@/App'
+import { offlineQueue } from '@/api/offline-queue'
+import { networkLog } from '@/api/network-log'
 
 /**
  * Initialize MSW mock service worker in development mode.
@@ -14,11 +16,18 @@ async function enableMocking(): Promise<void> {
     await worker.start({
       onUnhandledRequest: 'bypass', // Don't warn about unhandled requests
     })
+    // Let the network inspector tell mocked responses from real ones
+    worker.events.on('response:mocked', ({ request }) => {
+      networkLog.markMocked(request.method, request.url)
+    })
   }
 }
 
 // Start mocking before rendering the app
 enableMocking().then(() => {
+  // Replay mutations queued while offline (after mocking, so replays are intercepted too)
+  offlineQueue.start()
+
   createRoot(document.getElementById('root')!).render(
     <StrictMode>
       <Suspense fallback={
@@ -1,72 +1,106 @@
 import { http, HttpResponse, delay } from 'msw';
 import { faker } from '@faker-js/faker';
-import type { User, Permission, AuthResponse } from '@/types/auth';
+import type {
+  User,
+  AuthResponse,
+  RefreshTokenResponse,
+} from '@/types/auth';
 
 /**
- * All available permissions in the system.
+ * Claims of a mock token. The user travels inside the token, so sessions
+ * survive page reloads that reset the mock's in-memory state.
  */
-const FULL_PERMISSIONS: Permission[] = [
-  { screen: 'BADGE', privilege: 'VIEW' },
-  { screen: 'BADGE', privilege: 'CREATE' },
-  { screen: 'BADGE', privilege: 'EDIT' },
-  { screen: 'BADGE', privilege: 'DELETE' },
-  { screen: 'PROJECT', privilege: 'VIEW' },
-  { screen: 'PROJECT', privilege: 'CREATE' },
-  { screen: 'PROJECT', privilege: 'EDIT' },
-  { screen: 'PROJECT', privilege: 'DELETE' },
-  { screen: 'USERS', privilege: 'VIEW' },
-  { screen: 'USERS', privilege: 'CREATE' },
-  { screen: 'USERS', privilege: 'EDIT' },
-  { screen: 'USERS', privilege: 'DELETE' },
-  { screen: 'DASHBOARD', privilege: 'VIEW' },
-  { screen: 'SETTINGS', privilege: 'VIEW' },
-  { screen: 'SETTINGS', privilege: 'CONFIGURE' },
-  { screen: 'REPORTS', privilege: 'VIEW' },
-  { screen: 'DEMO', privilege: 'VIEW' },
-  { screen: 'DEMO', privilege: 'CREATE' },
-];
+interface MockTokenPayload {
+  sub: string;
+  user: User;
+  type: 'access' | 'refresh';
+  iat: number;
+  exp: number;
+}
 
 /**
- * Limited permissions for regular users.
+ * Generate a fake (unsigned) JWT carrying the user.
  */
-const LIMITED_PERMISSIONS: Permission[] = [
-  { screen: 'BADGE', privilege: 'VIEW' },
-  { screen: 'DASHBOARD', privilege: 'VIEW' },
-];
+function generateFakeToken(user: User, type: MockTokenPayload['type']): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const claims: MockTokenPayload = {
+    sub: user.id,
+    user,
+    type,
+    iat: now,
+    exp: now + (type === 'access' ? 3600 : 7 * 24 * 3600),
+  };
+  const payload = btoa(JSON.stringify(claims));
+  const signature = faker.string.alphanumeric(43);
+  return `${header}.${payload}.${signature}`;
+}
 
 /**
- * Generate a fake JWT token.
+ * Read the user of an unexpired mock token of the given type, or null.
  */
-function generateFakeToken(): string {
-  const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const payload = btoa(
-    JSON.stringify({
-      sub: faker.string.uuid(),
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 3600,
-    })
+function getTokenUser(token: string, type: MockTokenPayload['type']): User | null {
+  try {
+    const claims = JSON.parse(atob(token.split('.')[1] ?? '')) as Partial<MockTokenPayload>;
+    if (claims.type !== type || !claims.user || !claims.exp) return null;
+    return claims.exp * 1000 > Date.now() ? claims.user : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a JSON request body, or null when it is missing or malformed.
+ */
+async function readJson<T>(request: Request): Promise<Partial<T> | null> {
+  try {
+    const body: unknown = await request.json();
+    return typeof body === 'object' && body !== null ? (body as Partial<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Response for a request without a usable JSON body.
+ */
+function badRequest() {
+  return HttpResponse.json(
+    { message: 'Request body must be a JSON object', code: 'BAD_REQUEST' },
+    { status: 400 }
   );
-  const signature = faker.string.alphanumeric(43);
-  return `${header}.${payload}.${signature}`;
 }
 
 /**
  * Create a mock user based on email.
+ * Access is expressed as roles (see ROLES in lib/permissions) rather than
+ * exploded screen/privilege pairs. Ids are fixed per account, like a real
+ * backend's.
  */
 function createMockUser(email: string, isAdmin: boolean): User {
   return {
-    id: faker.string.uuid(),
+    id: isAdmin ? 'mock-admin' : 'mock-user',
     email,
     name: isAdmin ? 'Admin User' : 'Regular User',
     avatar: faker.image.avatar(),
-    permissions: isAdmin ? FULL_PERMISSIONS : LIMITED_PERMISSIONS,
+    roles: isAdmin ? ['ADMIN'] : ['USER'],
   };
 }
 
 /**
- * Stored mock users for session persistence.
+ * Refresh tokens already exchanged; refresh tokens are single-use.
  */
-const mockUsers: Record<string, User> = {};
+const usedRefreshTokens = new Set<string>();
+
+/**
+ * Issue an access/refresh token pair for a user.
+ */
+function issueTokens(user: User): { token: string; refreshToken: string } {
+  return {
+    token: generateFakeToken(user, 'access'),
+    refreshToken: generateFakeToken(user, 'refresh'),
+  };
+}
 
 /**
  * Authentication handlers for MSW.
@@ -79,20 +113,14 @@ export const authHandlers = [
   http.post('/api/auth/login', async ({ request }) => {
     await delay(500);
 
-    const body = (await request.json()) as { email: string; password: string };
+    const body = await readJson<{ email: string; password: string }>(request);
+    if (!body) return badRequest();
     const { email } = body;
 
     // Admin user - full permissions
     if (email === 'admin@example.com') {
       const user = createMockUser(email, true);
-      const token = generateFakeToken();
-      mockUsers[token] = user;
-
-      const response: AuthResponse = {
-        user,
-        token,
-        refreshToken: generateFakeToken(),
-      };
+      const response: AuthResponse = { user, ...issueTokens(user) };
 
       return HttpResponse.json(response, { status: 200 });
     }
@@ -100,14 +128,7 @@ export const authHandlers = [
     // Regular user - limited permissions
     if (email === 'user@example.com') {
       const user = createMockUser(email, false);
-      const token = generateFakeToken();
-      mockUsers[token] = user;
-
-      const response: AuthResponse = {
-        user,
-        token,
-        refreshToken: generateFakeToken(),
-      };
+      const response: AuthResponse = { user, ...issueTokens(user) };
 
       return HttpResponse.json(response, { status: 200 });
     }
@@ -135,16 +156,52 @@ export const authHandlers = [
       );
     }
 
-    const token = authHeader.replace('Bearer ', '');
-    const user = mockUsers[token];
+    // Unknown or expired tokens are rejected, never mapped to a default user
+    const user = getTokenUser(authHeader.replace('Bearer ', ''), 'access');
 
     if (!user) {
-      // If token is not in our mock store, create a default admin user
-      // This handles cases where the token was set before the mock was started
-      const defaultUser = createMockUser('admin@example.com', true);
-      return HttpResponse.json(defaultUser, { status: 200 });
+      return HttpResponse.json(
+        { message: 'Invalid or expired token', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
     }
 
     return HttpResponse.json(user, { status: 200 });
   }),
+
+  /**
+   * POST /api/auth/refresh
+   * Exchanges a refresh token for a new access token.
+   * Refresh tokens are single-use: a new one is issued with every refresh.
+   */
+  http.post('/api/auth/refresh', async ({ request }) => {
+    await delay(300);
+
+    const body = await readJson<{ refreshToken: string }>(request);
+    if (!body) return badRequest();
+    const { refreshToken } = body;
+
+    if (!refreshToken) {
+      return HttpResponse.json(
+        { message: 'Refresh token is required', code: 'INVALID_REFRESH_TOKEN' },
+        { status: 401 }
+      );
+    }
+
+    const user = usedRefreshTokens.has(refreshToken)
+      ? null
+      : getTokenUser(refreshToken, 'refresh');
+
+    if (!user) {
+      return HttpResponse.json(
+        { message: 'Invalid or expired refresh token', code: 'INVALID_REFRESH_TOKEN' },
+        { status: 401 }
+      );
+    }
+    usedRefreshTokens.add(refreshToken);
+
+    const response: RefreshTokenResponse = issueTokens(user);
+
+    return HttpResponse.json(response, { status: 200 });
+  }),
 ];
@@ -50,6 +50,41 @@ function generateBadges(): Badge[] {
 // Generate badges once and reuse
 const allBadges = generateBadges();
 
+/**
+ * Maximum badge name length accepted by the server.
+ */
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * Validate a badge name like a real backend would.
+ * Names must be 3-50 characters and unique (case-insensitive).
+ *
+ * @returns A 422 validation response, or null when the name is valid
+ */
+function validateBadgeName(name: unknown, ignoreId?: string) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  let message: string | null = null;
+
+  if (trimmed.length < 3) {
+    message = 'Name must be at least 3 characters';
+  } else if (trimmed.length > MAX_NAME_LENGTH) {
+    message = `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  } else if (
+    allBadges.some(
+      (badge) => badge.id !== ignoreId && badge.name.toLowerCase() === trimmed.toLowerCase()
+    )
+  ) {
+    message = 'A badge with this name already exists';
+  }
+
+  if (!message) return null;
+
+  return HttpResponse.json(
+    { message: 'Validation failed', code: 'VALIDATION_ERROR', errors: { name: [message] } },
+    { status: 422 }
+  );
+}
+
 /**
  * Badge handlers for MSW.
  */
@@ -132,13 +167,16 @@ export const badgeHandlers = [
 
   /**
    * POST /api/badges
-   * Creates a new badge.
+   * Creates a new badge. Returns 422 for invalid or duplicate names.
    */
   http.post('/api/badges', async ({ request }) => {
     await delay(500);
 
     const body = (await request.json()) as { name: string; status?: BadgeStatus };
 
+    const validationError = validateBadgeName(body.name);
+    if (validationError) return validationError;
+
     const newBadge: Badge = {
       id: faker.string.uuid(),
       name: body.name,
@@ -154,7 +192,7 @@ export const badgeHandlers = [
 
   /**
    * PUT /api/badges/:id
-   * Updates an existing badge.
+   * Updates an existing badge. Returns 422 for invalid or duplicate names.
    */
   http.put('/api/badges/:id', async ({ params, request }) => {
     await delay(500);
@@ -170,6 +208,12 @@ export const badgeHandlers = [
     }
 
     const body = (await request.json()) as Partial<Badge>;
+
+    if (body.name !== undefined) {
+      const validationError = validateBadgeName(body.name, badge.id);
+      if (validationError) return validationError;
+    }
+
     const updatedBadge: Badge = { ...badge, ...body, id: badge.id };
 
     // Persist the update
@@ -179,6 +223,35 @@ export const badgeHandlers = [
     return HttpResponse.json(updatedBadge, { status: 200 });
   }),
 
+  /**
+   * PATCH /api/badges/:id
+   * Partially updates an existing badge. Returns 422 for invalid or duplicate names.
+   */
+  http.patch('/api/badges/:id', async ({ params, request }) => {
+    await delay(500);
+
+    const { id } = params;
+    const index = allBadges.findIndex((b) => b.id === id);
+
+    if (index === -1) {
+      return HttpResponse.json(
+        { message: 'Badge not found', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const body = (await request.json()) as Partial<Badge>;
+
+    if (body.name !== undefined) {
+      const validationError = validateBadgeName(body.name, allBadges[index].id);
+      if (validationError) return validationError;
+    }
+
+    allBadges[index] = { ...allBadges[index], ...body, id: allBadges[index].id };
+
+    return HttpResponse.json(allBadges[index], { status: 200 });
+  }),
+
   /**
    * DELETE /api/badges/:id
    * Deletes a badge.
@@ -1,8 +1,9 @@
 import { authHandlers } from './auth';
 import { badgeHandlers } from './badges';
+import { tableViewHandlers } from './table-views';
 
 /**
  * All MSW request handlers.
  * Add new handler arrays here as you create more mock endpoints.
  */
-export const handlers = [...authHandlers, ...badgeHandlers];
+export const handlers = [...authHandlers, ...badgeHandlers, ...tableViewHandlers];
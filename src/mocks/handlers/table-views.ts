@@ -0,0 +1,144 @@
+import { http, HttpResponse, delay } from 'msw';
+import { faker } from '@faker-js/faker';
+import type { TableView } from '@/components/data-display/table/types';
+
+/**
+ * Saved views by table id.
+ * Kept in memory for the signed-in demo user, so they reset on reload.
+ */
+const viewsByTable = new Map<string, TableView[]>();
+
+function getViews(tableId: string): TableView[] {
+  return viewsByTable.get(tableId) ?? [];
+}
+
+function viewNotFound() {
+  return HttpResponse.json(
+    { message: 'View not found', code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Validate a view name like a real backend would.
+ *
+ * @returns A 422 validation response, or null when the name is valid
+ */
+function validateViewName(name: unknown) {
+  if (typeof name === 'string' && name.trim().length > 0) return null;
+
+  return HttpResponse.json(
+    { message: 'Validation failed', code: 'VALIDATION_ERROR', errors: { name: ['Name is required'] } },
+    { status: 422 }
+  );
+}
+
+/**
+ * Saved table view handlers for MSW.
+ */
+export const tableViewHandlers = [
+  /**
+   * GET /api/table-views/:tableId
+   * Returns the saved views of a table.
+   */
+  http.get('/api/table-views/:tableId', async ({ params }) => {
+    await delay(300);
+
+    return HttpResponse.json(getViews(params.tableId as string), { status: 200 });
+  }),
+
+  /**
+   * POST /api/table-views/:tableId
+   * Saves a new view.
+   */
+  http.post('/api/table-views/:tableId', async ({ params, request }) => {
+    await delay(300);
+
+    const tableId = params.tableId as string;
+    const body = (await request.json()) as Pick<TableView, 'name' | 'state'>;
+
+    const validationError = validateViewName(body.name);
+    if (validationError) return validationError;
+
+    const view: TableView = {
+      id: faker.string.uuid(),
+      name: body.name.trim(),
+      state: body.state,
+      isDefault: false,
+    };
+    viewsByTable.set(tableId, [...getViews(tableId), view]);
+
+    return HttpResponse.json(view, { status: 201 });
+  }),
+
+  /**
+   * PUT /api/table-views/:tableId/default
+   * Makes a view the default, or clears the default when `viewId` is null.
+   * Registered before the update handler so "default" isn't taken for a view id.
+   */
+  http.put('/api/table-views/:tableId/default', async ({ params, request }) => {
+    await delay(300);
+
+    const tableId = params.tableId as string;
+    const { viewId } = (await request.json()) as { viewId: string | null };
+    const views = getViews(tableId);
+
+    if (viewId !== null && !views.some((view) => view.id === viewId)) {
+      return viewNotFound();
+    }
+
+    viewsByTable.set(
+      tableId,
+      views.map((view) => ({ ...view, isDefault: view.id === viewId }))
+    );
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  /**
+   * PUT /api/table-views/:tableId/:viewId
+   * Updates the name and state of a view.
+   */
+  http.put('/api/table-views/:tableId/:viewId', async ({ params, request }) => {
+    await delay(300);
+
+    const tableId = params.tableId as string;
+    const views = getViews(tableId);
+    const existing = views.find((view) => view.id === params.viewId);
+
+    if (!existing) return viewNotFound();
+
+    const body = (await request.json()) as Pick<TableView, 'name' | 'state'>;
+
+    const validationError = validateViewName(body.name);
+    if (validationError) return validationError;
+
+    const updated: TableView = { ...existing, name: body.name.trim(), state: body.state };
+    viewsByTable.set(
+      tableId,
+      views.map((view) => (view.id === existing.id ? updated : view))
+    );
+
+    return HttpResponse.json(updated, { status: 200 });
+  }),
+
+  /**
+   * DELETE /api/table-views/:tableId/:viewId
+   * Deletes a view.
+   */
+  http.delete('/api/table-views/:tableId/:viewId', async ({ params }) => {
+    await delay(300);
+
+    const tableId = params.tableId as string;
+    const views = getViews(tableId);
+
+    if (!views.some((view) => view.id === params.viewId)) return viewNotFound();
+
+    viewsByTable.set(
+      tableId,
+      views.filter((view) => view.id !== params.viewId)
+    );
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+];
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { createMemoryRouter } from 'react-router-dom'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { AuthProvider } from '@/context/AuthContext'
+import { AuthRouterProvider } from '@/routes/AuthRouterProvider'
+import { redirectIfAuthenticated } from '@/routes/loaders'
+import LoginPage from './LoginPage'
+import type { AuthResponse } from '@/types/auth'
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn(), success: vi.fn() } }))
+
+// Keep the app's i18n setup (HTTP backend, suspense) out of the page: keys render as-is
+vi.mock('@/lib/i18n', async () => {
+  const { default: i18next } = await import('i18next')
+  return { default: i18next.createInstance() }
+})
+
+const response: AuthResponse = {
+  user: { id: 'user-1', email: 'admin@example.com', name: 'Admin User' },
+  token: 'access-token',
+}
+
+const server = setupServer(
+  http.post('/api/auth/login', async ({ request }) => {
+    const { email } = (await request.json()) as { email: string }
+    if (email === response.user.email) return HttpResponse.json(response)
+    return HttpResponse.json(
+      { message: 'Invalid email or password', code: 'INVALID_CREDENTIALS' },
+      { status: 401 }
+    )
+  })
+)
+
+/**
+ * Render the login route (with the same loader as App) at a path, and record
+ * every new location the router settles on.
+ */
+function renderLoginRoute(path: string | { pathname: string; search?: string; state?: unknown }) {
+  const router = createMemoryRouter(
+    [
+      {
+        path: '/login',
+        loader: ({ request }) => redirectIfAuthenticated(request, '/'),
+        element: <LoginPage />,
+      },
+      { path: '/', element: <p>Home page</p> },
+      { path: '/badges/:id', element: <p>Badge page</p> },
+    ],
+    { initialEntries: [path] }
+  )
+  const visited: string[] = []
+  let lastKey = router.state.location.key
+  router.subscribe(({ location, navigation }) => {
+    if (navigation.state !== 'idle' || location.key === lastKey) return
+    lastKey = location.key
+    visited.push(`${location.pathname}${location.search}`)
+  })
+  const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } })
+
+  render(
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <AuthRouterProvider router={router} />
+      </AuthProvider>
+    </QueryClientProvider>
+  )
+  return { router, visited }
+}
+
+async function submit(email: string, password: string) {
+  const user = userEvent.setup()
+  await user.type(await screen.findByLabelText(/fields.email/), email)
+  await user.type(screen.getByLabelText(/fields.password/), password)
+  await user.click(screen.getByRole('button', { name: 'login.button' }))
+}
+
+describe('LoginPage', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterAll(() => server.close())
+  afterEach(() => {
+    server.resetHandlers()
+    localStorage.clear()
+  })
+
+  it('shows invalid credentials inline and clears the password', async () => {
+    renderLoginRoute('/login')
+
+    await submit('nobody@example.com', 'wrong')
+
+    expect(await screen.findByText('login.errors.invalidCredentials')).toBeInTheDocument()
+    expect(screen.getByLabelText(/fields.password/)).toHaveValue('')
+    expect(screen.getByLabelText(/fields.email/)).toHaveValue('nobody@example.com')
+  })
+
+  it('redirects once to the ?from= page after login', async () => {
+    const { router, visited } = renderLoginRoute('/login?from=%2Fbadges%2F42%3Ftab%3Dhistory')
+
+    await submit('admin@example.com', 'secret')
+
+    expect(await screen.findByText('Badge page')).toBeInTheDocument()
+    expect(router.state.location.search).toBe('?tab=history')
+    await waitFor(() =>
+      expect(visited.filter((path) => !path.startsWith('/login'))).toEqual([
+        '/badges/42?tab=history',
+      ])
+    )
+    router.dispose()
+  })
+
+  it('redirects once to the location.state.from page saved by PrivateRoute', async () => {
+    const from = { pathname: '/badges/7', search: '', hash: '#notes' }
+    const { router, visited } = renderLoginRoute({
+      pathname: '/login',
+      search: '?from=%2Fbadges%2F7%23notes',
+      state: { from },
+    })
+
+    await submit('admin@example.com', 'secret')
+
+    expect(await screen.findByText('Badge page')).toBeInTheDocument()
+    expect(router.state.location.hash).toBe('#notes')
+    await waitFor(() =>
+      expect(visited.filter((path) => !path.startsWith('/login'))).toEqual(['/badges/7'])
+    )
+    router.dispose()
+  })
+})
@@ -0,0 +1,107 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { z } from "@/lib/zod-config";
+import { AuthLayout } from "@/components/layouts/AuthLayout";
+import { Form, Input, ROOT_SERVER_ERROR } from "@/components/form";
+import { Button } from "@/components/overlay/Button";
+import { useLogin } from "@/hooks/useLogin";
+import type { LoginRedirectState } from "@/routes/loaders";
+
+const loginSchema = z.object({
+  email: z.string().min(1).email(),
+  password: z.string().min(1),
+});
+
+type LoginFormValues = z.infer<typeof loginSchema>;
+
+/**
+ * Login page.
+ * Signs the user in via useLogin, then returns to the `location.state.from`
+ * page saved by PrivateRoute. Without one, the login route loader (or
+ * PublicRoute) redirects to the `?from=` page or its default route once the
+ * session changes.
+ */
+export default function LoginPage() {
+  const { t } = useTranslation("auth");
+  const navigate = useNavigate();
+  const from = (useLocation().state as LoginRedirectState | null)?.from;
+
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const loginMutation = useLogin({
+    onSuccess: () => {
+      if (from) {
+        navigate(`${from.pathname}${from.search}${from.hash}`, { replace: true });
+      }
+    },
+    onError: (error) => {
+      if (error.code === "INVALID_CREDENTIALS") {
+        form.setError(ROOT_SERVER_ERROR, {
+          message: t("login.errors.invalidCredentials"),
+        });
+        form.resetField("password", { keepError: false });
+        return;
+      }
+
+      form.setError(ROOT_SERVER_ERROR, {
+        message: t("login.errors.generic"),
+      });
+    },
+  });
+
+  const handleSubmit = (values: LoginFormValues) => {
+    form.clearErrors(ROOT_SERVER_ERROR);
+    loginMutation.mutate(values);
+  };
+
+  return (
+    <AuthLayout>
+      <div>
+        <h2
+          className="text-2xl font-bold text-center mb-2"
+          style={{ color: "var(--color-text)" }}
+        >
+          {t("login.title")}
+        </h2>
+        <p
+          className="text-center mb-6"
+          style={{ color: "var(--color-text-muted)" }}
+        >
+          {t("login.subtitle")}
+        </p>
+
+        <Form form={form} onSubmit={handleSubmit} noValidate>
+          <Input
+            name="email"
+            type="email"
+            label={t("fields.email")}
+            placeholder={t("placeholders.email")}
+            autoComplete="email"
+            required
+          />
+          <Input
+            name="password"
+            type="password"
+            label={t("fields.password")}
+            placeholder={t("placeholders.password")}
+            autoComplete="current-password"
+            required
+          />
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={loginMutation.isPending}
+          >
+            {loginMutation.isPending ? t("login.submitting") : t("login.button")}
+          </Button>
+        </Form>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -6,35 +6,33 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "sonner";
 
-import { ServerTable, type ServerTableState } from "@/components/data-display/table";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge } from "@/components/data-display";
+import {
+  ServerTable,
+  createApiTableViewStorage,
+  type ColumnFilterDef,
+  type ServerTableState,
+} from "@/components/data-display/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge, InfiniteList } from "@/components/data-display";
 import { Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/overlay";
-import { Form, Input, Select } from "@/components/form";
+import { Form, Input, Select, applyServerErrors } from "@/components/form";
 import { LanguageSwitcher } from "@/components/ui";
 import { useFetch } from "@/hooks/useFetch";
 import { useGenericMutation } from "@/hooks/useGenericMutation";
-
-// Badge type matching MSW handler
-interface BadgeItem {
-  id: string;
-  name: string;
-  status: "active" | "inactive" | "pending";
-  createdAt: string;
-}
-
-interface BadgesResponse {
-  data: BadgeItem[];
-  meta: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
-}
+import { pageNumberPagination, useInfiniteFetch } from "@/hooks/useInfiniteFetch";
+import { replaceById } from "@/api/optimistic";
+import {
+  INITIAL_BADGES_TABLE_STATE,
+  getBadgesFetchArgs,
+  type BadgeItem,
+  type BadgesResponse,
+} from "./kitchen-sink-queries";
 
 // Default status for new badges
 const DEFAULT_BADGE_STATUS = "pending" as const;
 
+// Saved views of the badges table, synced through the MSW table-views endpoints
+const badgesViewStorage = createApiTableViewStorage();
+
 // Form schema with i18n validation messages
 function useCreateBadgeSchema() {
   const { t } = useTranslation("validation");
@@ -71,14 +69,24 @@ function CreateBadgeModal({ onSuccess }: { onSuccess: () => void }) {
     url: "/badges",
     invalidateKeys: [["badges"]],
     disableToast: true,
+    // Queue the badge while offline; it is created once the connection is back
+    offline: true,
+    onQueued: () => {
+      toast.info(t("common:offlineSync.queuedToast"));
+      form.reset();
+      setOpen(false);
+    },
     onSuccess: () => {
       toast.success(t("demo:success.badgeCreated"));
       form.reset();
       setOpen(false);
       onSuccess();
     },
-    onError: () => {
-      toast.error(t("demo:error.badgeCreationFailed"));
+    // Server validation errors (e.g. a duplicate name) show on their fields
+    onError: (error) => {
+      applyServerErrors(form, error, {
+        fallbackMessage: t("demo:error.badgeCreationFailed"),
+      });
     },
   });
 
@@ -134,6 +142,54 @@ function CreateBadgeModal({ onSuccess }: { onSuccess: () => void }) {
   );
 }
 
+// /api/badges pages by number; one adapter for the feed
+const badgesFeedAdapter = pageNumberPagination<BadgeItem>({ limit: 10 });
+
+/**
+ * Badge feed - the same endpoint as the table, loaded page after page on scroll
+ */
+function BadgesFeed() {
+  const { t } = useTranslation("demo");
+  const { items, hasNextPage, fetchNextPage, isFetchingNextPage, isLoading, isError } = useInfiniteFetch(
+    ["badges", "feed"],
+    "/badges",
+    { adapter: badgesFeedAdapter }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("feed.title")}</CardTitle>
+        <CardDescription>{t("feed.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-80 overflow-y-auto">
+          <InfiniteList
+            items={items}
+            getItemKey={(badge) => badge.id}
+            renderItem={(badge) => (
+              <div
+                className="flex items-center justify-between border-b py-[length:var(--spacing-2)] text-[length:var(--text-sm)]"
+                style={{ borderColor: "var(--color-border)" }}
+              >
+                <span>{badge.name}</span>
+                <span style={{ color: "var(--color-text-secondary)" }}>
+                  {new Date(badge.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+            )}
+            hasNextPage={hasNextPage}
+            fetchNextPage={fetchNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            isLoading={isLoading}
+            isError={isError}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * Kitchen Sink Page - demonstrates all boilerplate systems working together
  */
@@ -141,29 +197,24 @@ export default function KitchenSinkPage() {
   const { t } = useTranslation(["demo", "common"]);
   
   // Table state for server-side operations
-  const [tableState, setTableState] = React.useState<ServerTableState>({
-    pagination: { pageIndex: 0, pageSize: 10 },
-    sorting: [],
-    globalFilter: "",
-    columnFilters: [],
-  });
-
-  // Build query params from table state
-  const queryParams = React.useMemo(() => ({
-    page: tableState.pagination.pageIndex + 1,
-    limit: tableState.pagination.pageSize,
-    search: tableState.globalFilter || undefined,
-  }), [tableState.pagination.pageIndex, tableState.pagination.pageSize, tableState.globalFilter]);
+  const [tableState, setTableState] = React.useState<ServerTableState>(INITIAL_BADGES_TABLE_STATE);
 
-  // Fetch badges from MSW endpoint
+  // Fetch badges from MSW endpoint - the route loader prefetches the first page
   const { data: badgesData, isLoading, refetch } = useFetch<BadgesResponse>(
-    ["badges", queryParams],
-    "/badges",
-    {
-      params: queryParams,
-    }
+    ...getBadgesFetchArgs(tableState)
   );
 
+  // Status changes show in the table right away and are rolled back if the PATCH fails
+  const { mutate: updateBadgeStatus } = useGenericMutation<BadgeItem, Pick<BadgeItem, "status">>({
+    method: "PATCH",
+    url: "/badges",
+    rollbackMessage: t("demo:error.statusUpdateFailed"),
+    optimistic: {
+      queryKey: ["badges"],
+      update: replaceById(({ urlParams = "", data }) => ({ id: urlParams.slice(1), ...data })),
+    },
+  });
+
   // Table columns with i18n
   const columns: ColumnDef<BadgeItem>[] = React.useMemo(() => [
     {
@@ -205,9 +256,20 @@ export default function KitchenSinkPage() {
             ? t("demo:statusInactive")
             : t("demo:statusPending");
         return (
-          <Badge variant="solid" colorScheme={colorScheme}>
-            {label}
-          </Badge>
+          <button
+            type="button"
+            title={t("demo:table.toggleStatus")}
+            onClick={() =>
+              updateBadgeStatus({
+                urlParams: `/${row.original.id}`,
+                data: { status: status === "active" ? "inactive" : "active" },
+              })
+            }
+          >
+            <Badge variant="solid" colorScheme={colorScheme}>
+              {label}
+            </Badge>
+          </button>
         );
       },
     },
@@ -223,6 +285,21 @@ export default function KitchenSinkPage() {
         );
       },
     },
+  ], [t, updateBadgeStatus]);
+
+  // The badges endpoint filters by one status at a time
+  const filterDefs: ColumnFilterDef[] = React.useMemo(() => [
+    {
+      id: "status",
+      label: t("demo:table.columnStatus"),
+      type: "select",
+      options: [
+        { value: "active", label: t("demo:statusActive") },
+        { value: "inactive", label: t("demo:statusInactive") },
+        { value: "pending", label: t("demo:statusPending") },
+      ],
+      operators: ["equals"],
+    },
   ], [t]);
 
   const handleStateChange = React.useCallback((state: ServerTableState) => {
@@ -286,11 +363,19 @@ export default function KitchenSinkPage() {
               totalRows={badgesData?.meta?.total ?? 0}
               isLoading={isLoading}
               onStateChange={handleStateChange}
+              tableId="badges"
+              syncWithUrl={{ prefix: "badges" }}
+              viewStorage={badgesViewStorage}
+              filterDefs={filterDefs}
               initialPageSize={10}
               searchPlaceholder={t("demo:table.searchPlaceholder")}
             />
           </CardContent>
         </Card>
+
+        <div className="mt-[length:var(--spacing-8)]">
+          <BadgesFeed />
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,60 @@
+import { isColumnFilterValue, type ServerTableState } from "@/components/data-display/table";
+import { fetchQueryOptions, type UseFetchOptions } from "@/hooks/useFetch";
+import type { RouteLoaderArgs } from "@/routes/loaders";
+
+// Badge type matching MSW handler
+export interface BadgeItem {
+  id: string;
+  name: string;
+  status: "active" | "inactive" | "pending";
+  createdAt: string;
+}
+
+export interface BadgesResponse {
+  data: BadgeItem[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Table state the kitchen sink page starts with.
+ */
+export const INITIAL_BADGES_TABLE_STATE: ServerTableState = {
+  pagination: { pageIndex: 0, pageSize: 10 },
+  sorting: [],
+  globalFilter: "",
+  columnFilters: [],
+};
+
+/**
+ * useFetch arguments for the badges table, shared by the page and its loader
+ * so both hit the same query key.
+ */
+export function getBadgesFetchArgs(
+  tableState: ServerTableState
+): [key: unknown[], url: string, options: UseFetchOptions<BadgesResponse>] {
+  // /api/badges filters by a single status
+  const status = tableState.columnFilters.find((filter) => filter.id === "status")?.value;
+  const params = {
+    page: tableState.pagination.pageIndex + 1,
+    limit: tableState.pagination.pageSize,
+    search: tableState.globalFilter || undefined,
+    status: isColumnFilterValue(status) && status.operator === "equals" ? status.value : undefined,
+  };
+  return [["badges", params], "/badges", { params }];
+}
+
+/**
+ * Prefetch the first page of badges while the page chunk loads.
+ * A failed fetch is left to the table's own error state.
+ */
+export async function kitchenSinkLoader({ queryClient }: RouteLoaderArgs) {
+  await queryClient.prefetchQuery(
+    fetchQueryOptions<BadgesResponse>(...getBadgesFetchArgs(INITIAL_BADGES_TABLE_STATE))
+  );
+  return null;
+}
@@ -2,7 +2,12 @@ import * as React from "react";
 import { Link } from "react-router-dom";
 import { type ColumnDef } from "@tanstack/react-table";
 import { ArrowLeft, MoreHorizontal, Mail, Phone, Building2 } from "lucide-react";
-import { ClientTable } from "@/components/data-display/table";
+import { toast } from "sonner";
+import {
+  ClientTable,
+  type ColumnFilterDef,
+  type TableBulkAction,
+} from "@/components/data-display/table";
 import { Button } from "@/components/overlay/Button";
 import { Badge } from "@/components/data-display/Badge";
 
@@ -19,6 +24,11 @@ interface User {
   joinDate: string;
 }
 
+// Departments of the demo users, also offered by the department filter
+const DEPARTMENTS = [
+  "Engineering", "Marketing", "Sales", "HR", "Finance", "Operations", "Legal", "Support"
+];
+
 // Generate deterministic pseudo-random numbers for consistent demo data
 function seededRandom(seed: number): number {
   const x = Math.sin(seed) * 10000;
@@ -41,10 +51,6 @@ function generateDemoData(): User[] {
     "White", "Harris", "Sanchez", "Clark", "Ramirez", "Lewis", "Robinson", "Walker",
   ];
   
-  const departments = [
-    "Engineering", "Marketing", "Sales", "HR", "Finance", "Operations", "Legal", "Support"
-  ];
-  
   const statuses: ("active" | "inactive" | "pending")[] = ["active", "inactive", "pending"];
   
   const data: User[] = [];
@@ -53,7 +59,7 @@ function generateDemoData(): User[] {
     const seed = i + 1;
     const firstName = firstNames[Math.floor(seededRandom(seed) * firstNames.length)];
     const lastName = lastNames[Math.floor(seededRandom(seed * 2) * lastNames.length)];
-    const department = departments[Math.floor(seededRandom(seed * 3) * departments.length)];
+    const department = DEPARTMENTS[Math.floor(seededRandom(seed * 3) * DEPARTMENTS.length)];
     const status = statuses[Math.floor(seededRandom(seed * 4) * statuses.length)];
     
     data.push({
@@ -127,7 +133,6 @@ const columns: ColumnDef<User>[] = [
         <span>{row.getValue("department")}</span>
       </div>
     ),
-    filterFn: "equals",
   },
   {
     accessorKey: "status",
@@ -146,7 +151,6 @@ const columns: ColumnDef<User>[] = [
         </Badge>
       );
     },
-    filterFn: "equals",
   },
   {
     accessorKey: "salary",
@@ -184,109 +188,50 @@ const columns: ColumnDef<User>[] = [
   },
 ];
 
-// Filter form component
-function FilterForm() {
-  return (
-    <div className="flex flex-col gap-[length:var(--spacing-4)]">
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Department
-        </label>
-        <select
-          className="w-full px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-          style={{
-            backgroundColor: "var(--color-surface)",
-            border: "1px solid var(--color-border)",
-            color: "var(--color-text)",
-          }}
-        >
-          <option value="">All Departments</option>
-          <option value="Engineering">Engineering</option>
-          <option value="Marketing">Marketing</option>
-          <option value="Sales">Sales</option>
-          <option value="HR">HR</option>
-          <option value="Finance">Finance</option>
-          <option value="Operations">Operations</option>
-          <option value="Legal">Legal</option>
-          <option value="Support">Support</option>
-        </select>
-      </div>
-      
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Status
-        </label>
-        <select
-          className="w-full px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-          style={{
-            backgroundColor: "var(--color-surface)",
-            border: "1px solid var(--color-border)",
-            color: "var(--color-text)",
-          }}
-        >
-          <option value="">All Status</option>
-          <option value="active">Active</option>
-          <option value="inactive">Inactive</option>
-          <option value="pending">Pending</option>
-        </select>
-      </div>
-      
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Minimum Salary
-        </label>
-        <input
-          type="number"
-          placeholder="e.g. 75000"
-          className="w-full px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-          style={{
-            backgroundColor: "var(--color-surface)",
-            border: "1px solid var(--color-border)",
-            color: "var(--color-text)",
-          }}
-        />
-      </div>
-      
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Join Date Range
-        </label>
-        <div className="flex gap-[length:var(--spacing-2)]">
-          <input
-            type="date"
-            className="flex-1 px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-            style={{
-              backgroundColor: "var(--color-surface)",
-              border: "1px solid var(--color-border)",
-              color: "var(--color-text)",
-            }}
-          />
-          <input
-            type="date"
-            className="flex-1 px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-            style={{
-              backgroundColor: "var(--color-surface)",
-              border: "1px solid var(--color-border)",
-              color: "var(--color-text)",
-            }}
-          />
-        </div>
-      </div>
-    </div>
-  );
-}
+// Filters for the filter panel, built into a form by the table
+const filterDefs: ColumnFilterDef[] = [
+  {
+    id: "department",
+    label: "Department",
+    type: "select",
+    options: DEPARTMENTS.map((department) => ({ value: department, label: department })),
+    operators: ["in", "equals"],
+    placeholder: "All departments",
+  },
+  {
+    id: "status",
+    label: "Status",
+    type: "select",
+    options: [
+      { value: "active", label: "Active" },
+      { value: "inactive", label: "Inactive" },
+      { value: "pending", label: "Pending" },
+    ],
+  },
+  { id: "salary", label: "Salary", type: "number", operators: ["between", "equals"] },
+  { id: "joinDate", label: "Join Date", type: "date" },
+];
+
+// Bulk actions shown while users are selected
+const bulkActions: TableBulkAction<User>[] = [
+  {
+    id: "email",
+    label: "Email",
+    onClick: ({ rows }) => {
+      toast.success(`Drafted an email to ${rows.length} users`);
+    },
+  },
+  {
+    id: "deactivate",
+    label: "Deactivate",
+    variant: "destructive",
+    disabled: ({ rows }) => rows.every((user) => user.status === "inactive"),
+    onClick: ({ ids }, clearSelection) => {
+      toast.success(`${ids.length} users deactivated`);
+      clearSelection();
+    },
+  },
+];
 
 /**
  * Client Table Demo Page
@@ -365,7 +310,10 @@ export default function ClientTablePage() {
           columns={columns}
           initialPageSize={20}
           searchPlaceholder="Search by name, email, department..."
-          filterContent={<FilterForm />}
+          tableId="demo-users"
+          enableRowSelection
+          bulkActions={bulkActions}
+          filterDefs={filterDefs}
         />
       </main>
     </div>
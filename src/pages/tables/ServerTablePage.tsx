@@ -10,9 +10,14 @@ import {
   Tag,
   RefreshCw,
 } from "lucide-react";
+import { toast } from "sonner";
 import {
   ServerTable,
+  isColumnFilterValue,
+  matchesColumnFilter,
+  type ColumnFilterDef,
   type ServerTableState,
+  type TableBulkAction,
 } from "@/components/data-display/table";
 import { Button } from "@/components/overlay/Button";
 import { Badge } from "@/components/data-display/Badge";
@@ -32,6 +37,16 @@ interface Product {
 const BASE_PRICE = 9.99;
 const MAX_PRICE_RANGE = 500;
 const TOTAL_PRODUCTS = 500;
+const CATEGORIES = [
+  "Electronics",
+  "Clothing",
+  "Home & Garden",
+  "Sports",
+  "Books",
+  "Toys",
+  "Health",
+  "Automotive",
+];
 
 // Generate deterministic pseudo-random numbers
 function seededRandom(seed: number): number {
@@ -47,17 +62,6 @@ function getFullDataset(): Product[] {
     return cachedDataset;
   }
 
-  const categories = [
-    "Electronics",
-    "Clothing",
-    "Home & Garden",
-    "Sports",
-    "Books",
-    "Toys",
-    "Health",
-    "Automotive",
-  ];
-
   const adjectives = [
     "Premium",
     "Basic",
@@ -92,7 +96,7 @@ function getFullDataset(): Product[] {
     const seed = i + 1;
     const adjective = adjectives[Math.floor(seededRandom(seed) * adjectives.length)];
     const noun = nouns[Math.floor(seededRandom(seed * 2) * nouns.length)];
-    const category = categories[Math.floor(seededRandom(seed * 3) * categories.length)];
+    const category = CATEGORIES[Math.floor(seededRandom(seed * 3) * CATEGORIES.length)];
     const status = statuses[Math.floor(seededRandom(seed * 4) * statuses.length)];
 
     data.push({
@@ -156,6 +160,9 @@ function simulateFetchProducts(
         if (filter.value) {
           filteredData = filteredData.filter((item) => {
             const value = item[filter.id as keyof Product];
+            if (isColumnFilterValue(filter.value)) {
+              return matchesColumnFilter(value, filter.value);
+            }
             return String(value)
               .toLowerCase()
               .includes(String(filter.value).toLowerCase());
@@ -301,92 +308,40 @@ const columns: ColumnDef<Product>[] = [
   },
 ];
 
-// Filter form component
-function FilterForm() {
-  return (
-    <div className="flex flex-col gap-[length:var(--spacing-4)]">
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Category
-        </label>
-        <select
-          className="w-full px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-          style={{
-            backgroundColor: "var(--color-surface)",
-            border: "1px solid var(--color-border)",
-            color: "var(--color-text)",
-          }}
-        >
-          <option value="">All Categories</option>
-          <option value="Electronics">Electronics</option>
-          <option value="Clothing">Clothing</option>
-          <option value="Home & Garden">Home & Garden</option>
-          <option value="Sports">Sports</option>
-          <option value="Books">Books</option>
-          <option value="Toys">Toys</option>
-          <option value="Health">Health</option>
-          <option value="Automotive">Automotive</option>
-        </select>
-      </div>
-
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Status
-        </label>
-        <select
-          className="w-full px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-          style={{
-            backgroundColor: "var(--color-surface)",
-            border: "1px solid var(--color-border)",
-            color: "var(--color-text)",
-          }}
-        >
-          <option value="">All Status</option>
-          <option value="in_stock">In Stock</option>
-          <option value="low_stock">Low Stock</option>
-          <option value="out_of_stock">Out of Stock</option>
-        </select>
-      </div>
+// Filters for the filter panel; they reach the "server" as typed filter values
+const filterDefs: ColumnFilterDef[] = [
+  {
+    id: "category",
+    label: "Category",
+    type: "select",
+    options: CATEGORIES.map((category) => ({ value: category, label: category })),
+    operators: ["in", "equals"],
+    placeholder: "All categories",
+  },
+  {
+    id: "status",
+    label: "Status",
+    type: "select",
+    options: [
+      { value: "in_stock", label: "In Stock" },
+      { value: "low_stock", label: "Low Stock" },
+      { value: "out_of_stock", label: "Out of Stock" },
+    ],
+  },
+  { id: "price", label: "Price", type: "number", operators: ["between", "equals"] },
+  { id: "lastUpdated", label: "Last Updated", type: "date" },
+];
 
-      <div>
-        <label
-          className="block text-[length:var(--text-sm)] font-[number:var(--font-medium)] mb-[length:var(--spacing-2)]"
-          style={{ color: "var(--color-text)" }}
-        >
-          Price Range
-        </label>
-        <div className="flex gap-[length:var(--spacing-2)]">
-          <input
-            type="number"
-            placeholder="Min"
-            className="flex-1 px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-            style={{
-              backgroundColor: "var(--color-surface)",
-              border: "1px solid var(--color-border)",
-              color: "var(--color-text)",
-            }}
-          />
-          <input
-            type="number"
-            placeholder="Max"
-            className="flex-1 px-[length:var(--spacing-3)] py-[length:var(--spacing-2)] rounded-[length:var(--radius-md)] text-[length:var(--text-sm)]"
-            style={{
-              backgroundColor: "var(--color-surface)",
-              border: "1px solid var(--color-border)",
-              color: "var(--color-text)",
-            }}
-          />
-        </div>
-      </div>
-    </div>
-  );
-}
+// Selection is kept across pages, so the export covers every selected product
+const bulkActions: TableBulkAction<Product>[] = [
+  {
+    id: "export",
+    label: "Export",
+    onClick: ({ rows }) => {
+      toast.success(`Exported ${rows.length} products`);
+    },
+  },
+];
 
 /**
  * Server Table Demo Page
@@ -399,9 +354,11 @@ export default function ServerTablePage() {
   const [totalRows, setTotalRows] = React.useState(0);
   const [isLoading, setIsLoading] = React.useState(true);
   const [requestCount, setRequestCount] = React.useState(0);
+  const latestRequestId = React.useRef(0);
 
   // Fetch data on state change
   const fetchData = React.useCallback(async (state: ServerTableState) => {
+    const requestId = ++latestRequestId.current;
     setIsLoading(true);
     setRequestCount((prev) => prev + 1);
 
@@ -413,6 +370,9 @@ export default function ServerTablePage() {
       columnFilters: state.columnFilters,
     });
 
+    // Responses arrive in random order; only the latest request counts
+    if (requestId !== latestRequestId.current) return;
+
     setData(result.data);
     setPageCount(result.pageCount);
     setTotalRows(result.total);
@@ -519,7 +479,11 @@ export default function ServerTablePage() {
           onStateChange={fetchData}
           initialPageSize={10}
           searchPlaceholder="Search products... (debounced 300ms)"
-          filterContent={<FilterForm />}
+          tableId="demo-products"
+          syncWithUrl
+          enableRowSelection
+          bulkActions={bulkActions}
+          filterDefs={filterDefs}
         />
       </main>
     </div>
@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { RouterProvider, type createBrowserRouter } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+
+type DataRouter = ReturnType<typeof createBrowserRouter>;
+
+interface AuthRouterProviderProps {
+  router: DataRouter;
+}
+
+/**
+ * RouterProvider that re-runs route loaders whenever the auth session changes
+ * (login, logout, user update or another tab signing out), so loader-based
+ * guards redirect just like render-time guards would.
+ * Must be rendered inside AuthProvider.
+ *
+ * @example
+ * const [router] = useState(() => createBrowserRouter(routes));
+ * return <AuthRouterProvider router={router} />;
+ */
+export function AuthRouterProvider({ router }: AuthRouterProviderProps) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+
+  useEffect(() => {
+    if (!isLoading) {
+      router.revalidate();
+    }
+  }, [router, user, isAuthenticated, isLoading]);
+
+  return <RouterProvider router={router} />;
+}
+
+export default AuthRouterProvider;
@@ -1,5 +1,6 @@
 import { Navigate, Outlet, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { getLoginRedirectPath, type LoginRedirectState } from "./loaders";
 
 /**
  * Props for the PrivateRoute component.
@@ -37,8 +38,15 @@ export function PrivateRoute({ loginPath = "/login" }: PrivateRouteProps) {
   }
 
   // Redirect unauthenticated users to login, preserving the intended destination
+  // in `state.from` and `?from=`
   if (!isAuthenticated) {
-    return <Navigate to={loginPath} state={{ from: location }} replace />;
+    return (
+      <Navigate
+        to={getLoginRedirectPath(loginPath, location)}
+        state={{ from: location } satisfies LoginRedirectState}
+        replace
+      />
+    );
   }
 
   // Render the child routes for authenticated users
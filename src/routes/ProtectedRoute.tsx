@@ -1,7 +1,8 @@
 import { Navigate, Outlet } from "react-router-dom";
 import type { ReactNode } from "react";
-import { useAuth } from "@/hooks/useAuth";
-import type { Screen, Privilege, Permission } from "@/types/auth";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { PermissionMatchMode } from "@/lib/permissions";
+import type { Screen, Privilege } from "@/types/auth";
 
 /**
  * Props for the ProtectedRoute component.
@@ -11,8 +12,10 @@ interface ProtectedRouteProps {
   screen: Screen;
   /** Single privilege required for access */
   privilege?: Privilege;
-  /** Multiple privileges - user needs ANY of these (OR logic) */
+  /** Multiple privileges - combined according to `mode` */
   privileges?: Privilege[];
+  /** "any" needs at least one privilege (OR, default), "all" needs every one (AND) */
+  mode?: PermissionMatchMode;
   /** Route to redirect to when access is denied (default: "/403") */
   fallbackPath?: string;
   /** Custom fallback component to render instead of redirecting */
@@ -59,6 +62,17 @@ interface ProtectedRouteProps {
  * />
  *
  * @example
+ * // Require EDIT AND DELETE privileges
+ * <Route
+ *   path="/badges/:id/manage"
+ *   element={
+ *     <ProtectedRoute screen="BADGE" privileges={["EDIT", "DELETE"]} mode="all">
+ *       <BadgeManagePage />
+ *     </ProtectedRoute>
+ *   }
+ * />
+ *
+ * @example
  * // As a layout route for nested routes
  * <Route element={<ProtectedRoute screen="PROJECT" privilege="VIEW" />}>
  *   <Route path="/projects" element={<ProjectListPage />} />
@@ -86,34 +100,20 @@ export function ProtectedRoute({
   screen,
   privilege,
   privileges,
+  mode,
   fallbackPath = "/403",
   fallbackComponent,
   children,
 }: ProtectedRouteProps) {
-  const { hasPermission, hasAnyPermission, hasAnyPermissionForScreen, isLoading } = useAuth();
+  const { check, isLoading } = usePermissions();
 
   // Show nothing while checking auth status
   if (isLoading) {
     return null;
   }
 
-  // Check authorization
-  let hasAccess = false;
-
-  if (privilege) {
-    // Single privilege check
-    hasAccess = hasPermission(screen, privilege);
-  } else if (privileges && privileges.length > 0) {
-    // Multiple privileges check (OR logic)
-    const permissionsToCheck: Permission[] = privileges.map((p) => ({
-      screen,
-      privilege: p,
-    }));
-    hasAccess = hasAnyPermission(permissionsToCheck);
-  } else {
-    // No specific privilege required, check if user has any permission for this screen
-    hasAccess = hasAnyPermissionForScreen(screen);
-  }
+  // Check authorization - with no privileges, any permission for the screen grants access
+  const hasAccess = check({ screen, privilege, privileges, mode });
 
   // Handle denied access
   if (!hasAccess) {
@@ -1,11 +1,15 @@
-import { Navigate, Outlet } from "react-router-dom";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { getReturnPath } from "./loaders";
 
 /**
  * Props for the PublicRoute component.
  */
 interface PublicRouteProps {
-  /** Route to redirect to when user is authenticated (default: "/dashboard") */
+  /**
+   * Route to redirect to when user is authenticated (default: "/dashboard").
+   * A `state.from` (or `?from=`) page saved by PrivateRoute takes precedence.
+   */
   redirectTo?: string;
 }
 
@@ -29,15 +33,16 @@ interface PublicRouteProps {
  */
 export function PublicRoute({ redirectTo = "/dashboard" }: PublicRouteProps) {
   const { isAuthenticated, isLoading } = useAuth();
+  const from = getReturnPath(useLocation());
 
   // Show nothing while checking auth status
   if (isLoading) {
     return null;
   }
 
-  // Redirect authenticated users to the specified route
+  // Redirect authenticated users back to where they came from, or the specified route
   if (isAuthenticated) {
-    return <Navigate to={redirectTo} replace />;
+    return <Navigate to={from ?? redirectTo} replace />;
   }
 
   // Render the child routes for unauthenticated users
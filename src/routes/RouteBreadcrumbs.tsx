@@ -0,0 +1,73 @@
+import { Fragment } from "react";
+import { useHref, useLinkClickHandler, useLocation } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/navigation/Breadcrumb";
+import { getRouteTrail } from "./paths";
+
+/**
+ * BreadcrumbLink that navigates client-side.
+ */
+function RouterBreadcrumbLink({ to, children }: { to: string; children: string }) {
+  const href = useHref(to);
+  const handleClick = useLinkClickHandler(to);
+
+  return (
+    <BreadcrumbLink href={href} onClick={handleClick}>
+      {children}
+    </BreadcrumbLink>
+  );
+}
+
+interface RouteBreadcrumbsProps {
+  className?: string;
+}
+
+/**
+ * Breadcrumb trail for the current location, derived from the route registry.
+ * Labels come from each route's `breadcrumb` (or nav label) key and the trail
+ * follows `parent` links. Renders nothing for unregistered locations.
+ *
+ * @example
+ * // On /badges/42/edit renders: Badges > Details > Edit
+ * <RouteBreadcrumbs />
+ */
+export function RouteBreadcrumbs({ className }: RouteBreadcrumbsProps) {
+  const { t } = useTranslation("common");
+  const { pathname } = useLocation();
+  const trail = getRouteTrail(pathname);
+
+  if (trail.length === 0) return null;
+
+  return (
+    <Breadcrumb className={className}>
+      <BreadcrumbList>
+        {trail.map((item, index) => {
+          const label = t(item.labelKey, item.params);
+          const isLast = index === trail.length - 1;
+
+          return (
+            <Fragment key={item.name}>
+              {index > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem>
+                {isLast ? (
+                  <BreadcrumbPage>{label}</BreadcrumbPage>
+                ) : (
+                  <RouterBreadcrumbLink to={item.href}>{label}</RouterBreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          );
+        })}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
+
+export default RouteBreadcrumbs;
@@ -1,6 +1,33 @@
 export { AppRoutes } from "./AppRoutes";
+export { AuthRouterProvider } from "./AuthRouterProvider";
+export { createAppRoutes, createAppRouter } from "./router";
+export {
+  requireAuth,
+  requirePermission,
+  redirectIfAuthenticated,
+  getRedirectTarget,
+  getReturnPath,
+  lazyPage,
+  REDIRECT_PARAM,
+  type LoginRedirectState,
+  type RouteLoaderArgs,
+  type RouteLoaderContext,
+} from "./loaders";
 export { PublicRoute } from "./PublicRoute";
 export { PrivateRoute } from "./PrivateRoute";
 export { ProtectedRoute } from "./ProtectedRoute";
+export { RouteBreadcrumbs } from "./RouteBreadcrumbs";
+export { routes } from "./registry";
+export type { RouteAccess, RouteDefinition, RouteNavConfig } from "./registry";
+export {
+  buildPath,
+  matchRoute,
+  getRouteTrail,
+  getNavigationRoutes,
+  type RouteName,
+  type RouteParams,
+  type RouteTrailItem,
+  type NavigationRoute,
+} from "./paths";
 // Re-export permission hooks for convenience
 export { useCanAccessScreen, useHasPermission } from "@/hooks/useAuth";
@@ -0,0 +1,128 @@
+import type { ComponentType } from "react";
+import { redirect, type LoaderFunctionArgs } from "react-router-dom";
+import type { QueryClient } from "@tanstack/react-query";
+import { getVerifiedAuthState } from "@/context/auth-storage";
+import {
+  ROLES,
+  checkPermission,
+  getUserPermissionSet,
+  type PermissionRequirement,
+} from "@/lib/permissions";
+import type { Role, User } from "@/types/auth";
+
+/**
+ * Dependencies handed to registry loaders.
+ */
+export interface RouteLoaderContext {
+  queryClient: QueryClient;
+  /** Role definitions used to expand `user.roles` (default: ROLES) */
+  roles?: Record<string, Role>;
+}
+
+/**
+ * Arguments of a registry loader: React Router's loader args plus the loader context.
+ */
+export type RouteLoaderArgs = LoaderFunctionArgs & RouteLoaderContext;
+
+/**
+ * Search param the login redirect uses to remember the requested page.
+ */
+export const REDIRECT_PARAM = "from";
+
+/**
+ * Read a safe in-app redirect target from search params.
+ * Only same-origin absolute paths are accepted.
+ */
+export function getRedirectParam(searchParams: URLSearchParams): string | null {
+  const target = searchParams.get(REDIRECT_PARAM);
+  return target?.startsWith("/") && !target.startsWith("//") ? target : null;
+}
+
+/**
+ * Read a safe in-app redirect target from the request URL.
+ */
+export function getRedirectTarget(request: Request): string | null {
+  return getRedirectParam(new URL(request.url).searchParams);
+}
+
+/**
+ * Location state PrivateRoute saves when redirecting to the login page.
+ */
+export interface LoginRedirectState {
+  from?: { pathname: string; search: string; hash: string };
+}
+
+/**
+ * Page to return to after login: the `state.from` location saved by
+ * PrivateRoute, else a safe `?from=` target (what loader guards can carry).
+ */
+export function getReturnPath({ state, search }: { state: unknown; search: string }): string | null {
+  const from = (state as LoginRedirectState | null)?.from;
+  if (from) return `${from.pathname}${from.search}${from.hash}`;
+  return getRedirectParam(new URLSearchParams(search));
+}
+
+/**
+ * Login page URL that remembers the requested location in `?from=`.
+ * Loader guards can't set location state, so the query param is how they
+ * pass the page on; PrivateRoute sets both.
+ */
+export function getLoginRedirectPath(
+  loginPath: string,
+  { pathname, search, hash }: { pathname: string; search: string; hash: string }
+): string {
+  const params = new URLSearchParams({ [REDIRECT_PARAM]: `${pathname}${search}${hash}` });
+  return `${loginPath}?${params}`;
+}
+
+/**
+ * Require an authenticated session, otherwise redirect to the login page
+ * with the requested location in `?from=`. Waits for AuthProvider to verify
+ * a session restored from storage.
+ */
+export async function requireAuth(request: Request, loginPath = "/login"): Promise<User> {
+  const { user, isAuthenticated } = await getVerifiedAuthState();
+
+  if (!isAuthenticated || !user) {
+    throw redirect(getLoginRedirectPath(loginPath, new URL(request.url)));
+  }
+
+  return user;
+}
+
+/**
+ * Require a permission for the given user, otherwise redirect to the forbidden page.
+ */
+export function requirePermission(
+  user: User,
+  requirement: PermissionRequirement,
+  { roles = ROLES, fallbackPath = "/403" }: { roles?: Record<string, Role>; fallbackPath?: string } = {}
+): void {
+  if (!checkPermission(getUserPermissionSet(user, roles), requirement)) {
+    throw redirect(fallbackPath);
+  }
+}
+
+/**
+ * Redirect authenticated users away from public-only pages,
+ * back to the page they were sent to login from when known.
+ */
+export async function redirectIfAuthenticated(
+  request: Request,
+  redirectTo = "/dashboard"
+): Promise<null> {
+  if ((await getVerifiedAuthState()).isAuthenticated) {
+    throw redirect(getRedirectTarget(request) ?? redirectTo);
+  }
+  return null;
+}
+
+/**
+ * Adapt a page module import to a data-router `lazy` function.
+ *
+ * @example
+ * { path: "/login", lazy: lazyPage(() => import("@/pages/LoginPage")) }
+ */
+export function lazyPage(load: () => Promise<{ default: ComponentType }>) {
+  return async () => ({ Component: (await load()).default });
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { buildPath, getNavigationRoutes, getRouteTrail, matchRoute } from './paths'
+
+describe('buildPath', () => {
+  it('returns static paths as-is', () => {
+    expect(buildPath('badges')).toBe('/badges')
+    expect(buildPath('demo.kitchenSink')).toBe('/demo/kitchen-sink')
+  })
+
+  it('fills path params', () => {
+    expect(buildPath('badges.edit', { id: 42 })).toBe('/badges/42/edit')
+  })
+
+  it('encodes param values', () => {
+    expect(buildPath('badges.detail', { id: 'a/b c' })).toBe('/badges/a%2Fb%20c')
+  })
+
+  it('requires params for parameterized routes', () => {
+    // @ts-expect-error - "id" is required
+    expect(() => buildPath('badges.detail')).toThrow('Missing route param "id"')
+  })
+})
+
+describe('matchRoute', () => {
+  it('prefers static segments over params', () => {
+    expect(matchRoute('/badges/create')?.name).toBe('badges.create')
+    expect(matchRoute('/badges/7')).toEqual({ name: 'badges.detail', params: { id: '7' } })
+  })
+
+  it('falls back to the catch-all route', () => {
+    expect(matchRoute('/nowhere')?.name).toBe('notFound')
+  })
+})
+
+describe('getRouteTrail', () => {
+  it('walks parent routes with the current params', () => {
+    expect(getRouteTrail('/badges/42/edit')).toEqual([
+      { name: 'badges', href: '/badges', labelKey: 'navigation.badges', params: { id: '42' } },
+      { name: 'badges.detail', href: '/badges/42', labelKey: 'breadcrumbs.detail', params: { id: '42' } },
+      { name: 'badges.edit', href: '/badges/42/edit', labelKey: 'breadcrumbs.edit', params: { id: '42' } },
+    ])
+  })
+
+  it('skips routes without a label', () => {
+    expect(getRouteTrail('/403')).toEqual([])
+    expect(getRouteTrail('/nowhere')).toEqual([])
+  })
+})
+
+describe('getNavigationRoutes', () => {
+  it('lists routes with nav config in declaration order', () => {
+    expect(getNavigationRoutes().map((route) => route.href)).toEqual([
+      '/dashboard',
+      '/badges',
+      '/projects',
+      '/users',
+      '/reports',
+      '/settings',
+    ])
+  })
+
+  it('keeps the screen that gates each entry', () => {
+    const screens = Object.fromEntries(
+      getNavigationRoutes().map((route) => [route.href, route.screen])
+    )
+    expect(screens['/dashboard']).toBe('DASHBOARD')
+    expect(screens['/badges']).toBe('BADGE')
+  })
+})
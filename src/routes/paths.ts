@@ -0,0 +1,146 @@
+import { matchRoutes } from "react-router-dom";
+import { routes, type RouteDefinition, type RouteNavConfig } from "./registry";
+import type { Screen } from "@/types/auth";
+
+/**
+ * Name of a route in the registry, e.g. "badges.edit".
+ */
+export type RouteName = keyof typeof routes;
+
+/**
+ * Extract the `:param` names from a path pattern.
+ *
+ * @example
+ * PathParamNames<"/badges/:id/edit"> // "id"
+ */
+type PathParamNames<P extends string> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParamNames<Rest>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+/**
+ * Params required to build the path of a route.
+ */
+export type RouteParams<N extends RouteName> = {
+  [K in PathParamNames<(typeof routes)[N]["path"]>]: string | number;
+};
+
+type BuildPathArgs<N extends RouteName> = [keyof RouteParams<N>] extends [never]
+  ? [params?: undefined]
+  : [params: RouteParams<N>];
+
+/**
+ * A route resolved against the current location.
+ */
+export interface RouteTrailItem {
+  name: RouteName;
+  /** Concrete URL of the route */
+  href: string;
+  /** Translation key for the breadcrumb label */
+  labelKey: string;
+  /** Params of the current location, for label interpolation */
+  params: Record<string, string>;
+}
+
+/**
+ * Registry entries in declaration order.
+ */
+export const routeEntries = Object.entries(routes) as [RouteName, RouteDefinition<RouteName>][];
+
+/**
+ * Fill a path pattern with params. Throws if a param is missing.
+ */
+function fillPath(pattern: string, params: Record<string, string | number | undefined>): string {
+  return pattern.replace(/:(\w+)/g, (_, key: string) => {
+    const value = params[key];
+    if (value === undefined) {
+      throw new Error(`Missing route param "${key}" for path "${pattern}"`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Build the URL of a registered route. Params are required exactly when the path has them.
+ *
+ * @example
+ * buildPath("badges");                     // "/badges"
+ * buildPath("badges.edit", { id: 42 });    // "/badges/42/edit"
+ */
+export function buildPath<N extends RouteName>(name: N, ...[params]: BuildPathArgs<N>): string {
+  return fillPath(routes[name].path, params ?? {});
+}
+
+/**
+ * Find the registry route that best matches a pathname, using React Router's ranking.
+ */
+export function matchRoute(
+  pathname: string
+): { name: RouteName; params: Record<string, string> } | null {
+  const matches = matchRoutes(
+    routeEntries.map(([name, route]) => ({ id: name, path: route.path })),
+    pathname
+  );
+  const match = matches?.[matches.length - 1];
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(match.params)) {
+    if (value !== undefined) params[key] = value;
+  }
+  return { name: match.route.id as RouteName, params };
+}
+
+/**
+ * Resolve the breadcrumb trail for a pathname by walking `parent` links.
+ * Routes without a label are skipped; parents reuse the params of the current location.
+ *
+ * @example
+ * getRouteTrail("/badges/42/edit");
+ * // [badges → "/badges", badges.detail → "/badges/42", badges.edit → "/badges/42/edit"]
+ */
+export function getRouteTrail(pathname: string): RouteTrailItem[] {
+  const match = matchRoute(pathname);
+  if (!match) return [];
+
+  const trail: RouteTrailItem[] = [];
+  const visited = new Set<RouteName>();
+  let name: RouteName | undefined = match.name;
+
+  while (name && !visited.has(name)) {
+    visited.add(name);
+    const route: RouteDefinition<RouteName> = routes[name];
+    const labelKey = route.breadcrumb ?? route.nav?.labelKey;
+    if (labelKey) {
+      trail.unshift({
+        name,
+        href: fillPath(route.path, match.params),
+        labelKey,
+        params: match.params,
+      });
+    }
+    name = route.parent;
+  }
+
+  return trail;
+}
+
+/**
+ * Sidebar entry resolved from the registry.
+ */
+export interface NavigationRoute extends RouteNavConfig {
+  name: RouteName;
+  href: string;
+  /** Screen the user needs any access to; entries without one are always shown */
+  screen?: Screen;
+}
+
+/**
+ * Routes shown in the sidebar, in declaration order.
+ */
+export function getNavigationRoutes(): NavigationRoute[] {
+  return routeEntries.flatMap(([name, route]) =>
+    route.nav ? [{ name, href: route.path, screen: route.screen, ...route.nav }] : []
+  );
+}
@@ -0,0 +1,242 @@
+import type { ComponentType, ReactNode } from "react";
+import type { PermissionMatchMode } from "@/lib/permissions";
+import type { Privilege, Screen } from "@/types/auth";
+import { kitchenSinkLoader } from "@/pages/demo/kitchen-sink-queries";
+import type { RouteLoaderArgs } from "./loaders";
+
+/**
+ * Which guard a route is rendered behind:
+ * - "public": only for unauthenticated users (authenticated users are redirected away)
+ * - "private": requires authentication, rendered inside DashboardLayout
+ * - "open": rendered for everyone, e.g. error pages
+ */
+export type RouteAccess = "public" | "private" | "open";
+
+/**
+ * Sidebar entry for a route.
+ */
+export interface RouteNavConfig {
+  /** Translation key for the label (e.g., "navigation.dashboard") */
+  labelKey: string;
+  icon: ReactNode;
+}
+
+/**
+ * A single entry in the route registry.
+ */
+export interface RouteDefinition<TName extends string = string> {
+  /** React Router path pattern, e.g. "/badges/:id/edit" */
+  path: string;
+  /** Page module loaded on navigation, in parallel with `loader` */
+  lazy?: () => Promise<{ default: ComponentType }>;
+  /** Static element, used when no `lazy` page is given (placeholders) */
+  element?: ReactNode;
+  /** Guard the route is rendered behind (default: "private") */
+  access?: RouteAccess;
+  /** Prefetch the page's data, e.g. `queryClient.prefetchQuery(fetchQueryOptions(...))` */
+  loader?: (args: RouteLoaderArgs) => unknown;
+  /** Screen required to open the route - checked in the route loader */
+  screen?: Screen;
+  /** Single privilege required for access */
+  privilege?: Privilege;
+  /** Multiple privileges - combined according to `mode` */
+  privileges?: Privilege[];
+  /** How to combine privileges (default: "any") */
+  mode?: PermissionMatchMode;
+  /** Show the route in the sidebar */
+  nav?: RouteNavConfig;
+  /** Translation key for the breadcrumb label (default: nav.labelKey); route params are interpolated */
+  breadcrumb?: string;
+  /** Registry name of the parent route in the breadcrumb trail */
+  parent?: TName;
+}
+
+/**
+ * Identity helper that keeps literal paths and validates `parent` names.
+ */
+function defineRoutes<const T extends Record<string, RouteDefinition>>(
+  definitions: T & { [K in keyof T]: { parent?: Extract<keyof T, string> } }
+): T {
+  return definitions;
+}
+
+/**
+ * Application route manifest.
+ * AppRoutes, the sidebar, breadcrumbs and `buildPath` are all derived from this object,
+ * so a new page only needs an entry here. Sidebar items appear in declaration order.
+ */
+export const routes = defineRoutes({
+  login: {
+    path: "/login",
+    access: "public",
+    lazy: () => import("@/pages/LoginPage"),
+  },
+
+  dashboard: {
+    path: "/dashboard",
+    element: <div>Dashboard</div>,
+    screen: "DASHBOARD",
+    nav: {
+      labelKey: "navigation.dashboard",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <rect x="3" y="3" width="7" height="7" rx="1" />
+          <rect x="14" y="3" width="7" height="7" rx="1" />
+          <rect x="14" y="14" width="7" height="7" rx="1" />
+          <rect x="3" y="14" width="7" height="7" rx="1" />
+        </svg>
+      ),
+    },
+  },
+
+  // Badge routes - replace the placeholder elements with your pages
+  badges: {
+    path: "/badges",
+    element: <div>Badge List</div>,
+    screen: "BADGE",
+    privilege: "VIEW",
+    nav: {
+      labelKey: "navigation.badges",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <path d="M12 15l-3.5 2 1-4L6 10l4-.5L12 6l2 3.5 4 .5-3.5 3 1 4z" />
+        </svg>
+      ),
+    },
+  },
+  "badges.create": {
+    path: "/badges/create",
+    element: <div>Create Badge</div>,
+    screen: "BADGE",
+    privilege: "CREATE",
+    breadcrumb: "breadcrumbs.create",
+    parent: "badges",
+  },
+  "badges.detail": {
+    path: "/badges/:id",
+    element: <div>Badge Detail</div>,
+    screen: "BADGE",
+    privileges: ["VIEW", "EDIT"],
+    breadcrumb: "breadcrumbs.detail",
+    parent: "badges",
+  },
+  "badges.edit": {
+    path: "/badges/:id/edit",
+    element: <div>Edit Badge</div>,
+    screen: "BADGE",
+    privilege: "EDIT",
+    breadcrumb: "breadcrumbs.edit",
+    parent: "badges.detail",
+  },
+
+  // Project routes
+  projects: {
+    path: "/projects",
+    element: <div>Project List</div>,
+    screen: "PROJECT",
+    privilege: "VIEW",
+    nav: {
+      labelKey: "navigation.projects",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <path d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+        </svg>
+      ),
+    },
+  },
+  "projects.create": {
+    path: "/projects/create",
+    element: <div>Create Project</div>,
+    screen: "PROJECT",
+    privilege: "CREATE",
+    breadcrumb: "breadcrumbs.create",
+    parent: "projects",
+  },
+
+  // User management routes
+  users: {
+    path: "/users",
+    element: <div>User List</div>,
+    screen: "USERS",
+    privilege: "VIEW",
+    nav: {
+      labelKey: "navigation.users",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2" />
+          <circle cx="9" cy="7" r="4" />
+          <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75" />
+        </svg>
+      ),
+    },
+  },
+  "users.create": {
+    path: "/users/create",
+    element: <div>Create User</div>,
+    screen: "USERS",
+    privilege: "CREATE",
+    breadcrumb: "breadcrumbs.create",
+    parent: "users",
+  },
+
+  reports: {
+    path: "/reports",
+    element: <div>Reports</div>,
+    screen: "REPORTS",
+    privilege: "VIEW",
+    nav: {
+      labelKey: "navigation.reports",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <path d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      ),
+    },
+  },
+
+  settings: {
+    path: "/settings",
+    element: <div>Settings</div>,
+    screen: "SETTINGS",
+    privilege: "CONFIGURE",
+    nav: {
+      labelKey: "navigation.settings",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+          <circle cx="12" cy="12" r="3" />
+          <path d="M19.4 15a1.65 1.65 0 00.33 1.82l.06.06a2 2 0 010 2.83 2 2 0 01-2.83 0l-.06-.06a1.65 1.65 0 00-1.82-.33 1.65 1.65 0 00-1 1.51V21a2 2 0 01-2 2 2 2 0 01-2-2v-.09A1.65 1.65 0 009 19.4a1.65 1.65 0 00-1.82.33l-.06.06a2 2 0 01-2.83 0 2 2 0 010-2.83l.06-.06a1.65 1.65 0 00.33-1.82 1.65 1.65 0 00-1.51-1H3a2 2 0 01-2-2 2 2 0 012-2h.09A1.65 1.65 0 004.6 9a1.65 1.65 0 00-.33-1.82l-.06-.06a2 2 0 010-2.83 2 2 0 012.83 0l.06.06a1.65 1.65 0 001.82.33H9a1.65 1.65 0 001-1.51V3a2 2 0 012-2 2 2 0 012 2v.09a1.65 1.65 0 001 1.51 1.65 1.65 0 001.82-.33l.06-.06a2 2 0 012.83 0 2 2 0 010 2.83l-.06.06a1.65 1.65 0 00-.33 1.82V9a1.65 1.65 0 001.51 1H21a2 2 0 012 2 2 2 0 01-2 2h-.09a1.65 1.65 0 00-1.51 1z" />
+        </svg>
+      ),
+    },
+  },
+
+  // Component showcase - any authenticated user.
+  // App.tsx also exposes a public version for development.
+  showcase: {
+    path: "/showcase",
+    lazy: () => import("@/pages/ShowcasePage"),
+    breadcrumb: "breadcrumbs.showcase",
+  },
+
+  // Kitchen sink demo - demonstrates all boilerplate systems
+  "demo.kitchenSink": {
+    path: "/demo/kitchen-sink",
+    lazy: () => import("@/pages/demo/KitchenSinkPage"),
+    loader: kitchenSinkLoader,
+    screen: "DEMO",
+    privilege: "VIEW",
+    breadcrumb: "breadcrumbs.kitchenSink",
+  },
+
+  // Error pages
+  forbidden: {
+    path: "/403",
+    access: "open",
+    element: <div>403 - Access Denied</div>,
+  },
+  notFound: {
+    path: "*",
+    access: "open",
+    element: <div>404 - Not Found</div>,
+  },
+});
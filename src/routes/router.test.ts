@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { waitFor } from '@testing-library/react'
+import { createMemoryRouter } from 'react-router-dom'
+import { QueryClient } from '@tanstack/react-query'
+import { createAppRoutes } from './router'
+import { getRedirectTarget } from './loaders'
+import { removeAuthToken, setAuthToken } from '@/api/client'
+import { markSessionVerified, removeUser, storeUser } from '@/context/auth-storage'
+import type { User } from '@/types/auth'
+
+const user: User = {
+  id: 'user-1',
+  email: 'user@example.com',
+  name: 'Test User',
+  roles: ['USER'],
+}
+
+/**
+ * Run the initial navigation for a path and return where the router ended up.
+ */
+async function navigateTo(path: string) {
+  const router = createMemoryRouter(createAppRoutes({ queryClient: new QueryClient() }), {
+    initialEntries: [path],
+  })
+  await waitFor(() => expect(router.state.initialized).toBe(true))
+  const { pathname, search } = router.state.location
+  router.dispose()
+  return `${pathname}${search}`
+}
+
+describe('createAppRoutes', () => {
+  // No AuthProvider here: treat the stored session as already verified
+  beforeAll(() => markSessionVerified())
+
+  beforeEach(() => {
+    removeAuthToken()
+    removeUser()
+  })
+
+  it('redirects unauthenticated users to login with the requested page', async () => {
+    expect(await navigateTo('/badges/42?tab=history')).toBe(
+      '/login?from=%2Fbadges%2F42%3Ftab%3Dhistory'
+    )
+  })
+
+  it('redirects to the forbidden page when a permission is missing', async () => {
+    setAuthToken('token')
+    storeUser(user)
+
+    expect(await navigateTo('/settings')).toBe('/403')
+  })
+
+  it('allows routes the user has permission for', async () => {
+    setAuthToken('token')
+    storeUser(user)
+
+    expect(await navigateTo('/badges')).toBe('/badges')
+  })
+
+  it('sends authenticated users from login back to the saved page', async () => {
+    setAuthToken('token')
+    storeUser(user)
+
+    expect(await navigateTo('/login?from=%2Fbadges')).toBe('/badges')
+    expect(await navigateTo('/login')).toBe('/dashboard')
+  })
+})
+
+describe('createAppRoutes before the session is verified', () => {
+  it('waits for AuthProvider instead of trusting the cached user', async () => {
+    // Fresh modules, as on page load: nothing has been verified yet
+    vi.resetModules()
+    const { createAppRoutes } = await import('./router')
+    const storage = await import('@/context/auth-storage')
+    setAuthToken('token')
+    storage.storeUser({ ...user, roles: ['ADMIN'] })
+
+    const router = createMemoryRouter(createAppRoutes({ queryClient: new QueryClient() }), {
+      initialEntries: ['/settings'],
+    })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(router.state.initialized).toBe(false)
+
+    // /auth/me rejected the stored session
+    removeAuthToken()
+    storage.removeUser()
+    storage.markSessionVerified()
+
+    await waitFor(() => expect(router.state.initialized).toBe(true))
+    expect(`${router.state.location.pathname}${router.state.location.search}`).toBe(
+      '/login?from=%2Fsettings'
+    )
+    router.dispose()
+  })
+})
+
+describe('getRedirectTarget', () => {
+  it('only accepts in-app paths', () => {
+    const target = (from: string) =>
+      getRedirectTarget(new Request(`http://localhost/login?from=${encodeURIComponent(from)}`))
+
+    expect(target('/badges')).toBe('/badges')
+    expect(target('//evil.example')).toBeNull()
+    expect(target('https://evil.example')).toBeNull()
+  })
+})
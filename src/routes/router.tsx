@@ -0,0 +1,86 @@
+import { createBrowserRouter, type RouteObject } from "react-router-dom";
+import { DashboardLayout } from "@/components/layouts/DashboardLayout";
+import { PageLoader, RouteErrorElement } from "@/components/feedback";
+import {
+  lazyPage,
+  redirectIfAuthenticated,
+  requireAuth,
+  requirePermission,
+  type RouteLoaderContext,
+} from "./loaders";
+import { routeEntries, type RouteName } from "./paths";
+import type { RouteAccess, RouteDefinition } from "./registry";
+
+/**
+ * Build the data-router route object for a registry entry.
+ * Guards run in the loader, before the page chunk renders; the page module
+ * and its data loader are fetched in parallel.
+ */
+function toRouteObject(
+  [name, route]: [RouteName, RouteDefinition<RouteName>],
+  context: RouteLoaderContext
+): RouteObject {
+  const { access = "private", screen, privilege, privileges, mode } = route;
+
+  return {
+    id: name,
+    path: route.path,
+    element: route.lazy ? undefined : route.element,
+    lazy: route.lazy ? lazyPage(route.lazy) : undefined,
+    errorElement: <RouteErrorElement />,
+    loader: async (args) => {
+      if (access === "public") {
+        await redirectIfAuthenticated(args.request);
+      } else if (access === "private") {
+        const user = await requireAuth(args.request);
+        if (screen) {
+          requirePermission(
+            user,
+            { screen, privilege, privileges, mode },
+            { roles: context.roles }
+          );
+        }
+      }
+
+      return (await route.loader?.({ ...args, ...context })) ?? null;
+    },
+  };
+}
+
+function toRouteObjects(access: RouteAccess, context: RouteLoaderContext): RouteObject[] {
+  return routeEntries
+    .filter(([, route]) => (route.access ?? "private") === access)
+    .map((entry) => toRouteObject(entry, context));
+}
+
+/**
+ * Route objects generated from the registry in `./registry.tsx`:
+ * - Public routes (accessible only to unauthenticated users)
+ * - Private routes (require authentication, rendered inside DashboardLayout)
+ * - Protected routes (require specific permissions - any entry with a `screen`)
+ * - Open routes (error pages)
+ */
+export function createAppRoutes(context: RouteLoaderContext): RouteObject[] {
+  return [
+    {
+      id: "root",
+      HydrateFallback: PageLoader,
+      errorElement: <RouteErrorElement />,
+      children: [
+        ...toRouteObjects("public", context),
+        {
+          element: <DashboardLayout />,
+          children: toRouteObjects("private", context),
+        },
+        ...toRouteObjects("open", context),
+      ],
+    },
+  ];
+}
+
+/**
+ * Create the browser router for the registry routes.
+ */
+export function createAppRouter(context: RouteLoaderContext) {
+  return createBrowserRouter(createAppRoutes(context));
+}
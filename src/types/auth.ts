@@ -24,15 +24,44 @@ export interface Permission {
   privilege: Privilege;
 }
 
+/**
+ * A permission written as a "SCREEN:PRIVILEGE" string.
+ * Either side may be a `*` wildcard, e.g. "BADGE:*" or "*:VIEW".
+ */
+export type PermissionPattern = `${Screen | "*"}:${Privilege | "*"}`;
+
+/**
+ * Anything that grants access: an explicit permission pair or a pattern.
+ */
+export type PermissionGrant = Permission | PermissionPattern;
+
+/**
+ * A named set of permissions that can be assigned to users.
+ */
+export interface Role {
+  /** Unique role name sent by the backend, e.g. "ADMIN" */
+  name: string;
+  /** Human-readable description */
+  description?: string;
+  /** Permissions granted by this role */
+  permissions: PermissionGrant[];
+  /** Roles whose permissions this role also grants */
+  inherits?: string[];
+}
+
 /**
  * User structure returned from authentication/backend.
+ * Access is the union of the user's roles and any explicit permissions.
  */
 export interface User {
   id: string;
   email: string;
   name: string;
   avatar?: string;
-  permissions: Permission[];
+  /** Role names, expanded using the role definitions in lib/permissions */
+  roles?: string[];
+  /** Explicit permissions in addition to those granted by roles */
+  permissions?: PermissionGrant[];
 }
 
 /**
@@ -43,6 +72,8 @@ export interface AuthState {
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** Access token expiry in milliseconds since the epoch, from the JWT `exp` claim */
+  expiresAt: number | null;
 }
 
 /**
@@ -61,3 +92,11 @@ export interface AuthResponse {
   token: string;
   refreshToken?: string;
 }
+
+/**
+ * Response from the token refresh endpoint.
+ */
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken?: string;
+}